@@ -1,39 +1,104 @@
-import { Plugin, Notice, TFile, WorkspaceLeaf } from 'obsidian';
-import { KastenatorSettings } from './types';
+import { Plugin, Notice, Platform, TFile, WorkspaceLeaf } from 'obsidian';
+import { KastenatorSettings, QuarryNote } from './types';
 import { KastenatorSettingTab } from './settings';
 import { NotificationScheduler } from './services/scheduler';
 import { QuarryService } from './services/quarry';
 import { AtomisationModal } from './ui/atomisation-modal';
 import { ATOMISATION_VIEW_TYPE, AtomisationView } from './ui/atomisation-view';
+import { DASHBOARD_VIEW_TYPE, DashboardView } from './ui/dashboard-view';
+import { DEFAULT_SELECTION_WEIGHTS } from './services/selection';
+import { SessionStore } from './services/session-store';
+import { DEFAULT_MIGRATION_LIFECYCLE } from './services/lifecycle';
+import { ReviewService } from './services/review';
+import { UsageLedger } from './services/usage';
+import { toDateKey } from './services/dates';
+import { DeviceStore } from './services/device-state';
+import { SessionLedger, describeLedgerSession } from './services/session-ledger';
 
 const DEFAULT_SETTINGS: KastenatorSettings = {
   notificationHour: 9,
   notificationMinute: 0,
+  notificationSlots: [],
+  notificationDays: [0, 1, 2, 3, 4, 5, 6],
+  quietHours: null,
+  sessionsPerDay: 0,
   quarryFolders: ['Fleeting notes', 'Source notes'],
   migrationField: 'Migration',
   quarryValue: 'quarry',
+  migrationLifecycle: {
+    transitions: { ...DEFAULT_MIGRATION_LIFECYCLE.transitions },
+    events: { ...DEFAULT_MIGRATION_LIFECYCLE.events },
+  },
+  selectionWeights: { ...DEFAULT_SELECTION_WEIGHTS },
+  skipCounts: {},
   atomFolder: 'Atoms',
   atomTemplatePath: '',
+  sourceAtomLinks: 'properties',
+  linkEvidenceBlocks: false,
   lastNotificationDate: '',
   notificationEnabled: true,
+  snoozeMinutes: 60,
+  sessionLedgerPath: 'Kastenator/Session ledger.md',
+  savedSession: null,
+  reviewCards: [],
+  usageLedger: [],
+  monthlyBudget: 0,
   llmProvider: 'none',
+  llmFallbackProviders: [],
+  llmTimeoutSeconds: 60,
+  llmMaxRetries: 2,
   useLLMCritique: true,
+  promptTemplateFolder: 'Prompts',
+  critiquePromptPath: '',
+  conceptPromptPath: '',
+  promptSourceTokens: 1000,
 };
 
 export default class DailyKastenatorPlugin extends Plugin {
   settings: KastenatorSettings;
+  sessionStore: SessionStore;
+  reviewService: ReviewService;
+  usageLedger: UsageLedger;
+  quarryService: QuarryService;
+  deviceStore: DeviceStore;
+  sessionLedger: SessionLedger;
   private scheduler: NotificationScheduler;
-  private quarryService: QuarryService;
+  /** Note put off with "Remind Me Later", offered again when the snooze ends */
+  private deferredNote: QuarryNote | null = null;
 
   async onload(): Promise<void> {
     await this.loadSettings();
 
+    // When this device last notified is kept out of the synced settings
+    this.deviceStore = new DeviceStore(
+      this.app,
+      this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`,
+      this.getDefaultDeviceName()
+    );
+    // Earlier versions kept these in data.json; carry them over on upgrade
+    const device = await this.deviceStore.load({
+      lastNotificationDate: this.settings.lastNotificationDate,
+      lastNotificationAt: this.settings.lastNotificationAt,
+    });
+    this.settings.lastNotificationDate = device.lastNotificationDate;
+    this.settings.lastNotificationAt = device.lastNotificationAt;
+
     // Initialise services
+    // Session saves bypass saveSettings to avoid rescheduling on every edit
+    this.sessionStore = new SessionStore(this.settings, () => this.savePluginData());
+    this.reviewService = new ReviewService(this.settings, () => this.savePluginData());
+    this.usageLedger = new UsageLedger(this.settings, () => this.savePluginData());
     this.quarryService = new QuarryService(this.app, this.settings);
+    this.sessionLedger = new SessionLedger(this.app, this.settings, this.deviceStore);
     this.scheduler = new NotificationScheduler(
       this,
       this.settings,
-      () => this.triggerDailyNotification()
+      (slot) => {
+        this.handleScheduledNotification(slot).catch((error) =>
+          console.error('Failed to show the scheduled notification', error)
+        );
+      },
+      this.sessionLedger
     );
 
     // Register the atomisation view
@@ -41,6 +106,10 @@ export default class DailyKastenatorPlugin extends Plugin {
       ATOMISATION_VIEW_TYPE,
       (leaf) => new AtomisationView(leaf, this)
     );
+    this.registerView(
+      DASHBOARD_VIEW_TYPE,
+      (leaf) => new DashboardView(leaf, this)
+    );
 
     // Add ribbon icon for manual trigger
     this.addRibbonIcon('pickaxe', 'Daily Kastenator', () => {
@@ -54,73 +123,232 @@ export default class DailyKastenatorPlugin extends Plugin {
       callback: () => this.triggerDailyNotification(),
     });
 
+    this.addCommand({
+      id: 'review-due-atoms',
+      name: 'Review due atoms',
+      callback: () => this.startReview(),
+    });
+
     this.addCommand({
       id: 'open-random-quarry-note',
       name: 'Open random quarry note',
       callback: () => this.openRandomQuarryNote(),
     });
 
+    // Kept under its old ID so existing hotkeys open the dashboard
     this.addCommand({
       id: 'show-quarry-stats',
-      name: 'Show quarry statistics',
-      callback: () => this.showQuarryStats(),
+      name: 'Open progress dashboard',
+      callback: () => this.activateDashboardView(),
     });
 
+    // Keep the quarry index current instead of rescanning
+    this.quarryService.registerEvents(this);
+
+    // Pick up sessions other devices add to the ledger
+    this.sessionLedger.registerEvents(this);
+
+    // Keep review cards pointing at their atoms
+    this.registerEvent(
+      this.app.vault.on('rename', (file, oldPath) => {
+        if (file instanceof TFile) {
+          this.reviewService
+            .renameAtom(oldPath, file.path, file.basename)
+            .catch((error) => console.error('Failed to update review card for renamed atom', error));
+        }
+      })
+    );
+    this.registerEvent(
+      this.app.vault.on('delete', (file) => {
+        this.reviewService
+          .removeAtom(file.path)
+          .catch((error) => console.error('Failed to remove review card for deleted atom', error));
+      })
+    );
+
     // Add settings tab
     this.addSettingTab(new KastenatorSettingTab(this.app, this));
 
     // Start the scheduler
     this.scheduler.start();
 
-    // Check if we missed today's notification
-    this.checkMissedNotification();
+    // Check if we missed today's notification, once the ledger is readable
+    this.app.workspace.onLayoutReady(() => {
+      this.sessionLedger
+        .load()
+        .catch((error) => console.error('Failed to read the session ledger', error))
+        .then(() => this.checkMissedNotification());
+    });
   }
 
   onunload(): void {
     this.scheduler?.stop();
     this.app.workspace.detachLeavesOfType(ATOMISATION_VIEW_TYPE);
+    this.app.workspace.detachLeavesOfType(DASHBOARD_VIEW_TYPE);
   }
 
   async loadSettings(): Promise<void> {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    // Fill in weights for strategies added since the settings were saved
+    this.settings.selectionWeights = Object.assign(
+      {},
+      DEFAULT_SELECTION_WEIGHTS,
+      this.settings.selectionWeights
+    );
   }
 
   async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+    await this.savePluginData();
     // Update services with new settings
     this.quarryService?.updateSettings(this.settings);
+    this.sessionStore?.updateSettings(this.settings);
+    this.reviewService?.updateSettings(this.settings);
+    this.usageLedger?.updateSettings(this.settings);
+    this.sessionLedger?.updateSettings(this.settings);
     this.scheduler?.updateSettings(this.settings);
   }
 
+  /**
+   * Write the settings to data.json, leaving out what belongs to this device
+   *
+   * data.json syncs between devices; when each last notified lives in its
+   * device state instead.
+   */
+  private async savePluginData(): Promise<void> {
+    const data: Partial<KastenatorSettings> = { ...this.settings };
+    delete data.lastNotificationDate;
+    delete data.lastNotificationAt;
+    await this.saveData(data);
+  }
+
+  /**
+   * Prompt for a scheduled notification, unless another device has taken its session
+   */
+  async handleScheduledNotification(slot: Date | null): Promise<void> {
+    // A snooze (no slot) brings back the note that was put off
+    const deferred = slot ? null : this.deferredNote;
+    this.deferredNote = null;
+
+    const taken = slot ? this.sessionLedger.getSessionTakenElsewhere(slot) : null;
+    if (!taken) {
+      await this.triggerDailyNotification(deferred);
+      return;
+    }
+
+    new Notice(`Daily Kastenator: ${describeLedgerSession(taken)}`, 10000);
+    await this.recordNotification();
+  }
+
+  /**
+   * Remember that this device has notified, so the slot is not repeated
+   */
+  private async recordNotification(now: Date = new Date()): Promise<void> {
+    this.settings.lastNotificationDate = toDateKey(now);
+    this.settings.lastNotificationAt = now.getTime();
+    await this.deviceStore.update({
+      lastNotificationDate: this.settings.lastNotificationDate,
+      lastNotificationAt: this.settings.lastNotificationAt,
+    });
+    await this.saveSettings();
+  }
+
+  /**
+   * A name for this device until the user sets one
+   */
+  private getDefaultDeviceName(): string {
+    if (Platform.isIosApp) return 'iOS';
+    if (Platform.isAndroidApp) return 'Android';
+    if (Platform.isMacOS) return 'Mac';
+    if (Platform.isWin) return 'Windows';
+    if (Platform.isLinux) return 'Linux';
+    return Platform.isMobile ? 'Mobile' : 'Desktop';
+  }
+
   /**
    * Main entry point: trigger the daily notification and atomisation flow
+   *
+   * A deferred note is offered again if it is still in the quarry;
+   * otherwise a note is picked at random.
    */
-  async triggerDailyNotification(): Promise<void> {
-    const quarryNote = await this.quarryService.getRandomQuarryNote();
+  async triggerDailyNotification(deferred: QuarryNote | null = null): Promise<void> {
+    // Offer the unfinished session instead of starting over
+    if (this.sessionStore.hasUnfinishedSession()) {
+      new Notice('Daily Kastenator: You have an unfinished atomisation session.');
+      await this.activateAtomisationView();
+      return;
+    }
+
+    const quarryNote =
+      deferred && (await this.quarryService.isQuarryNote(deferred.file))
+        ? deferred
+        : await this.quarryService.getRandomQuarryNote();
+    const dueReviews = this.reviewService.getDueCount();
 
     if (!quarryNote) {
+      if (dueReviews > 0) {
+        new Notice(`Your quarry is empty, but ${this.formatDueReviews(dueReviews)}.`);
+        await this.startReview();
+        return;
+      }
       new Notice('No quarry notes found. Your quarry is empty!');
       return;
     }
 
-    // Show notification with note title
-    const notice = new Notice(
-      `Time to atomise: "${quarryNote.title}"`,
-      0  // Persistent until dismissed
-    );
+    this.showAtomisationModal(quarryNote, dueReviews);
 
-    // Open the atomisation view
-    await this.activateAtomisationView(quarryNote.file);
+    await this.recordNotification();
+  }
 
-    // Update last notification date
-    this.settings.lastNotificationDate = new Date().toISOString().split('T')[0];
+  /**
+   * Offer a quarry note to atomise now, later, not today, or swap for another
+   */
+  private showAtomisationModal(quarryNote: QuarryNote, dueReviews: number): void {
+    // Notes already offered, so picking another never offers them again
+    const offered = [quarryNote.file.path];
+
+    new AtomisationModal(
+      this.app,
+      quarryNote,
+      {
+        onStart: (note) => {
+          this.activateAtomisationView(note.file).catch((error) =>
+            console.error('Failed to open the atomisation view', error)
+          );
+        },
+        onDefer: (note) => {
+          this.deferredNote = note;
+          const minutes = this.settings.snoozeMinutes;
+          this.scheduler.snooze(minutes);
+          new Notice(`Daily Kastenator: Reminding you again in ${minutes} minutes.`);
+        },
+        onSkip: (note) => {
+          this.recordSkip(note).catch((error) => console.error('Failed to record skip', error));
+        },
+        onPickAnother: async () => {
+          const next = await this.quarryService.getRandomQuarryNote(offered);
+          if (next) {
+            offered.push(next.file.path);
+          }
+          return next;
+        },
+      },
+      dueReviews
+    ).open();
+  }
+
+  /**
+   * Count a skip against a note, making the skips strategy less likely to pick it
+   */
+  private async recordSkip(note: QuarryNote): Promise<void> {
+    const { skipCounts } = this.settings;
+    skipCounts[note.file.path] = (skipCounts[note.file.path] ?? 0) + 1;
     await this.saveSettings();
   }
 
   /**
-   * Open the atomisation view for a specific file
+   * Open the atomisation view, starting a session for a file if given
    */
-  async activateAtomisationView(file: TFile): Promise<void> {
+  async activateAtomisationView(file?: TFile): Promise<void> {
     const { workspace } = this.app;
 
     let leaf: WorkspaceLeaf | null = null;
@@ -143,10 +371,37 @@ export default class DailyKastenatorPlugin extends Plugin {
     if (leaf) {
       workspace.revealLeaf(leaf);
       const view = leaf.view as AtomisationView;
-      await view.startSession(file);
+      if (file) {
+        await view.startSession(file);
+      } else {
+        view.showWelcome();
+      }
+    }
+  }
+
+  /**
+   * Open the atomisation view on the review of due atoms
+   */
+  async startReview(): Promise<void> {
+    if (this.reviewService.getDueCount() === 0) {
+      new Notice('No atoms are due for review.');
+      return;
+    }
+
+    await this.activateAtomisationView();
+    const leaf = this.app.workspace.getLeavesOfType(ATOMISATION_VIEW_TYPE)[0];
+    if (leaf) {
+      (leaf.view as AtomisationView).startReview();
     }
   }
 
+  /**
+   * Describe the number of due reviews, e.g. "3 atom reviews due"
+   */
+  private formatDueReviews(count: number): string {
+    return `${count} atom review${count === 1 ? '' : 's'} due`;
+  }
+
   /**
    * Open a random quarry note in the editor (without atomisation flow)
    */
@@ -162,16 +417,34 @@ export default class DailyKastenatorPlugin extends Plugin {
     new Notice(`Opened: ${quarryNote.title}`);
   }
 
+  /**
+   * Open the progress dashboard, or refresh it if already open
+   */
+  async activateDashboardView(): Promise<void> {
+    const { workspace } = this.app;
+
+    const existing = workspace.getLeavesOfType(DASHBOARD_VIEW_TYPE)[0];
+    if (existing) {
+      workspace.revealLeaf(existing);
+      await (existing.view as DashboardView).refresh();
+      return;
+    }
+
+    const leaf = workspace.getLeaf('tab');
+    await leaf.setViewState({ type: DASHBOARD_VIEW_TYPE, active: true });
+    workspace.revealLeaf(leaf);
+  }
+
   /**
    * Display statistics about the quarry
    */
   async showQuarryStats(): Promise<void> {
-    const notes = await this.quarryService.getAllQuarryNotes();
+    const files = await this.quarryService.getQuarryFiles();
 
     const stats = [
       `Quarry Statistics`,
       `─────────────────`,
-      `Total notes: ${notes.length}`,
+      `Total notes: ${files.length}`,
       `Folders: ${this.settings.quarryFolders.join(', ')}`,
       `Field: ${this.settings.migrationField}:: ${this.settings.quarryValue}`,
     ];
@@ -185,18 +458,9 @@ export default class DailyKastenatorPlugin extends Plugin {
   private checkMissedNotification(): void {
     if (!this.settings.notificationEnabled) return;
 
-    const today = new Date().toISOString().split('T')[0];
-    const lastNotification = this.settings.lastNotificationDate;
-
-    if (lastNotification === today) return;
-
-    const now = new Date();
-    const scheduledHour = this.settings.notificationHour;
-    const scheduledMinute = this.settings.notificationMinute;
-
-    // If we're past the scheduled time, offer to catch up
-    if (now.getHours() > scheduledHour ||
-        (now.getHours() === scheduledHour && now.getMinutes() >= scheduledMinute)) {
+    // If a slot has passed unnotified, offer to catch up unless another device took it
+    const missed = this.scheduler.getMissedSlot();
+    if (missed && !this.sessionLedger.getSessionTakenElsewhere(missed)) {
       new Notice(
         'Daily Kastenator: You have a pending atomisation session. ' +
         'Click the pickaxe icon to start.',
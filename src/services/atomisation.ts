@@ -6,8 +6,58 @@ import {
   AtomisationSession,
   AtomisationPhase,
   ValidationResult,
+  EvidenceRange,
+  ConceptSuggestion,
+  CritiqueCriterion,
+  CriterionAssessment,
+  CritiqueScorecard,
+  CritiqueMessage,
+  CritiqueRound,
+  SessionLedgerEvent,
 } from '../types';
-import { LLMService } from './llm/index';
+import {
+  LLMService,
+  LLMPrompt,
+  LLMResult,
+  UsageContext,
+  CANCELLED_ERROR,
+  parseConceptSuggestions,
+  parseScorecard,
+} from './llm/index';
+import { stripTemplateFrontmatter } from './llm/prompts';
+import { SessionStore, getPhaseTimes } from './session-store';
+import { SessionLedger, LedgerDetails } from './session-ledger';
+import { DuplicateDetector, DuplicateMatch } from './duplicates';
+import { ReviewService } from './review';
+import { UsageLedger, UsageTotals } from './usage';
+import { findPassage, findPassageEnd, ensureBlockId } from './source-links';
+import { CRITIQUE_CRITERIA, formatScorecard, getFailingCriteria } from './critique';
+import { toDateKey } from './dates';
+
+/** LLM critique attempts before falling back to the rules */
+const CRITIQUE_ATTEMPTS = 2;
+
+/**
+ * Options for watching an LLM critique as it is generated
+ */
+export interface CritiqueStreamOptions {
+  /** Called with the response text so far; restarts from empty on a retry */
+  onProgress?: (text: string) => void;
+  /** Called while a provider that cannot stream is still working */
+  onWaiting?: (elapsedMs: number) => void;
+  /** Cancels the LLM request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Atom files written when a session is completed
+ */
+export interface CreatedAtoms {
+  /** New atoms, one per candidate */
+  created: TFile[];
+  /** Existing atoms that candidates were merged into, each listed once */
+  merged: TFile[];
+}
 
 /**
  * Manages the atomisation workflow and atom creation
@@ -17,11 +67,28 @@ export class AtomisationService {
   private settings: KastenatorSettings;
   private currentSession: AtomisationSession | null = null;
   private llmService: LLMService;
-
-  constructor(app: App, settings: KastenatorSettings) {
+  private store: SessionStore | null;
+  private reviews: ReviewService | null;
+  private usage: UsageLedger | null;
+  private duplicates: DuplicateDetector;
+  private ledger: SessionLedger | null;
+
+  constructor(
+    app: App,
+    settings: KastenatorSettings,
+    store?: SessionStore,
+    reviews?: ReviewService,
+    usage?: UsageLedger,
+    ledger?: SessionLedger
+  ) {
     this.app = app;
     this.settings = settings;
-    this.llmService = new LLMService(app, settings);
+    this.usage = usage ?? null;
+    this.llmService = new LLMService(app, settings, usage);
+    this.duplicates = new DuplicateDetector(app, settings);
+    this.store = store ?? null;
+    this.reviews = reviews ?? null;
+    this.ledger = ledger ?? null;
   }
 
   /**
@@ -30,22 +97,92 @@ export class AtomisationService {
   updateSettings(settings: KastenatorSettings): void {
     this.settings = settings;
     this.llmService.updateSettings(settings);
+    this.duplicates.updateSettings(settings);
   }
 
   /**
    * Start a new atomisation session
+   *
+   * The size of the quarry, if given, is recorded in the session ledger
+   * to chart the quarry over time.
    */
-  startSession(sourceNote: QuarryNote): AtomisationSession {
+  startSession(sourceNote: QuarryNote, quarrySize?: number): AtomisationSession {
+    const now = new Date();
     this.currentSession = {
+      id: this.generateId('session'),
       sourceNote,
       candidates: [],
       phase: 'introduction',
-      startedAt: new Date(),
+      startedAt: now,
+      phaseTimes: {},
+      phaseStartedAt: now,
       completed: false,
     };
+    this.persist();
+    this.recordLedger('started', quarrySize === undefined ? {} : { quarrySize });
     return this.currentSession;
   }
 
+  /**
+   * Resume the saved session, if its source note still exists
+   */
+  async resumeSession(): Promise<AtomisationSession | null> {
+    const saved = this.store?.load();
+    if (!saved) return null;
+
+    const file = this.app.vault.getAbstractFileByPath(saved.sourcePath);
+    if (!(file instanceof TFile)) {
+      await this.store?.clear();
+      return null;
+    }
+
+    const content = await this.app.vault.cachedRead(file);
+    const cache = this.app.metadataCache.getFileCache(file);
+
+    this.currentSession = {
+      id: saved.id,
+      sourceNote: {
+        file,
+        title: file.basename,
+        content,
+        frontmatter: cache?.frontmatter ?? {},
+        migrationStatus: this.settings.quarryValue,
+      },
+      candidates: saved.candidates,
+      // Creation is not resumable midway; return to the final review
+      phase: saved.phase === 'creation' ? 'confirmation' : saved.phase,
+      startedAt: new Date(saved.startedAt),
+      // Time away from the session is not counted
+      phaseTimes: saved.phaseTimes ?? {},
+      phaseStartedAt: new Date(),
+      completed: false,
+    };
+    return this.currentSession;
+  }
+
+  /**
+   * Save the current session in the background
+   */
+  private persist(): void {
+    if (!this.store || !this.currentSession) return;
+
+    this.store.save(this.currentSession).catch((error) => {
+      console.error('Failed to save atomisation session', error);
+    });
+  }
+
+  /**
+   * Record an event for the current session in the session ledger in the background
+   */
+  private recordLedger(event: SessionLedgerEvent, details: LedgerDetails = {}): void {
+    if (!this.ledger || !this.currentSession) return;
+
+    const { id, sourceNote } = this.currentSession;
+    this.ledger.record(event, id, sourceNote.file.path, details).catch((error) => {
+      console.error('Failed to record the session in the ledger', error);
+    });
+  }
+
   /**
    * Get the current session
    */
@@ -74,7 +211,7 @@ export class AtomisationService {
 
     const currentIndex = phaseOrder.indexOf(this.currentSession.phase);
     const nextPhase = phaseOrder[currentIndex + 1] ?? 'complete';
-    this.currentSession.phase = nextPhase;
+    this.enterPhase(nextPhase);
 
     return nextPhase;
   }
@@ -86,7 +223,19 @@ export class AtomisationService {
     if (!this.currentSession) {
       throw new Error('No active session');
     }
+    this.enterPhase(phase);
+  }
+
+  /**
+   * Move the current session to a phase, adding up the time spent in the last one
+   */
+  private enterPhase(phase: AtomisationPhase, now: Date = new Date()): void {
+    if (!this.currentSession) return;
+
+    this.currentSession.phaseTimes = getPhaseTimes(this.currentSession, now);
+    this.currentSession.phaseStartedAt = now;
     this.currentSession.phase = phase;
+    this.persist();
   }
 
   /**
@@ -98,7 +247,7 @@ export class AtomisationService {
     }
 
     const candidate: AtomCandidate = {
-      id: this.generateId(),
+      id: this.generateId('atom'),
       concept,
       explanation: '',
       evidence: '',
@@ -110,6 +259,7 @@ export class AtomisationService {
     };
 
     this.currentSession.candidates.push(candidate);
+    this.persist();
     return candidate;
   }
 
@@ -123,9 +273,36 @@ export class AtomisationService {
     if (!candidate) return null;
 
     Object.assign(candidate, updates);
+    this.persist();
     return candidate;
   }
 
+  /**
+   * Find a passage (e.g. text selected in the rendered source) in the source note
+   */
+  locateEvidence(passage: string): { start: number; end: number } | null {
+    if (!this.currentSession) return null;
+    return findPassage(this.currentSession.sourceNote.content, passage);
+  }
+
+  /**
+   * Attach an exact source passage to a candidate as its evidence
+   *
+   * The passage is anchored with a block ID when atoms are created, so
+   * the atom can embed it rather than quote a copy.
+   */
+  attachEvidence(id: string, start: number, end: number): AtomCandidate | null {
+    if (!this.currentSession) return null;
+
+    const text = this.currentSession.sourceNote.content.slice(start, end);
+    if (start < 0 || end <= start || !text.trim()) return null;
+
+    return this.updateCandidate(id, {
+      evidence: text.trim(),
+      evidenceRange: { start, end, text },
+    });
+  }
+
   /**
    * Remove a candidate
    */
@@ -136,6 +313,7 @@ export class AtomisationService {
     if (index === -1) return false;
 
     this.currentSession.candidates.splice(index, 1);
+    this.persist();
     return true;
   }
 
@@ -151,6 +329,7 @@ export class AtomisationService {
       return {
         valid: false,
         feedback: 'Too brief. An atomic concept requires a substantive explanation.',
+        criterion: 'substance',
         suggestions: [
           'What is the core claim or idea?',
           'Why does this matter?',
@@ -177,6 +356,7 @@ export class AtomisationService {
       return {
         valid: false,
         feedback: 'The explanation contains hedging language. Be precise.',
+        criterion: 'clarity',
         suggestions: [
           'Remove qualifiers and state the concept directly',
           'If uncertain, identify what specifically is unclear',
@@ -195,6 +375,7 @@ export class AtomisationService {
       return {
         valid: false,
         feedback: 'The explanation largely repeats the concept rather than explaining it.',
+        criterion: 'substance',
         suggestions: [
           'Explain what the concept means, not just what it is',
           'Add context or implications',
@@ -213,6 +394,7 @@ export class AtomisationService {
       return {
         valid: false,
         feedback: 'This may contain multiple concepts. Each atom should express one idea.',
+        criterion: 'atomicity',
         suggestions: [
           'Consider splitting into separate atoms',
           'Identify the primary concept and extract secondary ideas',
@@ -275,39 +457,396 @@ export class AtomisationService {
   }
 
   /**
-   * Generate critique using LLM (if enabled) with fallback to rule-based
+   * Score a candidate against the critique criteria using the rules
+   *
+   * Uses the same checks as the text critique so the two agree. Accuracy
+   * cannot be judged without reading the source and is left unchecked.
+   */
+  generateRuleBasedScorecard(candidate: AtomCandidate): CritiqueScorecard {
+    const pass = (reason: string): CriterionAssessment => ({ score: 5, verdict: 'pass', reason });
+    const criteria: Record<CritiqueCriterion, CriterionAssessment> = {
+      atomicity: pass('No sign of bundled concepts.'),
+      clarity: pass('No hedging language found.'),
+      substance: pass('Explains more than it restates.'),
+      evidence: pass('Evidence provided.'),
+      accuracy: {
+        score: null,
+        verdict: 'unchecked',
+        reason: 'Rules cannot check the explanation against the source.',
+      },
+    };
+
+    const validation = this.validateExplanation(candidate);
+    if (!validation.valid && validation.criterion) {
+      criteria[validation.criterion] = { score: 1, verdict: 'fail', reason: validation.feedback };
+    }
+
+    const { suggestedTitle, evidence } = candidate;
+    if (criteria.clarity.verdict === 'pass' && suggestedTitle.length < 10) {
+      criteria.clarity = { score: 3, verdict: 'weak', reason: 'Title is too short to be descriptive.' };
+    } else if (criteria.clarity.verdict === 'pass' && suggestedTitle.length > 80) {
+      criteria.clarity = { score: 3, verdict: 'weak', reason: 'Title is too long.' };
+    }
+
+    if (!evidence) {
+      criteria.evidence = {
+        score: 1,
+        verdict: 'fail',
+        reason: 'No supporting evidence provided. Atoms should trace to sources.',
+      };
+    } else if (evidence.length < 30) {
+      criteria.evidence = {
+        score: 3,
+        verdict: 'weak',
+        reason: 'Evidence is sparse. Include enough context to verify the claim.',
+      };
+    }
+
+    return { criteria, summary: '', source: 'rules' };
+  }
+
+  /**
+   * Generate a critique scorecard using the LLM (if enabled), falling back to the rules
+   *
+   * Malformed LLM output is retried once with a reminder of the format.
+   * Pass `onProgress` to stream the response; cancelling through the
+   * signal falls back to the rules. The scorecard and its text form are
+   * stored on the candidate, and any discussion of the previous critique
+   * is cleared.
+   */
+  async generateCritiqueAsync(
+    candidate: AtomCandidate,
+    options: CritiqueStreamOptions = {}
+  ): Promise<CritiqueScorecard> {
+    const scorecard = await this.requestScorecard(candidate, options);
+    this.updateCandidate(candidate.id, {
+      critique: formatScorecard(scorecard),
+      scorecard,
+      critiqueThread: [],
+      critiqueRounds: this.addCritiqueRound(candidate, scorecard),
+    });
+    return scorecard;
+  }
+
+  /**
+   * Add a critique to the candidate's rounds
+   *
+   * A critique of unchanged text replaces the last round rather than
+   * counting as another iteration.
    */
-  async generateCritiqueAsync(candidate: AtomCandidate): Promise<string> {
-    // Check if LLM critique is enabled in settings
-    if (!this.settings.useLLMCritique) {
-      return this.generateRuleBasedCritique(candidate);
+  private addCritiqueRound(candidate: AtomCandidate, scorecard: CritiqueScorecard): CritiqueRound[] {
+    const rounds = [...(candidate.critiqueRounds ?? [])];
+    const round: CritiqueRound = {
+      explanation: candidate.explanation,
+      evidence: candidate.evidence,
+      scorecard,
+      timestamp: new Date().toISOString(),
+    };
+
+    const last = rounds[rounds.length - 1];
+    if (last && last.explanation === round.explanation && last.evidence === round.evidence) {
+      rounds[rounds.length - 1] = round;
+    } else {
+      rounds.push(round);
+    }
+    return rounds;
+  }
+
+  /**
+   * The latest scorecard, if the explanation and evidence are unchanged since it
+   *
+   * Lets a critique be shown again without paying for another one.
+   */
+  getCurrentScorecard(candidate: AtomCandidate): CritiqueScorecard | null {
+    const rounds = candidate.critiqueRounds ?? [];
+    const last = rounds[rounds.length - 1];
+    if (
+      !last ||
+      last.explanation !== candidate.explanation ||
+      last.evidence !== candidate.evidence
+    ) {
+      return null;
     }
+    return candidate.scorecard ?? last.scorecard;
+  }
 
-    const llmAvailable = await this.llmService.isAvailable();
+  /**
+   * Explanation as it was last critiqued, or null before any critique
+   */
+  getLastCritiquedExplanation(candidate: AtomCandidate): string | null {
+    const rounds = candidate.critiqueRounds ?? [];
+    return rounds.length > 0 ? rounds[rounds.length - 1].explanation : null;
+  }
 
-    if (!llmAvailable) {
-      return this.generateRuleBasedCritique(candidate);
+  /**
+   * Reasons a candidate is not ready to become an atom
+   *
+   * Combines the rule validation of the current explanation with the
+   * criteria the latest critique failed.
+   */
+  getOutstandingIssues(candidate: AtomCandidate): string[] {
+    const issues: string[] = [];
+
+    const validation = this.validateExplanation(candidate);
+    if (!validation.valid) {
+      issues.push(validation.feedback);
+    }
+
+    if (candidate.scorecard) {
+      for (const id of getFailingCriteria(candidate.scorecard)) {
+        const { reason } = candidate.scorecard.criteria[id];
+        // Rule critiques repeat the validation feedback
+        if (reason === validation.feedback) continue;
+        const name = CRITIQUE_CRITERIA.find((c) => c.id === id)?.name ?? id;
+        issues.push(`${name}: ${reason}`);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Get a scorecard from the LLM, or from the rules when that is not possible
+   */
+  private async requestScorecard(
+    candidate: AtomCandidate,
+    options: CritiqueStreamOptions
+  ): Promise<CritiqueScorecard> {
+    if (!this.settings.useLLMCritique || !(await this.llmService.isAvailable())) {
+      return this.generateRuleBasedScorecard(candidate);
     }
 
-    // Get source content from current session
-    const sourceContent = this.currentSession?.sourceNote.content ?? '';
+    let prompt = await this.buildCritiquePrompt(candidate);
 
-    const prompt = this.llmService.buildCritiquePrompt(
+    let error: string | undefined;
+    for (let attempt = 1; attempt <= CRITIQUE_ATTEMPTS; attempt++) {
+      const result = await this.completeCritique(prompt, options);
+      if (result.error === CANCELLED_ERROR) break;
+      if (!result.success) {
+        console.warn(`LLM critique failed: ${result.error}. Falling back to rules.`);
+        error = result.error;
+        break;
+      }
+
+      const scorecard = parseScorecard(result.content, result.provider);
+      if (scorecard) return scorecard;
+
+      console.warn(`LLM critique was malformed (attempt ${attempt} of ${CRITIQUE_ATTEMPTS}).`);
+      prompt = this.llmService.buildCritiqueRetryPrompt(prompt, result.content);
+      error = 'The LLM did not return a usable scorecard';
+    }
+
+    const scorecard = this.generateRuleBasedScorecard(candidate);
+    return error ? { ...scorecard, error } : scorecard;
+  }
+
+  /**
+   * Build the critique prompt for a candidate from the chosen template
+   */
+  private async buildCritiquePrompt(candidate: AtomCandidate): Promise<string> {
+    return this.llmService.buildCritiquePrompt(
       candidate.concept,
       candidate.explanation,
       candidate.evidence,
-      sourceContent
+      this.currentSession?.sourceNote.content ?? '',
+      {
+        template: await this.loadPromptTemplate(this.settings.critiquePromptPath),
+        relatedAtoms: candidate.relatedAtoms,
+      }
+    );
+  }
+
+  /**
+   * Whether the critique can be discussed with the LLM
+   */
+  async canDiscussCritique(): Promise<boolean> {
+    return this.settings.useLLMCritique && (await this.llmService.isAvailable());
+  }
+
+  /**
+   * Reply to a candidate's critique and get the LLM's answer
+   *
+   * The reply and answer are added to the candidate's thread only once
+   * the answer arrives, so a failed or cancelled reply can be sent again.
+   */
+  async replyToCritique(
+    candidateId: string,
+    message: string,
+    options: CritiqueStreamOptions = {}
+  ): Promise<{ reply?: CritiqueMessage; error?: string }> {
+    const candidate = this.currentSession?.candidates.find((c) => c.id === candidateId);
+    if (!candidate) {
+      throw new Error('No such candidate');
+    }
+
+    const content = message.trim();
+    if (!content) {
+      return { error: 'Write a reply first' };
+    }
+    if (!(await this.canDiscussCritique())) {
+      return { error: 'No LLM provider available' };
+    }
+
+    const question: CritiqueMessage = {
+      role: 'user',
+      content,
+      timestamp: new Date().toISOString(),
+    };
+    const thread = [...(candidate.critiqueThread ?? []), question];
+    const messages = this.llmService.buildCritiqueChat(
+      await this.buildCritiquePrompt(candidate),
+      candidate.critique,
+      thread
     );
 
-    const result = await this.llmService.complete(prompt);
+    const critique = candidate.critique;
+    const result = await this.completeCritique(messages, options);
+    if (!result.success) {
+      return { error: result.error };
+    }
+    // A new critique replaces the discussion of the one this replied to
+    if (candidate.critique !== critique) {
+      return { error: 'The critique changed while waiting for the answer' };
+    }
 
-    if (result.success) {
-      return result.content;
+    const reply: CritiqueMessage = {
+      role: 'assistant',
+      content: result.content.trim(),
+      timestamp: new Date().toISOString(),
+      provider: result.provider,
+    };
+    this.updateCandidate(candidate.id, { critiqueThread: [...thread, reply] });
+    return { reply };
+  }
+
+  /**
+   * Read a prompt template note, or undefined to use the built-in prompt
+   */
+  private async loadPromptTemplate(path: string | undefined): Promise<string | undefined> {
+    if (!path) return undefined;
+
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+    if (!(file instanceof TFile)) {
+      console.warn(`Prompt template not found: ${path}. Using the built-in prompt.`);
+      return undefined;
     }
 
-    // Fallback to rule-based on LLM failure
-    console.warn(`LLM critique failed: ${result.error}. Falling back to rules.`);
-    return this.generateRuleBasedCritique(candidate);
+    const template = stripTemplateFrontmatter(await this.app.vault.read(file));
+    return template || undefined;
+  }
+
+  /**
+   * Run a critique prompt, streaming it when progress is wanted
+   */
+  private async completeCritique(
+    prompt: LLMPrompt,
+    options: CritiqueStreamOptions
+  ): Promise<LLMResult> {
+    const { onProgress, onWaiting, signal } = options;
+    if (!onProgress) {
+      return this.llmService.complete(prompt, this.getUsageContext());
+    }
+
+    let text = '';
+    onProgress(text);
+    return this.llmService.stream(prompt, {
+      onToken: (token) => {
+        text += token;
+        onProgress(text);
+      },
+      onWaiting,
+      signal,
+      context: this.getUsageContext(),
+    });
+  }
+
+  /**
+   * Ask the LLM for candidate concepts in the source note
+   *
+   * Suggestions are returned for the user to review; nothing is added
+   * to the session until one is accepted.
+   */
+  async suggestConcepts(): Promise<{
+    suggestions: ConceptSuggestion[];
+    error?: string;
+    provider?: string;
+  }> {
+    if (!this.currentSession) {
+      throw new Error('No active session');
+    }
+
+    if (!(await this.llmService.isAvailable())) {
+      return { suggestions: [], error: 'No LLM provider available' };
+    }
+
+    const prompt = this.llmService.buildConceptPrompt(this.currentSession.sourceNote.content, {
+      template: await this.loadPromptTemplate(this.settings.conceptPromptPath),
+    });
+    const result = await this.llmService.complete(prompt, this.getUsageContext());
+    if (!result.success) {
+      return { suggestions: [], error: result.error };
+    }
+
+    // The session may have ended while the LLM was answering
+    const existing = new Set(
+      (this.currentSession?.candidates ?? []).map((c) => c.concept.trim().toLowerCase())
+    );
+    const suggestions = parseConceptSuggestions(result.content).filter(
+      (s) => !existing.has(s.concept.toLowerCase())
+    );
+    if (suggestions.length === 0) {
+      return {
+        suggestions,
+        error: 'The LLM did not return any usable concepts',
+        provider: result.provider,
+      };
+    }
+
+    return { suggestions, provider: result.provider };
+  }
+
+  /**
+   * Turn a suggestion, as edited by the user, into a candidate
+   *
+   * The excerpt becomes the evidence, linked to its source passage when
+   * it can be found there.
+   */
+  acceptSuggestion(suggestion: ConceptSuggestion): AtomCandidate {
+    const candidate = this.addCandidate(suggestion.concept);
+    const updates: Partial<AtomCandidate> = {
+      suggestedTitle: suggestion.title.trim() || candidate.suggestedTitle,
+    };
+
+    if (suggestion.excerpt) {
+      const range = this.locateEvidence(suggestion.excerpt);
+      const text = range && this.currentSession!.sourceNote.content.slice(range.start, range.end);
+      updates.evidence = suggestion.excerpt;
+      if (range && text) {
+        updates.evidence = text.trim();
+        updates.evidenceRange = { ...range, text };
+      }
+    }
+
+    return this.updateCandidate(candidate.id, updates) ?? candidate;
+  }
+
+  /**
+   * Identify the current session and source note for the usage ledger
+   */
+  private getUsageContext(): UsageContext {
+    if (!this.currentSession) return {};
+    return {
+      sessionId: this.currentSession.id,
+      sourcePath: this.currentSession.sourceNote.file.path,
+    };
+  }
+
+  /**
+   * LLM usage recorded for the current session, if usage is tracked
+   */
+  getSessionUsage(): UsageTotals | null {
+    if (!this.usage || !this.currentSession) return null;
+    return this.usage.getTotals({ sessionId: this.currentSession.id });
   }
 
   /**
@@ -332,26 +871,149 @@ export class AtomisationService {
     return this.llmService.getProviderName();
   }
 
+  /**
+   * Describe the LLM provider recorded on a result or scorecard
+   */
+  describeLLMProvider(type: string): string {
+    return this.llmService.describeProvider(type);
+  }
+
   /**
    * Create atom files for approved candidates
    */
-  async createAtoms(): Promise<TFile[]> {
+  async createAtoms(): Promise<CreatedAtoms> {
     if (!this.currentSession) {
       throw new Error('No active session');
     }
 
     const approvedCandidates = this.currentSession.candidates.filter((c) => c.approved);
-    const createdFiles: TFile[] = [];
+    const created: TFile[] = [];
+    const merged: TFile[] = [];
+
+    await this.anchorEvidence(approvedCandidates);
 
     for (const candidate of approvedCandidates) {
+      const resolution = candidate.duplicateResolution;
+      if (resolution?.action === 'merge') {
+        const file = await this.mergeIntoAtom(candidate, resolution.path);
+        if (file) {
+          candidate.atomPath = file.path;
+          if (!merged.some((atom) => atom.path === file.path)) {
+            merged.push(file);
+          }
+          continue;
+        }
+      }
+
+      if (resolution?.action === 'link') {
+        const title = resolution.path.split('/').pop()!.replace(/\.md$/, '');
+        if (!candidate.relatedAtoms.includes(title)) {
+          this.updateCandidate(candidate.id, {
+            relatedAtoms: [...candidate.relatedAtoms, title],
+          });
+        }
+      }
+
       const file = await this.createAtomFile(candidate);
       if (file) {
-        createdFiles.push(file);
+        candidate.atomPath = file.path;
+        created.push(file);
+        await this.reviews?.addAtom(file, candidate);
       }
     }
 
     this.currentSession.completed = true;
-    return createdFiles;
+    this.persist();
+    this.recordLedger('completed', {
+      atoms: created.map((file) => file.path),
+      phaseTimes: getPhaseTimes(this.currentSession),
+    });
+    return { created, merged };
+  }
+
+  /**
+   * Existing atoms that the session's candidates may duplicate, by candidate ID
+   */
+  async findDuplicates(): Promise<Map<string, DuplicateMatch[]>> {
+    if (!this.currentSession) {
+      throw new Error('No active session');
+    }
+    return this.duplicates.findDuplicates(this.currentSession.candidates);
+  }
+
+  /**
+   * Append a candidate to an existing atom instead of creating a new one
+   *
+   * Returns null if the atom is gone, so the candidate is created instead.
+   */
+  private async mergeIntoAtom(candidate: AtomCandidate, path: string): Promise<TFile | null> {
+    const file = this.app.vault.getAbstractFileByPath(normalizePath(path));
+    if (!(file instanceof TFile)) {
+      console.warn(`Atom to merge into not found: ${path}. Creating a new atom instead.`);
+      return null;
+    }
+
+    const sourceNote = this.currentSession?.sourceNote;
+    const lines = ['', `## ${candidate.suggestedTitle}`, '', candidate.explanation, ''];
+    if (candidate.evidence) {
+      lines.push(this.formatEvidence(candidate), '');
+    }
+    if (sourceNote) {
+      lines.push(`Merged from [[${sourceNote.title}]]`, '');
+    }
+
+    const content = await this.app.vault.read(file);
+    await this.app.vault.modify(file, `${content.trimEnd()}\n${lines.join('\n')}`);
+    return file;
+  }
+
+  /**
+   * Evidence as an embed of the source passage, or a quote
+   */
+  private formatEvidence(candidate: AtomCandidate): string {
+    const sourceNote = this.currentSession?.sourceNote;
+    const blockId = candidate.evidenceRange?.blockId;
+    return blockId && sourceNote
+      ? `![[${sourceNote.title}#^${blockId}]]`
+      : `> ${candidate.evidence}`;
+  }
+
+  /**
+   * Add block IDs to the source for evidence selected from it
+   *
+   * Ranges are checked against the current source text; if the note has
+   * changed since selection, the passage is found again by its text.
+   * Candidates whose passage is gone keep their evidence as a quote.
+   */
+  private async anchorEvidence(candidates: AtomCandidate[]): Promise<void> {
+    const sourceNote = this.currentSession?.sourceNote;
+    const pending = candidates.filter((c) => c.evidenceRange && !c.evidenceRange.blockId);
+    if (!sourceNote || pending.length === 0) return;
+
+    const original = await this.app.vault.read(sourceNote.file);
+    let content = original;
+
+    // Work from the end so added IDs do not shift ranges still to come
+    pending.sort((a, b) => b.evidenceRange!.end - a.evidenceRange!.end);
+
+    for (const candidate of pending) {
+      const range = candidate.evidenceRange as EvidenceRange;
+      const end =
+        content.slice(range.start, range.end) === range.text
+          ? range.end
+          : findPassageEnd(content, range.text);
+      if (end === null) continue;
+
+      const result = ensureBlockId(content, end);
+      content = result.content;
+      range.blockId = result.blockId;
+    }
+
+    if (content !== original) {
+      await this.app.vault.modify(sourceNote.file, content);
+      sourceNote.content = content;
+    }
+    this.persist();
   }
 
   /**
@@ -432,7 +1094,7 @@ export class AtomisationService {
     if (candidate.evidence) {
       lines.push('## Evidence');
       lines.push('');
-      lines.push(`> ${candidate.evidence}`);
+      lines.push(this.formatEvidence(candidate));
       lines.push('');
     }
 
@@ -464,7 +1126,7 @@ export class AtomisationService {
       .replace(/\{\{explanation\}\}/g, candidate.explanation)
       .replace(/\{\{evidence\}\}/g, candidate.evidence)
       .replace(/\{\{tags\}\}/g, candidate.tags.join(', '))
-      .replace(/\{\{date\}\}/g, new Date().toISOString().split('T')[0])
+      .replace(/\{\{date\}\}/g, toDateKey(new Date()))
       .replace(/\{\{content\}\}/g, defaultContent);
   }
 
@@ -487,14 +1149,27 @@ export class AtomisationService {
   /**
    * Generate a unique ID
    */
-  private generateId(): string {
-    return `atom-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+  private generateId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
   }
 
   /**
-   * End the current session
+   * End the current session and discard any saved copy
    */
   endSession(): void {
+    if (this.currentSession && !this.currentSession.completed) {
+      this.recordLedger('abandoned', { phaseTimes: getPhaseTimes(this.currentSession) });
+    }
+    this.currentSession = null;
+    this.store?.clear().catch((error) => {
+      console.error('Failed to clear saved atomisation session', error);
+    });
+  }
+
+  /**
+   * Release the in-memory session without discarding the saved copy
+   */
+  suspendSession(): void {
     this.currentSession = null;
   }
 }
@@ -0,0 +1,108 @@
+import {
+  CritiqueCriterion,
+  CritiqueVerdict,
+  CriterionAssessment,
+  CritiqueScorecard,
+  CritiqueRound,
+} from '../types';
+
+/**
+ * Critique criteria in display order
+ */
+export const CRITIQUE_CRITERIA: { id: CritiqueCriterion; name: string; question: string }[] = [
+  {
+    id: 'atomicity',
+    name: 'Atomicity',
+    question: 'Does this express exactly one idea? Fail it if multiple concepts are bundled.',
+  },
+  {
+    id: 'clarity',
+    name: 'Clarity',
+    question: 'Is the explanation clear and self-contained without the source?',
+  },
+  {
+    id: 'substance',
+    name: 'Substance',
+    question: 'Does it go beyond restating the concept?',
+  },
+  {
+    id: 'evidence',
+    name: 'Evidence',
+    question: 'Is the supporting evidence sufficient and relevant?',
+  },
+  {
+    id: 'accuracy',
+    name: 'Accuracy',
+    question: 'Does the explanation faithfully represent the source material?',
+  },
+];
+
+const LLM_VERDICTS: CritiqueVerdict[] = ['pass', 'weak', 'fail'];
+
+/**
+ * Check a parsed LLM response against the scorecard schema
+ *
+ * Every criterion needs an integer score from 1 to 5, a verdict of
+ * pass, weak or fail, and a non-empty reason. Returns null otherwise.
+ */
+export function validateScorecard(value: unknown, source: string): CritiqueScorecard | null {
+  if (!value || typeof value !== 'object') return null;
+  const { criteria, summary } = value as Record<string, unknown>;
+  if (!criteria || typeof criteria !== 'object') return null;
+
+  const checked = {} as Record<CritiqueCriterion, CriterionAssessment>;
+
+  for (const { id } of CRITIQUE_CRITERIA) {
+    const entry = (criteria as Record<string, unknown>)[id];
+    if (!entry || typeof entry !== 'object') return null;
+
+    const { score, verdict, reason } = entry as Record<string, unknown>;
+    if (typeof score !== 'number' || !Number.isInteger(score) || score < 1 || score > 5) {
+      return null;
+    }
+    if (typeof verdict !== 'string' || !LLM_VERDICTS.includes(verdict as CritiqueVerdict)) {
+      return null;
+    }
+    if (typeof reason !== 'string' || !reason.trim()) return null;
+
+    checked[id] = { score, verdict: verdict as CritiqueVerdict, reason: reason.trim() };
+  }
+
+  return {
+    criteria: checked,
+    summary: typeof summary === 'string' ? summary.trim() : '',
+    source,
+  };
+}
+
+/**
+ * Get the criteria a scorecard fails
+ */
+export function getFailingCriteria(scorecard: CritiqueScorecard): CritiqueCriterion[] {
+  return CRITIQUE_CRITERIA.map((c) => c.id).filter(
+    (id) => scorecard.criteria[id].verdict === 'fail'
+  );
+}
+
+/**
+ * Number of critique rounds it took to pass, or null if none has passed
+ */
+export function countRoundsToPass(rounds: CritiqueRound[]): number | null {
+  const index = rounds.findIndex((round) => getFailingCriteria(round.scorecard).length === 0);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Render a scorecard as plain text for `AtomCandidate.critique`
+ *
+ * Lists the summary followed by every criterion that did not pass.
+ */
+export function formatScorecard(scorecard: CritiqueScorecard): string {
+  const issues = CRITIQUE_CRITERIA.filter(({ id }) => {
+    const verdict = scorecard.criteria[id].verdict;
+    return verdict === 'fail' || verdict === 'weak';
+  }).map(({ id, name }) => `${name}: ${scorecard.criteria[id].reason}`);
+
+  const parts = scorecard.summary ? [scorecard.summary, ...issues] : issues;
+  return parts.length > 0 ? parts.join('\n\n') : 'No significant issues identified.';
+}
@@ -0,0 +1,48 @@
+import { TimeOfDay } from '../types';
+
+/**
+ * Format a date as a local YYYY-MM-DD key
+ *
+ * Uses the local calendar, unlike toISOString, whose date is the UTC one
+ * and so changes at the wrong time anywhere outside UTC.
+ */
+export function toDateKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Add days to a date, keeping the local time of day across daylight saving changes
+ */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/**
+ * Local midnight at the start of a date's day
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * A time of day on a date's local day
+ *
+ * A time skipped when clocks go forward comes out an hour later.
+ */
+export function atTimeOfDay(date: Date, time: TimeOfDay): Date {
+  const result = new Date(date);
+  result.setHours(time.hour, time.minute, 0, 0);
+  return result;
+}
+
+/**
+ * Local midnight at the start of a date's week, which starts on Monday
+ */
+export function startOfWeek(date: Date): Date {
+  const day = startOfDay(date);
+  return addDays(day, -((day.getDay() + 6) % 7));
+}
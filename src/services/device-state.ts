@@ -0,0 +1,84 @@
+import { App, normalizePath } from 'obsidian';
+import { DeviceState } from '../types';
+
+/** Local storage key holding this device's ID */
+const DEVICE_ID_KEY = 'daily-kastenator-device-id';
+
+/**
+ * Keeps this device's state in a file of its own
+ *
+ * Plugin data syncs between devices, so state that must differ per
+ * device, such as when it last notified, is kept here instead. The
+ * device ID lives in local storage, which never syncs, and each device
+ * only ever writes its own file.
+ */
+export class DeviceStore {
+  readonly id: string;
+  private app: App;
+  private path: string;
+  private state: DeviceState;
+
+  constructor(
+    app: App,
+    folder: string,
+    defaultName: string,
+    storage: Storage = window.localStorage
+  ) {
+    this.app = app;
+
+    let id = storage.getItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = `device-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+      storage.setItem(DEVICE_ID_KEY, id);
+    }
+    this.id = id;
+
+    this.path = normalizePath(`${folder}/devices/${id}.json`);
+    this.state = { name: defaultName, lastNotificationDate: '' };
+  }
+
+  /**
+   * Get this device's state
+   */
+  get(): DeviceState {
+    return this.state;
+  }
+
+  /**
+   * Read this device's state file, keeping defaults if there is none
+   *
+   * When there is no file yet, e.g. on the first run after upgrading,
+   * the state is seeded from `initial` (values kept in plugin data by
+   * earlier versions) and saved.
+   */
+  async load(initial?: Partial<DeviceState>): Promise<DeviceState> {
+    const { adapter } = this.app.vault;
+    if (!(await adapter.exists(this.path))) {
+      if (initial) {
+        await this.update(initial);
+      }
+      return this.state;
+    }
+
+    try {
+      this.state = { ...this.state, ...JSON.parse(await adapter.read(this.path)) };
+    } catch (error) {
+      console.warn('Could not read the device state; using defaults.', error);
+    }
+    return this.state;
+  }
+
+  /**
+   * Change and save this device's state
+   */
+  async update(changes: Partial<DeviceState>): Promise<void> {
+    this.state = { ...this.state, ...changes };
+
+    const { adapter } = this.app.vault;
+    const folder = this.path.slice(0, this.path.lastIndexOf('/'));
+    if (!(await adapter.exists(folder))) {
+      await adapter.mkdir(folder);
+    }
+    await adapter.write(this.path, JSON.stringify(this.state, null, 2));
+  }
+}
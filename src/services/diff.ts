@@ -0,0 +1,71 @@
+/**
+ * A run of text that is unchanged, added or removed between two versions
+ */
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Split text into words and the whitespace between them
+ */
+function tokenise(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) ?? [];
+}
+
+/**
+ * Word-level diff between two texts
+ *
+ * Uses the longest common subsequence of words and whitespace, so a
+ * reworded phrase shows as the words removed followed by those added.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenise(before);
+  const b = tokenise(after);
+
+  // lengths[i][j] is the LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string): void => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
+
+/**
+ * Whether a diff has any changes
+ */
+export function hasChanges(parts: DiffPart[]): boolean {
+  return parts.some((part) => part.type !== 'same');
+}
@@ -0,0 +1,259 @@
+import { App, normalizePath } from 'obsidian';
+import { AtomCandidate, KastenatorSettings } from '../types';
+import { SmartConnectionsProvider } from './llm/smart-connections';
+import { extractWords } from './text';
+
+/** Title similarity at or above which an atom counts as a possible duplicate */
+const TITLE_THRESHOLD = 0.75;
+
+/** TF-IDF cosine similarity at or above which an atom counts as a possible duplicate */
+const CONTENT_THRESHOLD = 0.4;
+
+/** Smart Connections similarity at or above which an atom counts as a possible duplicate */
+const SEMANTIC_THRESHOLD = 0.85;
+
+/** Most duplicates reported for one candidate */
+const MAX_MATCHES = 3;
+
+/**
+ * An existing atom that may duplicate a candidate
+ */
+export interface DuplicateMatch {
+  path: string;
+  title: string;
+  /** Similarity of the titles, 0 to 1 */
+  titleScore: number;
+  /** TF-IDF cosine similarity of the text, 0 to 1 */
+  contentScore: number;
+  /** Smart Connections similarity, when it is available */
+  semanticScore: number | null;
+}
+
+/**
+ * An existing atom note, read for comparison
+ */
+interface AtomText {
+  path: string;
+  title: string;
+  body: string;
+}
+
+/**
+ * Highest of a match's similarity scores
+ */
+export function getMatchScore(match: DuplicateMatch): number {
+  return Math.max(match.titleScore, match.contentScore, match.semanticScore ?? 0);
+}
+
+/**
+ * Lower-case a title and reduce it to letters, digits and single spaces
+ */
+function normaliseTitle(title: string): string {
+  return title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Similarity of two titles from 0 to 1
+ *
+ * Dice coefficient over character pairs, so reordered or slightly
+ * reworded titles still score highly.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normaliseTitle(a);
+  const right = normaliseTitle(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const pairs = (text: string): Map<string, number> => {
+    const counts = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const pair = text.slice(i, i + 2);
+      counts.set(pair, (counts.get(pair) ?? 0) + 1);
+    }
+    return counts;
+  };
+
+  const leftPairs = pairs(left);
+  const rightPairs = pairs(right);
+  let shared = 0;
+  for (const [pair, count] of leftPairs) {
+    shared += Math.min(count, rightPairs.get(pair) ?? 0);
+  }
+
+  return (2 * shared) / (left.length - 1 + right.length - 1);
+}
+
+/**
+ * TF-IDF vectors over a fixed set of documents
+ */
+export class TfIdfIndex {
+  private documentFrequency = new Map<string, number>();
+  private vectors: Map<string, number>[];
+  private documentCount: number;
+
+  constructor(documents: string[]) {
+    this.documentCount = documents.length;
+    const termCounts = documents.map((doc) => this.countTerms(doc));
+    for (const counts of termCounts) {
+      for (const term of counts.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+      }
+    }
+    this.vectors = termCounts.map((counts) => this.weigh(counts));
+  }
+
+  /**
+   * Cosine similarity of a text to each document, in document order
+   */
+  similarities(text: string): number[] {
+    const query = this.weigh(this.countTerms(text));
+    return this.vectors.map((vector) => cosineSimilarity(query, vector));
+  }
+
+  private countTerms(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const word of extractWords(text)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  private weigh(counts: Map<string, number>): Map<string, number> {
+    const total = [...counts.values()].reduce((sum, count) => sum + count, 0);
+    const vector = new Map<string, number>();
+    for (const [term, count] of counts) {
+      // Smoothed so terms in every document still count a little
+      const idf =
+        Math.log((this.documentCount + 1) / ((this.documentFrequency.get(term) ?? 0) + 1)) + 1;
+      vector.set(term, (count / total) * idf);
+    }
+    return vector;
+  }
+}
+
+/**
+ * Cosine similarity of two sparse vectors
+ */
+function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  for (const [term, weight] of a) {
+    dot += weight * (b.get(term) ?? 0);
+  }
+  const norm = (v: Map<string, number>) =>
+    Math.sqrt([...v.values()].reduce((sum, w) => sum + w * w, 0));
+  const magnitude = norm(a) * norm(b);
+  return magnitude === 0 ? 0 : dot / magnitude;
+}
+
+/**
+ * Finds existing atoms that a candidate may duplicate
+ *
+ * Compares titles, the words of the text weighted by TF-IDF across the
+ * atom folder, and Smart Connections embeddings when that plugin offers
+ * search. Any one method reaching its threshold flags the atom.
+ */
+export class DuplicateDetector {
+  private app: App;
+  private settings: KastenatorSettings;
+  private smartConnections: SmartConnectionsProvider;
+
+  constructor(app: App, settings: KastenatorSettings) {
+    this.app = app;
+    this.settings = settings;
+    this.smartConnections = new SmartConnectionsProvider(app);
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: KastenatorSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Possible duplicates of each candidate, by candidate ID
+   *
+   * Candidates without any are left out.
+   */
+  async findDuplicates(candidates: AtomCandidate[]): Promise<Map<string, DuplicateMatch[]>> {
+    const duplicates = new Map<string, DuplicateMatch[]>();
+    const atoms = await this.loadAtoms();
+    if (atoms.length === 0) return duplicates;
+
+    const index = new TfIdfIndex(atoms.map((atom) => `${atom.title}\n${atom.body}`));
+
+    for (const candidate of candidates) {
+      const { suggestedTitle, concept, explanation, evidence } = candidate;
+      const text = [suggestedTitle, concept, explanation, evidence].filter((p) => p).join('\n');
+      const contentScores = index.similarities(text);
+      const semanticScores = await this.getSemanticScores(text);
+
+      const matches = atoms
+        .map((atom, i) => ({
+          path: atom.path,
+          title: atom.title,
+          titleScore: titleSimilarity(candidate.suggestedTitle, atom.title),
+          contentScore: contentScores[i],
+          semanticScore: semanticScores.get(atom.path) ?? null,
+        }))
+        .filter(
+          (match) =>
+            match.titleScore >= TITLE_THRESHOLD ||
+            match.contentScore >= CONTENT_THRESHOLD ||
+            (match.semanticScore ?? 0) >= SEMANTIC_THRESHOLD
+        )
+        .sort((a, b) => getMatchScore(b) - getMatchScore(a))
+        .slice(0, MAX_MATCHES);
+
+      if (matches.length > 0) {
+        duplicates.set(candidate.id, matches);
+      }
+    }
+
+    return duplicates;
+  }
+
+  /**
+   * Read the atoms in the atom folder
+   */
+  private async loadAtoms(): Promise<AtomText[]> {
+    const folder = normalizePath(this.settings.atomFolder);
+    const files = this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.startsWith(`${folder}/`));
+
+    return Promise.all(
+      files.map(async (file) => ({
+        path: file.path,
+        title: file.basename,
+        body: (await this.app.vault.cachedRead(file)).replace(
+          /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/,
+          ''
+        ),
+      }))
+    );
+  }
+
+  /**
+   * Smart Connections similarity of notes to a text, by path
+   *
+   * Search always returns the nearest notes, so results without a score
+   * say nothing about duplication and are ignored.
+   */
+  private async getSemanticScores(text: string): Promise<Map<string, number>> {
+    const scores = new Map<string, number>();
+    try {
+      for (const { path, score } of await this.smartConnections.findSimilar(text)) {
+        if (score !== null && !scores.has(path)) {
+          scores.set(path, score);
+        }
+      }
+    } catch (error) {
+      console.warn('Smart Connections search failed; skipping semantic duplicates.', error);
+    }
+    return scores;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Parser for Dataview inline fields
+ *
+ * Supports the three Dataview syntaxes:
+ * - Line fields:          `Migration:: quarry` (optionally in a list item or quote)
+ * - Bracketed fields:     `text [Migration:: quarry] text`
+ * - Parenthesised fields: `text (Migration:: quarry) text`
+ *
+ * Keys are matched case-insensitively and values may be comma-separated
+ * lists. Frontmatter, fenced code blocks and inline code are ignored.
+ */
+
+/**
+ * Parsed inline fields, keyed by normalised field name
+ */
+export type InlineFields = Record<string, string[]>;
+
+const LINE_FIELD = /^\s*(?:[-*+]\s+|\d+\.\s+|>\s*)*([^[\]()`:\n]+?)::\s*(.*)$/;
+const BRACKETED_FIELD = /\[([^[\]()`:\n]+?)::\s*([^\]\n]*)\]/g;
+const PARENTHESISED_FIELD = /\(([^[\]()`:\n]+?)::\s*([^)\n]*)\)/g;
+
+/**
+ * Normalise a field key for case-insensitive comparison
+ *
+ * Strips markdown emphasis (e.g. `**Migration**::`) and collapses
+ * whitespace, matching how Dataview canonicalises keys.
+ */
+export function normaliseFieldKey(key: string): string {
+  return key
+    .replace(/[*_~]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-');
+}
+
+/**
+ * Split a raw field value into list items
+ *
+ * Commas inside wiki links or quotes do not split the value.
+ */
+export function splitFieldValue(raw: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let linkDepth = 0;
+  let quote: string | null = null;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    const pair = raw.slice(i, i + 2);
+
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (pair === '[[') {
+      linkDepth++;
+      current += pair;
+      i++;
+    } else if (pair === ']]' && linkDepth > 0) {
+      linkDepth--;
+      current += pair;
+      i++;
+    } else if (char === ',' && linkDepth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items
+    .map((item) => item.trim().replace(/^(["'])(.*)\1$/, '$2').trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Remove frontmatter, replacing it with blank lines to keep line numbers
+ */
+function stripFrontmatter(content: string): string {
+  const match = content.match(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/);
+  if (!match) return content;
+  return match[0].replace(/[^\n]/g, '') + content.slice(match[0].length);
+}
+
+/**
+ * Parse all inline fields in a note's content
+ */
+export function parseInlineFields(content: string): InlineFields {
+  const fields: InlineFields = {};
+  const add = (key: string, value: string): void => {
+    const normalised = normaliseFieldKey(key);
+    if (!normalised) return;
+    fields[normalised] = [...(fields[normalised] ?? []), ...splitFieldValue(value)];
+  };
+
+  let inCodeBlock = false;
+
+  for (const rawLine of stripFrontmatter(content).split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(rawLine)) {
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) continue;
+
+    const line = rawLine.replace(/`[^`]*`/g, '');
+    let embedded = false;
+
+    for (const pattern of [BRACKETED_FIELD, PARENTHESISED_FIELD]) {
+      pattern.lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(line)) !== null) {
+        add(match[1], match[2]);
+        embedded = true;
+      }
+    }
+
+    if (embedded) continue;
+
+    const lineMatch = line.match(LINE_FIELD);
+    if (lineMatch) {
+      add(lineMatch[1], lineMatch[2]);
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Get the values of a field, matching the key case-insensitively
+ */
+export function getFieldValues(fields: InlineFields, key: string): string[] {
+  return fields[normaliseFieldKey(key)] ?? [];
+}
+
+/**
+ * Get the values of a frontmatter property, matching the key case-insensitively
+ */
+export function getFrontmatterValues(
+  frontmatter: Record<string, unknown> | undefined,
+  key: string
+): string[] {
+  if (!frontmatter) return [];
+
+  const normalised = normaliseFieldKey(key);
+  const values: string[] = [];
+
+  for (const [name, value] of Object.entries(frontmatter)) {
+    if (normaliseFieldKey(name) !== normalised) continue;
+
+    if (Array.isArray(value)) {
+      values.push(...value.map((v) => String(v).trim()));
+    } else if (value !== null && value !== undefined) {
+      values.push(...splitFieldValue(String(value)));
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Check whether any value equals the expected one (case-insensitive)
+ */
+export function hasFieldValue(values: string[], expected: string): boolean {
+  const target = expected.trim().toLowerCase();
+  return values.some((value) => value.toLowerCase() === target);
+}
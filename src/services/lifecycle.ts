@@ -0,0 +1,84 @@
+import { MigrationLifecycle, MigrationEvent } from '../types';
+
+/**
+ * Default lifecycle: quarry → in-progress → partially-atomised → atomised → archived
+ */
+export const DEFAULT_MIGRATION_LIFECYCLE: MigrationLifecycle = {
+  transitions: {
+    'quarry': ['in-progress', 'atomised', 'archived'],
+    'in-progress': ['quarry', 'partially-atomised', 'atomised'],
+    'partially-atomised': ['in-progress', 'atomised', 'archived'],
+    'atomised': ['archived'],
+    'archived': [],
+  },
+  events: {
+    start: 'in-progress',
+    abandon: 'quarry',
+    partial: 'partially-atomised',
+    complete: 'atomised',
+  },
+};
+
+/**
+ * Check whether a note may move from one migration value to another
+ *
+ * Values the lifecycle does not know (e.g. a custom quarry value)
+ * are unrestricted, so existing vaults keep working unchanged.
+ */
+export function canTransition(
+  lifecycle: MigrationLifecycle,
+  from: string,
+  to: string
+): boolean {
+  if (from === to) return false;
+
+  const allowed = lifecycle.transitions[from];
+  if (!allowed) return true;
+
+  return allowed.includes(to);
+}
+
+/**
+ * Get the value a session event moves a note to, if any
+ */
+export function getEventTarget(
+  lifecycle: MigrationLifecycle,
+  event: MigrationEvent
+): string | null {
+  const target = lifecycle.events[event]?.trim();
+  return target ? target : null;
+}
+
+/**
+ * Format transitions as editable text, one state per line
+ *
+ * Example: `quarry -> in-progress, atomised`
+ */
+export function formatTransitions(transitions: Record<string, string[]>): string {
+  return Object.entries(transitions)
+    .map(([from, to]) => `${from} -> ${to.join(', ')}`.trim())
+    .join('\n');
+}
+
+/**
+ * Parse transitions from the text produced by formatTransitions
+ *
+ * Lines without an arrow declare a terminal state.
+ */
+export function parseTransitions(text: string): Record<string, string[]> {
+  const transitions: Record<string, string[]> = {};
+
+  for (const line of text.split('\n')) {
+    const [fromPart, toPart = ''] = line.split('->');
+    const from = fromPart.trim();
+    if (!from) continue;
+
+    const targets = toPart
+      .split(',')
+      .map((t) => t.trim())
+      .filter((t) => t.length > 0);
+    transitions[from] = [...(transitions[from] ?? []), ...targets];
+  }
+
+  return transitions;
+}
@@ -1,5 +1,7 @@
-import { requestUrl } from 'obsidian';
-import { LLMProvider, LLMProviderType } from './index';
+import { LLMPrompt, LLMProvider, LLMProviderType, LLMUsage } from './index';
+import { toMessages } from './prompts';
+import { readServerSentEvents } from './sse';
+import { HttpClient, HttpRequestOptions } from './http';
 
 /**
  * Available Claude models
@@ -21,6 +23,36 @@ interface ClaudeResponse {
     type: string;
     text: string;
   }>;
+  usage?: ClaudeUsage;
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+/**
+ * Token counts reported by the Messages API
+ */
+interface ClaudeUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+/**
+ * Streaming event payloads used from the Messages API
+ */
+interface ClaudeStreamEvent {
+  type: string;
+  /** Present on `message_start`, with the input token count */
+  message?: {
+    usage?: ClaudeUsage;
+  };
+  /** Present on `message_delta`, with the running output token count */
+  usage?: ClaudeUsage;
+  delta?: {
+    type: string;
+    text?: string;
+  };
   error?: {
     type: string;
     message: string;
@@ -35,14 +67,16 @@ interface ClaudeResponse {
 export class ClaudeProvider implements LLMProvider {
   private apiKey: string;
   private model: string;
+  private http: HttpClient;
 
   private static readonly API_URL = 'https://api.anthropic.com/v1/messages';
   private static readonly API_VERSION = '2023-06-01';
   private static readonly MAX_TOKENS = 1024;
 
-  constructor(apiKey: string, model?: string) {
+  constructor(apiKey: string, model?: string, http: Partial<HttpRequestOptions> = {}) {
     this.apiKey = apiKey;
     this.model = model ?? DEFAULT_CLAUDE_MODEL;
+    this.http = new HttpClient(this.getName(), http);
   }
 
   getName(): string {
@@ -63,12 +97,12 @@ export class ClaudeProvider implements LLMProvider {
   /**
    * Get completion from Claude API
    */
-  async complete(prompt: string): Promise<string> {
+  async complete(prompt: LLMPrompt, onUsage?: (usage: LLMUsage) => void): Promise<string> {
     if (!this.apiKey) {
       throw new Error('Claude API key not configured');
     }
 
-    const response = await requestUrl({
+    const data = await this.http.requestJson<ClaudeResponse>({
       url: ClaudeProvider.API_URL,
       method: 'POST',
       headers: {
@@ -79,24 +113,10 @@ export class ClaudeProvider implements LLMProvider {
       body: JSON.stringify({
         model: this.model,
         max_tokens: ClaudeProvider.MAX_TOKENS,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
+        messages: toMessages(prompt),
       }),
     });
 
-    if (response.status !== 200) {
-      const error = response.json as ClaudeResponse;
-      throw new Error(
-        error?.error?.message ?? `Claude API error: ${response.status}`
-      );
-    }
-
-    const data = response.json as ClaudeResponse;
-
     if (!data.content || data.content.length === 0) {
       throw new Error('Empty response from Claude API');
     }
@@ -106,9 +126,85 @@ export class ClaudeProvider implements LLMProvider {
       throw new Error('No text content in Claude response');
     }
 
+    if (data.usage) {
+      onUsage?.(this.toUsage(data.usage));
+    }
+
     return textContent.text;
   }
 
+  /**
+   * Stream a completion from Claude API using server-sent events
+   */
+  async stream(
+    prompt: LLMPrompt,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    onUsage?: (usage: LLMUsage) => void
+  ): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('Claude API key not configured');
+    }
+
+    const response = await this.http.fetchStream(ClaudeProvider.API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ClaudeProvider.API_VERSION,
+        // Required for requests made from a browser context such as Obsidian
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: ClaudeProvider.MAX_TOKENS,
+        stream: true,
+        messages: toMessages(prompt),
+      }),
+      signal,
+    });
+
+    let text = '';
+    const usage: ClaudeUsage = {};
+    await readServerSentEvents(
+      response,
+      ({ data }) => {
+        const event = JSON.parse(data) as ClaudeStreamEvent;
+        if (event.type === 'error') {
+          throw new Error(event.error?.message ?? 'Claude stream error');
+        }
+        if (event.type === 'message_start' && event.message?.usage) {
+          Object.assign(usage, event.message.usage);
+        }
+        if (event.type === 'message_delta' && event.usage) {
+          usage.output_tokens = event.usage.output_tokens;
+        }
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+          const token = event.delta.text ?? '';
+          text += token;
+          onToken(token);
+        }
+      },
+      signal
+    );
+
+    if (!text) {
+      throw new Error('Empty response from Claude API');
+    }
+    if (usage.input_tokens !== undefined || usage.output_tokens !== undefined) {
+      onUsage?.(this.toUsage(usage));
+    }
+    return text;
+  }
+
+  private toUsage(usage: ClaudeUsage): LLMUsage {
+    return {
+      model: this.model,
+      inputTokens: usage.input_tokens ?? 0,
+      outputTokens: usage.output_tokens ?? 0,
+    };
+  }
+
   /**
    * Update the model
    */
@@ -0,0 +1,213 @@
+/**
+ * HTTP statuses that mean a request may succeed later or elsewhere
+ *
+ * 402 and 429 cover exhausted credit and rate limits; 529 is
+ * Anthropic's "overloaded".
+ */
+const RETRYABLE_STATUSES = new Set([402, 408, 409, 425, 429, 529]);
+
+/**
+ * What went wrong with an LLM request, as far as the user is concerned
+ */
+export type LLMErrorKind =
+  | 'auth'
+  | 'quota'
+  | 'rate-limit'
+  | 'overloaded'
+  | 'bad-request'
+  | 'server'
+  | 'timeout'
+  | 'network'
+  | 'unknown';
+
+/**
+ * Error from an LLM request, carrying the HTTP status when there was one
+ */
+export class LLMRequestError extends Error {
+  readonly status?: number;
+  readonly kind: LLMErrorKind;
+
+  constructor(message: string, status?: number, kind?: LLMErrorKind) {
+    super(message);
+    this.name = 'LLMRequestError';
+    this.status = status;
+    this.kind = kind ?? (status === undefined ? 'unknown' : classifyStatus(status, message));
+  }
+}
+
+/**
+ * Classify an HTTP error status, using the API's message to tell an
+ * exhausted quota from a passing rate limit
+ */
+export function classifyStatus(status: number, detail = ''): LLMErrorKind {
+  const quota = /quota|credit|billing|insufficient|balance/i.test(detail);
+
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402) return 'quota';
+  if (status === 429) return quota ? 'quota' : 'rate-limit';
+  if (status === 503 || status === 529) return 'overloaded';
+  if (status >= 500) return 'server';
+  if (status === 408) return 'timeout';
+  if (status >= 400) return quota ? 'quota' : 'bad-request';
+  return 'unknown';
+}
+
+/**
+ * Build an error with a message telling the user what to do about it
+ *
+ * The API's own message, when there is one, is kept in brackets so it
+ * can still be searched for.
+ */
+export function createRequestError(
+  providerName: string,
+  status: number,
+  detail: string
+): LLMRequestError {
+  const kind = classifyStatus(status, detail);
+  const [summary, advice] = describeKind(kind, providerName, status);
+  const message = detail ? `${summary} (${detail}). ${advice}` : `${summary}. ${advice}`;
+  return new LLMRequestError(message, status, kind);
+}
+
+/**
+ * Summary and advice for each kind of failure
+ */
+function describeKind(kind: LLMErrorKind, name: string, status?: number): [string, string] {
+  switch (kind) {
+    case 'auth':
+      return [`${name} rejected the API key`, 'Check the key in the plugin settings.'];
+    case 'quota':
+      return [
+        `${name} is out of credit or over its quota`,
+        'Check your billing, or add a fallback provider.',
+      ];
+    case 'rate-limit':
+      return [`${name} is rate-limiting requests`, 'Wait a minute before trying again.'];
+    case 'overloaded':
+      return [
+        `${name} is overloaded`,
+        'Try again shortly, or add a fallback provider.',
+      ];
+    case 'bad-request':
+      return [`${name} rejected the request`, 'Check the model name in the plugin settings.'];
+    case 'server':
+      return [`${name} had a server error (${status})`, 'Try again later.'];
+    case 'timeout':
+      return [
+        `${name} did not respond in time`,
+        'Slow models may need a longer timeout in the plugin settings.',
+      ];
+    case 'network':
+      return [`Could not reach ${name}`, 'Check your connection or the server URL.'];
+    default:
+      return [`${name} request failed${status ? ` (${status})` : ''}`, 'Try again later.'];
+  }
+}
+
+/**
+ * Error for a request that got no response in time
+ */
+export function createTimeoutError(providerName: string, timeoutMs: number): LLMRequestError {
+  const [summary, advice] = describeKind('timeout', providerName);
+  return new LLMRequestError(
+    `${summary} (no response after ${Math.round(timeoutMs / 1000)}s). ${advice}`,
+    undefined,
+    'timeout'
+  );
+}
+
+/**
+ * Error for a request that never reached the server
+ */
+export function createNetworkError(providerName: string, cause: unknown): LLMRequestError {
+  const [summary, advice] = describeKind('network', providerName);
+  const detail = describeError(cause);
+  return new LLMRequestError(
+    detail ? `${summary} (${detail}). ${advice}` : `${summary}. ${advice}`,
+    undefined,
+    'network'
+  );
+}
+
+/**
+ * Read the error message from an API error body
+ *
+ * Handles `{error: {message}}` (Anthropic, OpenAI, OpenRouter),
+ * `{error: "..."}` (Ollama) and `{message}`.
+ */
+export function readApiErrorMessage(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') return undefined;
+  const { error, message } = body as { error?: unknown; message?: unknown };
+
+  if (typeof error === 'string' && error) return error;
+  if (error && typeof error === 'object') {
+    const nested = (error as { message?: unknown }).message;
+    if (typeof nested === 'string' && nested) return nested;
+  }
+  if (typeof message === 'string' && message) return message;
+  return undefined;
+}
+
+/**
+ * Turn anything thrown into a readable message
+ *
+ * Avoids "[object Object]" when a library rejects with a plain object.
+ */
+export function describeError(error: unknown): string {
+  if (error instanceof Error) return error.message;
+  if (typeof error === 'string') return error;
+  if (error === null || error === undefined) return '';
+
+  const message = readApiErrorMessage(error);
+  if (message) return message;
+
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return String(error);
+  }
+}
+
+/**
+ * Read the HTTP status from an error, if it has one
+ *
+ * Obsidian's `requestUrl` rejects with an error carrying `status` for
+ * non-2xx responses; our own `LLMRequestError` does the same.
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether a request got no response at all: it timed out or never reached the server
+ */
+export function isConnectionError(error: unknown): boolean {
+  return (
+    error instanceof LLMRequestError && (error.kind === 'timeout' || error.kind === 'network')
+  );
+}
+
+/**
+ * Whether a status is worth trying again, here or with another provider
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status) || status >= 500;
+}
+
+/**
+ * Whether a failed request should be handed to the next provider
+ *
+ * Errors without a status (network failures, timeouts, empty responses)
+ * fall back, as do retryable statuses and rejected credentials, which
+ * leave this provider unusable, and exhausted quotas however the API
+ * reports them. Other client errors such as an oversized request would
+ * fail the same way everywhere, so they do not.
+ */
+export function shouldFallBack(error: unknown): boolean {
+  if (error instanceof LLMRequestError) return error.kind !== 'bad-request';
+
+  const status = getErrorStatus(error);
+  if (status === undefined) return true;
+  return isRetryableStatus(status) || status === 401 || status === 403;
+}
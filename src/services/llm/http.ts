@@ -0,0 +1,272 @@
+import { requestUrl, RequestUrlParam } from 'obsidian';
+import {
+  LLMRequestError,
+  createRequestError,
+  createTimeoutError,
+  createNetworkError,
+  readApiErrorMessage,
+  isRetryableStatus,
+} from './errors';
+import { readErrorMessage } from './sse';
+
+/**
+ * Timeout and retry behaviour for HTTP providers
+ */
+export interface HttpRequestOptions {
+  /** How long to wait for a response before giving up on an attempt */
+  timeoutMs: number;
+  /** Retries after the first attempt for overloaded, rate-limited or failing servers */
+  maxRetries: number;
+  /** Backoff before the first retry, doubled for each one after */
+  baseDelayMs: number;
+  /** Longest wait between attempts; a longer retry-after fails at once instead */
+  maxDelayMs: number;
+}
+
+export const DEFAULT_HTTP_OPTIONS: HttpRequestOptions = {
+  timeoutMs: 60_000,
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * Parse a retry-after header, in seconds or as an HTTP date
+ *
+ * Returns the wait in milliseconds, or null if absent or unreadable.
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter for a retry (0 for the first retry)
+ *
+ * Waits between half and all of `base * 2^retry`, so clients that
+ * failed together do not retry together.
+ */
+export function getBackoffDelay(
+  retry: number,
+  options: Pick<HttpRequestOptions, 'baseDelayMs' | 'maxDelayMs'>,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** retry);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Shared request layer for the HTTP LLM providers
+ *
+ * Adds a timeout to every attempt, retries overloaded, rate-limited and
+ * failing servers with backoff (honouring retry-after), and turns
+ * failures into `LLMRequestError`s with actionable messages.
+ */
+export class HttpClient {
+  private providerName: string;
+  private options: HttpRequestOptions;
+
+  constructor(providerName: string, options: Partial<HttpRequestOptions> = {}) {
+    this.providerName = providerName;
+    this.options = { ...DEFAULT_HTTP_OPTIONS, ...options };
+  }
+
+  /**
+   * Send a request through Obsidian's `requestUrl` and return the JSON body
+   */
+  async requestJson<T>(params: RequestUrlParam): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let response;
+      try {
+        response = await this.withTimeout(requestUrl({ ...params, throw: false }));
+      } catch (error) {
+        if (error instanceof LLMRequestError) throw error;
+        throw createNetworkError(this.providerName, error);
+      }
+
+      if (response.status >= 200 && response.status < 300) {
+        return response.json as T;
+      }
+
+      const error = createRequestError(
+        this.providerName,
+        response.status,
+        readApiErrorMessage(safeJson(response)) ?? ''
+      );
+      const delay = this.getRetryDelay(error, attempt, getHeader(response.headers, 'retry-after'));
+      if (delay === null) throw error;
+
+      console.warn(`${error.message} Retrying in ${Math.round(delay / 1000)}s.`);
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Send a request through `fetch` for streaming, returning the response
+   * once its headers arrive
+   *
+   * The timeout covers waiting for the response to start, and then each
+   * pause in the body, so a stream that stalls fails rather than hanging.
+   * Aborting the signal cancels the request, including any backoff in
+   * progress.
+   */
+  async fetchStream(url: string, init: RequestInit & { signal?: AbortSignal }): Promise<Response> {
+    const { signal } = init;
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) {
+        throw new DOMException('Aborted', 'AbortError');
+      }
+
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      signal?.addEventListener('abort', abort, { once: true });
+
+      let timedOut = false;
+      const timer = window.setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, this.options.timeoutMs);
+
+      let response: Response;
+      try {
+        response = await fetch(url, { ...init, signal: controller.signal });
+      } catch (error) {
+        signal?.removeEventListener('abort', abort);
+        if (signal?.aborted) throw error;
+        if (timedOut) throw createTimeoutError(this.providerName, this.options.timeoutMs);
+        throw createNetworkError(this.providerName, error);
+      } finally {
+        window.clearTimeout(timer);
+      }
+
+      if (response.ok) return this.withIdleTimeout(response, controller);
+      signal?.removeEventListener('abort', abort);
+
+      const error = createRequestError(
+        this.providerName,
+        response.status,
+        await readErrorMessage(response, '')
+      );
+      const delay = this.getRetryDelay(error, attempt, response.headers.get('retry-after'));
+      if (delay === null) throw error;
+
+      console.warn(`${error.message} Retrying in ${Math.round(delay / 1000)}s.`);
+      await sleep(delay, signal);
+    }
+  }
+
+  /**
+   * How long to wait before retrying, or null to give up
+   */
+  private getRetryDelay(
+    error: LLMRequestError,
+    attempt: number,
+    retryAfter: string | null | undefined
+  ): number | null {
+    if (attempt >= this.options.maxRetries) return null;
+    if (error.status === undefined || !isRetryableStatus(error.status) || error.kind === 'quota') {
+      return null;
+    }
+
+    const delay = parseRetryAfter(retryAfter) ?? getBackoffDelay(attempt, this.options);
+    return delay > this.options.maxDelayMs ? null : delay;
+  }
+
+  /**
+   * Fail reading the body with a timeout error if no data arrives for too long
+   */
+  private withIdleTimeout(response: Response, controller: AbortController): Response {
+    if (!response.body) return response;
+
+    const reader = response.body.getReader();
+    const { timeoutMs } = this.options;
+    const body = new ReadableStream<Uint8Array>({
+      pull: async (stream) => {
+        let timer: number | undefined;
+        const idle = new Promise<never>((_, reject) => {
+          timer = window.setTimeout(() => {
+            controller.abort();
+            reject(createTimeoutError(this.providerName, timeoutMs));
+          }, timeoutMs);
+        });
+
+        try {
+          const { done, value } = await Promise.race([reader.read(), idle]);
+          if (done) {
+            stream.close();
+          } else {
+            stream.enqueue(value);
+          }
+        } finally {
+          window.clearTimeout(timer);
+        }
+      },
+      cancel: (reason) => reader.cancel(reason),
+    });
+
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  }
+
+  /**
+   * Reject with a timeout error if the request takes too long
+   */
+  private withTimeout<T>(request: Promise<T>): Promise<T> {
+    let timer: number | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = window.setTimeout(
+        () => reject(createTimeoutError(this.providerName, this.options.timeoutMs)),
+        this.options.timeoutMs
+      );
+    });
+
+    return Promise.race([request, timeout]).finally(() => window.clearTimeout(timer));
+  }
+}
+
+/**
+ * Read a header regardless of the case the server used
+ */
+function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * Read the JSON body of a `requestUrl` response, which throws for non-JSON
+ */
+function safeJson(response: { json: unknown }): unknown {
+  try {
+    return response.json;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Wait, resolving early if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = window.setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        window.clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
@@ -1,13 +1,39 @@
 import { App } from 'obsidian';
-import { KastenatorSettings } from '../../types';
+import {
+  KastenatorSettings,
+  LLMProviderType,
+  ConceptSuggestion,
+  CritiqueScorecard,
+  ChatMessage,
+} from '../../types';
 import { SmartConnectionsProvider } from './smart-connections';
 import { ClaudeProvider } from './claude';
 import { OpenRouterProvider } from './openrouter';
+import {
+  OpenAICompatibleProvider,
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+} from './openai-compatible';
+import { DEFAULT_HTTP_OPTIONS, HttpRequestOptions } from './http';
+import {
+  createTimeoutError,
+  describeError,
+  getErrorStatus,
+  isConnectionError,
+  shouldFallBack,
+} from './errors';
+import { estimateCost } from './pricing';
+import { CRITIQUE_CRITERIA, validateScorecard } from '../critique';
+import { UsageLedger, formatCost } from '../usage';
+import {
+  DEFAULT_CONCEPT_TEMPLATE,
+  DEFAULT_CRITIQUE_TEMPLATE,
+  DEFAULT_SOURCE_TOKENS,
+  formatRelatedAtoms,
+  renderPromptTemplate,
+  truncateSource,
+} from './prompts';
 
-/**
- * Available LLM provider types
- */
-export type LLMProviderType = 'none' | 'smart-connections' | 'claude' | 'openrouter';
+export type { LLMProviderType };
 
 /**
  * Common interface for all LLM providers
@@ -16,8 +42,20 @@ export interface LLMProvider {
   /** Check if the provider is available and configured */
   isAvailable(): Promise<boolean>;
 
-  /** Get a completion from the LLM */
-  complete(prompt: string): Promise<string>;
+  /** Get a completion from the LLM, reporting token usage if the API gives it */
+  complete(prompt: LLMPrompt, onUsage?: (usage: LLMUsage) => void): Promise<string>;
+
+  /**
+   * Stream a completion, calling onToken with each piece of text as it
+   * arrives. Resolves with the full text. Optional: providers without
+   * it are polled through `complete` instead.
+   */
+  stream?(
+    prompt: LLMPrompt,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    onUsage?: (usage: LLMUsage) => void
+  ): Promise<string>;
 
   /** Get the display name of this provider */
   getName(): string;
@@ -26,6 +64,22 @@ export interface LLMProvider {
   getType(): LLMProviderType;
 }
 
+/**
+ * A single prompt, or a conversation ending with the user's turn
+ */
+export type LLMPrompt = string | ChatMessage[];
+
+/**
+ * Token usage reported by a provider for one call
+ */
+export interface LLMUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Actual cost in US dollars, when the provider reports it */
+  cost?: number;
+}
+
 /**
  * Result of an LLM completion request
  */
@@ -36,6 +90,44 @@ export interface LLMResult {
   provider: string;
 }
 
+/**
+ * Callbacks for a streamed completion
+ */
+export interface StreamHandlers {
+  /** Called with each piece of text as it arrives */
+  onToken: (token: string) => void;
+  /** Called every second with the elapsed time while a non-streaming provider works */
+  onWaiting?: (elapsedMs: number) => void;
+  /** Aborts the request */
+  signal?: AbortSignal;
+  /** What the call is for, recorded in the usage ledger */
+  context?: UsageContext;
+}
+
+/**
+ * How to build a prompt
+ */
+export interface PromptOptions {
+  /** Template text to fill instead of the built-in one */
+  template?: string;
+  /** Titles of atoms the candidate links to */
+  relatedAtoms?: string[];
+}
+
+/**
+ * What an LLM call is for, recorded with its usage
+ */
+export interface UsageContext {
+  sessionId?: string;
+  sourcePath?: string;
+}
+
+/** Error reported when a streamed request is cancelled */
+export const CANCELLED_ERROR = 'Cancelled';
+
+/** How often non-streaming providers are polled for progress */
+const POLL_INTERVAL_MS = 1000;
+
 /**
  * Configuration for LLM providers
  */
@@ -45,6 +137,73 @@ export interface LLMConfig {
   claudeModel?: string;
   openrouterApiKey?: string;
   openrouterModel?: string;
+  openaiCompatibleBaseUrl?: string;
+  openaiCompatibleModel?: string;
+  openaiCompatibleApiKey?: string;
+  /** Timeout and retry behaviour for the HTTP providers */
+  http?: Partial<HttpRequestOptions>;
+}
+
+/**
+ * Extract the first JSON value from an LLM response
+ *
+ * Tolerates code fences and prose around the JSON. Returns null when
+ * no parseable JSON is found.
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+
+  const start = candidate.search(/[[{]/);
+  if (start === -1) return null;
+
+  const open = candidate[start];
+  const close = open === '[' ? ']' : '}';
+  const end = candidate.lastIndexOf(close);
+  if (end <= start) return null;
+
+  try {
+    return JSON.parse(candidate.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the concept list returned for a concept suggestion prompt
+ *
+ * Entries missing a concept are dropped; a missing title falls back to
+ * the concept and a missing excerpt to an empty string.
+ */
+export function parseConceptSuggestions(text: string): ConceptSuggestion[] {
+  const json = extractJson(text);
+  const items = Array.isArray(json)
+    ? json
+    : Array.isArray((json as { concepts?: unknown })?.concepts)
+      ? (json as { concepts: unknown[] }).concepts
+      : [];
+
+  const suggestions: ConceptSuggestion[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue;
+    const { concept, title, excerpt } = item as Record<string, unknown>;
+    if (typeof concept !== 'string' || !concept.trim()) continue;
+
+    suggestions.push({
+      concept: concept.trim(),
+      title: typeof title === 'string' && title.trim() ? title.trim() : concept.trim(),
+      excerpt: typeof excerpt === 'string' ? excerpt.trim() : '',
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * Parse and schema-check the scorecard returned for a critique prompt
+ */
+export function parseScorecard(text: string, source: string): CritiqueScorecard | null {
+  return validateScorecard(extractJson(text), source);
 }
 
 /**
@@ -60,11 +219,24 @@ export function createLLMProvider(
 
     case 'claude':
       if (!config.claudeApiKey) return null;
-      return new ClaudeProvider(config.claudeApiKey, config.claudeModel);
+      return new ClaudeProvider(config.claudeApiKey, config.claudeModel, config.http);
 
     case 'openrouter':
       if (!config.openrouterApiKey) return null;
-      return new OpenRouterProvider(config.openrouterApiKey, config.openrouterModel);
+      return new OpenRouterProvider(
+        config.openrouterApiKey,
+        config.openrouterModel,
+        config.http
+      );
+
+    case 'openai-compatible':
+      if (!config.openaiCompatibleModel) return null;
+      return new OpenAICompatibleProvider(
+        config.openaiCompatibleBaseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+        config.openaiCompatibleModel,
+        config.openaiCompatibleApiKey,
+        config.http
+      );
 
     case 'none':
     default:
@@ -82,59 +254,167 @@ export function getLLMConfigFromSettings(settings: KastenatorSettings): LLMConfi
     claudeModel: settings.claudeModel,
     openrouterApiKey: settings.openrouterApiKey,
     openrouterModel: settings.openrouterModel,
+    openaiCompatibleBaseUrl: settings.openaiCompatibleBaseUrl,
+    openaiCompatibleModel: settings.openaiCompatibleModel,
+    openaiCompatibleApiKey: settings.openaiCompatibleApiKey,
+    http: getHttpOptionsFromSettings(settings),
   };
 }
 
+/**
+ * Extract timeout and retry options from plugin settings
+ */
+export function getHttpOptionsFromSettings(settings: KastenatorSettings): HttpRequestOptions {
+  const options = { ...DEFAULT_HTTP_OPTIONS };
+  if (settings.llmTimeoutSeconds !== undefined) {
+    options.timeoutMs = settings.llmTimeoutSeconds * 1000;
+  }
+  if (settings.llmMaxRetries !== undefined) {
+    options.maxRetries = settings.llmMaxRetries;
+  }
+  return options;
+}
+
+/**
+ * Ordered provider types to try: the primary, then each fallback
+ *
+ * Duplicates and `none` are dropped.
+ */
+export function getProviderChain(settings: KastenatorSettings): LLMProviderType[] {
+  const chain: LLMProviderType[] = [];
+  for (const type of [settings.llmProvider ?? 'none', ...(settings.llmFallbackProviders ?? [])]) {
+    if (type !== 'none' && !chain.includes(type)) chain.push(type);
+  }
+  return chain;
+}
+
 /**
  * Service for managing LLM interactions with fallback support
+ *
+ * Requests go to the primary provider first, then to each fallback in
+ * order when a provider is unavailable, times out or returns a
+ * retryable error. `LLMResult.provider` records which one answered.
  */
 export class LLMService {
   private app: App;
   private settings: KastenatorSettings;
-  private provider: LLMProvider | null = null;
+  private providers: LLMProvider[] = [];
+  private ledger: UsageLedger | null;
 
-  constructor(app: App, settings: KastenatorSettings) {
+  constructor(app: App, settings: KastenatorSettings, ledger?: UsageLedger) {
     this.app = app;
     this.settings = settings;
-    this.initialiseProvider();
+    this.ledger = ledger ?? null;
+    this.initialiseProviders();
   }
 
   /**
-   * Update settings and reinitialise provider
+   * Update settings and reinitialise providers
    */
   updateSettings(settings: KastenatorSettings): void {
     this.settings = settings;
-    this.initialiseProvider();
+    this.initialiseProviders();
   }
 
   /**
-   * Initialise the configured provider
+   * Initialise the primary provider followed by its fallbacks
+   *
+   * Providers that are missing required configuration are left out.
    */
-  private initialiseProvider(): void {
+  private initialiseProviders(): void {
     const config = getLLMConfigFromSettings(this.settings);
-    this.provider = createLLMProvider(this.app, config);
+    this.providers = getProviderChain(this.settings)
+      .map((type) => createLLMProvider(this.app, { ...config, provider: type }))
+      .filter((provider): provider is LLMProvider => provider !== null);
   }
 
   /**
-   * Check if an LLM provider is available
+   * Check if any provider in the chain is available
    */
   async isAvailable(): Promise<boolean> {
-    if (!this.provider) return false;
-    return this.provider.isAvailable();
+    for (const provider of this.providers) {
+      if (await provider.isAvailable()) return true;
+    }
+    return false;
   }
 
   /**
-   * Get the current provider name
+   * Get the primary provider name
    */
   getProviderName(): string {
-    return this.provider?.getName() ?? 'None';
+    return this.providers[0]?.getName() ?? 'None';
+  }
+
+  /**
+   * Describe the provider that produced a result, noting a fallback
+   */
+  describeProvider(type: string): string {
+    const provider = this.providers.find((p) => p.getType() === type);
+    if (!provider) return type;
+
+    const primary = this.providers[0];
+    return provider === primary
+      ? provider.getName()
+      : `${provider.getName()} (fallback for ${primary.getName()})`;
+  }
+
+  /**
+   * Get a completion, falling back through the provider chain
+   */
+  async complete(prompt: LLMPrompt, context: UsageContext = {}): Promise<LLMResult> {
+    const refusal = this.checkBudget();
+    if (refusal) return refusal;
+
+    return this.completeWith(this.providers, prompt, context);
+  }
+
+  /**
+   * Refuse calls once the monthly budget is spent
+   */
+  private checkBudget(): LLMResult | null {
+    if (!this.ledger?.isOverBudget()) return null;
+
+    return {
+      success: false,
+      content: '',
+      error: `The monthly LLM budget of ${formatCost(this.settings.monthlyBudget)} has been reached. Raise it in the plugin settings to keep using AI.`,
+      provider: 'none',
+    };
+  }
+
+  /**
+   * Record a provider's reported usage in the ledger, pricing it if the
+   * provider did not
+   */
+  private recordUsage(provider: LLMProvider, usage: LLMUsage, context: UsageContext): void {
+    if (!this.ledger) return;
+
+    const cost = usage.cost ?? estimateCost(usage.model, usage.inputTokens, usage.outputTokens);
+    this.ledger
+      .record({
+        timestamp: new Date().toISOString(),
+        provider: provider.getType(),
+        model: usage.model,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        cost,
+        ...context,
+      })
+      .catch((error) => console.error('Failed to record LLM usage:', error));
   }
 
   /**
-   * Get a completion from the configured LLM
+   * Try each provider in turn until one answers
+   *
+   * Stops at the first error that another provider would not fix. The
+   * error of a complete failure lists what went wrong with each provider.
    */
-  async complete(prompt: string): Promise<LLMResult> {
-    if (!this.provider) {
+  private async completeWith(
+    providers: LLMProvider[],
+    prompt: LLMPrompt,
+    context: UsageContext
+  ): Promise<LLMResult> {
+    if (providers.length === 0) {
       return {
         success: false,
         content: '',
@@ -143,61 +423,282 @@ export class LLMService {
       };
     }
 
-    const available = await this.provider.isAvailable();
-    if (!available) {
+    const errors: string[] = [];
+    let last = providers[0];
+
+    for (const provider of providers) {
+      last = provider;
+
+      if (!(await provider.isAvailable())) {
+        errors.push(`${provider.getName()} is not available`);
+        continue;
+      }
+
+      try {
+        const content = await this.withTimeout(
+          provider,
+          provider.complete(prompt, (usage) => this.recordUsage(provider, usage, context))
+        );
+        return { success: true, content, provider: provider.getType() };
+      } catch (error) {
+        const message = describeError(error);
+        errors.push(`${provider.getName()}: ${message}`);
+        if (!shouldFallBack(error)) break;
+        console.warn(`${provider.getName()} failed (${message}), trying the next provider.`);
+      }
+    }
+
+    return {
+      success: false,
+      content: '',
+      error: errors.join('; '),
+      provider: last.getType(),
+    };
+  }
+
+  /**
+   * Reject a provider request that takes longer than the deadline
+   *
+   * The deadline allows every retry its full timeout plus the longest
+   * backoff, so the HTTP providers' own timeouts normally fire first;
+   * it mainly guards providers without them.
+   */
+  private withTimeout<T>(provider: LLMProvider, request: Promise<T>): Promise<T> {
+    const { timeoutMs, maxRetries, maxDelayMs } = getHttpOptionsFromSettings(this.settings);
+    const deadline = timeoutMs * (maxRetries + 1) + maxDelayMs * maxRetries;
+
+    let timer: number | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = window.setTimeout(
+        () => reject(createTimeoutError(provider.getName(), deadline)),
+        deadline
+      );
+    });
+
+    return Promise.race([request, timeout]).finally(() => window.clearTimeout(timer));
+  }
+
+  /**
+   * Stream a completion, falling back through the provider chain
+   *
+   * Uses each provider's streaming method when it has one. A timeout,
+   * network failure or retryable status before any text arrives moves on
+   * to the next provider. A provider that cannot stream, or whose stream
+   * fails in some other way without a status, switches to requesting the
+   * completion in one piece from that provider onwards while `onWaiting`
+   * reports progress, delivered as a single token.
+   */
+  async stream(prompt: LLMPrompt, handlers: StreamHandlers): Promise<LLMResult> {
+    const { onToken, signal, context = {} } = handlers;
+    const refusal = this.checkBudget();
+    if (refusal) return refusal;
+
+    const errors: string[] = [];
+    let index = 0;
+
+    for (; index < this.providers.length; index++) {
+      const provider = this.providers[index];
+      if (!(await provider.isAvailable())) {
+        errors.push(`${provider.getName()} is not available`);
+        continue;
+      }
+      if (!provider.stream) break;
+
+      let received = false;
+      try {
+        const content = await provider.stream(
+          prompt,
+          (token) => {
+            received = true;
+            onToken(token);
+          },
+          signal,
+          (usage) => this.recordUsage(provider, usage, context)
+        );
+        return { success: true, content, provider: provider.getType() };
+      } catch (error) {
+        const message = describeError(error);
+        if (signal?.aborted) {
+          return { success: false, content: '', error: CANCELLED_ERROR, provider: provider.getType() };
+        }
+        if (received) {
+          return { success: false, content: '', error: message, provider: provider.getType() };
+        }
+        if (getErrorStatus(error) === undefined && !isConnectionError(error)) {
+          console.warn(`Streaming failed (${message}), requesting without streaming.`);
+          break;
+        }
+        if (!shouldFallBack(error)) {
+          return { success: false, content: '', error: message, provider: provider.getType() };
+        }
+        errors.push(`${provider.getName()}: ${message}`);
+        console.warn(`${provider.getName()} failed (${message}), trying the next provider.`);
+      }
+    }
+
+    if (index >= this.providers.length && this.providers.length > 0) {
       return {
         success: false,
         content: '',
-        error: `${this.provider.getName()} is not available`,
-        provider: this.provider.getType(),
+        error: errors.join('; '),
+        provider: this.providers[this.providers.length - 1].getType(),
       };
     }
 
+    return this.pollCompletion(this.providers.slice(index), prompt, handlers);
+  }
+
+  /**
+   * Request a completion in one piece, reporting progress while waiting
+   */
+  private async pollCompletion(
+    providers: LLMProvider[],
+    prompt: LLMPrompt,
+    handlers: StreamHandlers
+  ): Promise<LLMResult> {
+    const { onToken, onWaiting, signal, context = {} } = handlers;
+    const provider = providers[0]?.getType() ?? 'none';
+    const cancelled: LLMResult = { success: false, content: '', error: CANCELLED_ERROR, provider };
+
+    if (signal?.aborted) return cancelled;
+
+    const started = Date.now();
+    const timer = onWaiting
+      ? window.setInterval(() => onWaiting(Date.now() - started), POLL_INTERVAL_MS)
+      : null;
+
     try {
-      const content = await this.provider.complete(prompt);
-      return {
-        success: true,
-        content,
-        provider: this.provider.getType(),
-      };
-    } catch (error) {
-      return {
-        success: false,
-        content: '',
-        error: error instanceof Error ? error.message : String(error),
-        provider: this.provider.getType(),
-      };
+      const aborted = new Promise<LLMResult>((resolve) => {
+        signal?.addEventListener('abort', () => resolve(cancelled), { once: true });
+      });
+      const result = await Promise.race([this.completeWith(providers, prompt, context), aborted]);
+      if (result.success) {
+        onToken(result.content);
+      }
+      return result;
+    } finally {
+      if (timer !== null) window.clearInterval(timer);
     }
   }
 
   /**
    * Generate a critique prompt for atomisation
+   *
+   * Fills the template (the built-in one unless given) and adds the
+   * criteria and the JSON scorecard format, so any template can be parsed.
    */
   buildCritiquePrompt(
     concept: string,
     explanation: string,
     evidence: string,
-    sourceContent: string
+    sourceContent: string,
+    options: PromptOptions = {}
   ): string {
-    return `You are a rigorous knowledge management assistant helping to atomise notes into discrete concepts.
+    const criteria = CRITIQUE_CRITERIA.map(
+      (c, i) => `${i + 1}. **${c.name}** ("${c.id}"): ${c.question}`
+    ).join('\n');
+    const example = CRITIQUE_CRITERIA.map(
+      (c) => `    "${c.id}": {"score": 4, "verdict": "pass", "reason": "..."}`
+    ).join(',\n');
 
-Evaluate the following atomic note candidate. Be direct and objective -- no praise, encouragement, or emotional padding. Focus only on issues that need addressing.
+    const body = renderPromptTemplate(options.template ?? DEFAULT_CRITIQUE_TEMPLATE, {
+      concept,
+      explanation,
+      evidence,
+      source: truncateSource(
+        sourceContent,
+        { text: `${concept} ${explanation}`, evidence },
+        this.getSourceTokens()
+      ),
+      related_atoms: formatRelatedAtoms(options.relatedAtoms ?? []),
+    });
 
-## Source Note Context
-${sourceContent.slice(0, 2000)}
-
-## Candidate Atom
-**Concept:** ${concept}
-**Explanation:** ${explanation}
-**Evidence:** ${evidence}
+    return `${body}
 
 ## Evaluation Criteria
-1. **Atomicity**: Does this express exactly one idea? Flag if multiple concepts are bundled
-2. **Clarity**: Is the explanation clear and self-contained without the source?
-3. **Substance**: Does it go beyond restating the concept?
-4. **Evidence**: Is the supporting evidence sufficient and relevant?
-5. **Accuracy**: Does the explanation faithfully represent the source material?
+${criteria}
+
+## Response Format
+Respond with only a JSON object, no other text. Score every criterion from 1 (poor) to 5 (excellent), give a verdict of "pass", "weak" or "fail", and a one-sentence reason. Put any overall remark in "summary" (empty if none).
 
-Provide a concise critique (2-4 sentences) identifying any issues. If the candidate is acceptable, state "No significant issues identified." Do not use bullet points or numbered lists.`;
+{
+  "criteria": {
+${example}
+  },
+  "summary": ""
+}`;
+  }
+
+  /**
+   * Follow up a malformed critique response with a format reminder
+   */
+  buildCritiqueRetryPrompt(prompt: string, response: string): string {
+    return `${prompt}
+
+## Previous Response
+${response.slice(0, 1000)}
+
+The previous response was not valid JSON in the required format. Respond again with only the JSON object, including every criterion with an integer score from 1 to 5, a verdict and a reason.`;
+  }
+
+  /**
+   * Build the conversation for a reply to a critique
+   *
+   * Replays the critique prompt and the critique as the first exchange,
+   * then the thread, with a reminder on the latest turn to answer in
+   * prose rather than another scorecard.
+   */
+  buildCritiqueChat(prompt: string, critique: string, thread: ChatMessage[]): ChatMessage[] {
+    const messages: ChatMessage[] = [
+      { role: 'user', content: prompt },
+      { role: 'assistant', content: critique },
+      ...thread.map(({ role, content }) => ({ role, content })),
+    ];
+
+    const last = messages[messages.length - 1];
+    if (last.role === 'user') {
+      messages[messages.length - 1] = {
+        role: 'user',
+        content: `${last.content}
+
+(The author is replying to your critique. Answer in plain prose, not JSON, in a few sentences. If they are right, say which criterion you would now judge differently and its new verdict.)`,
+      };
+    }
+
+    return messages;
+  }
+
+  /**
+   * Generate a prompt asking for candidate concepts in a source note
+   *
+   * Fills the template (the built-in one unless given) and adds the
+   * JSON response format.
+   */
+  buildConceptPrompt(sourceContent: string, options: PromptOptions = {}): string {
+    const body = renderPromptTemplate(options.template ?? DEFAULT_CONCEPT_TEMPLATE, {
+      concept: '',
+      explanation: '',
+      evidence: '',
+      source: truncateSource(sourceContent, {}, this.getSourceTokens()),
+      related_atoms: formatRelatedAtoms(options.relatedAtoms ?? []),
+    });
+
+    return `${body}
+
+## Response Format
+Respond with only a JSON array, no other text. Each element must have:
+- "concept": the idea stated as one sentence
+- "title": a short, specific title for the atom note
+- "excerpt": the passage of the source that supports it, copied verbatim
+
+Example:
+[{"concept": "...", "title": "...", "excerpt": "..."}]`;
+  }
+
+  /**
+   * Token budget for source note text in prompts
+   */
+  private getSourceTokens(): number {
+    return this.settings.promptSourceTokens ?? DEFAULT_SOURCE_TOKENS;
   }
 }
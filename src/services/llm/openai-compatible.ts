@@ -0,0 +1,189 @@
+import { LLMPrompt, LLMProvider, LLMProviderType } from './index';
+import { toMessages } from './prompts';
+import { readServerSentEvents } from './sse';
+import { HttpClient, HttpRequestOptions } from './http';
+
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Chat completion response structure
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message: {
+      content: string;
+    };
+  }>;
+  error?: {
+    message: string;
+  };
+}
+
+/**
+ * Streaming chunk structure
+ */
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+  error?: {
+    message: string;
+  };
+}
+
+/**
+ * Model list response structure
+ */
+interface ModelListResponse {
+  data?: Array<{
+    id: string;
+  }>;
+}
+
+/**
+ * Provider for any server speaking the OpenAI chat completions API
+ *
+ * Covers local servers such as Ollama, LM Studio and llama.cpp, so
+ * notes never leave the machine. The API key is optional because most
+ * local servers do not check it.
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private baseUrl: string;
+  private model: string;
+  private apiKey: string;
+  private http: HttpClient;
+
+  private static readonly MAX_TOKENS = 1024;
+
+  constructor(
+    baseUrl: string,
+    model: string,
+    apiKey?: string,
+    http: Partial<HttpRequestOptions> = {}
+  ) {
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+    this.model = model.trim();
+    this.apiKey = apiKey?.trim() ?? '';
+    this.http = new HttpClient(this.getName(), http);
+  }
+
+  getName(): string {
+    return 'OpenAI-compatible';
+  }
+
+  getType(): LLMProviderType {
+    return 'openai-compatible';
+  }
+
+  /**
+   * Check that a server URL and model are configured
+   */
+  async isAvailable(): Promise<boolean> {
+    return this.baseUrl.length > 0 && this.model.length > 0;
+  }
+
+  /**
+   * Get completion from the server
+   */
+  async complete(prompt: LLMPrompt): Promise<string> {
+    const data = await this.http.requestJson<ChatCompletionResponse>({
+      url: `${this.baseUrl}/chat/completions`,
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(this.buildBody(prompt, false)),
+    });
+
+    const content = data.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('No content in OpenAI-compatible response');
+    }
+
+    return content;
+  }
+
+  /**
+   * Stream a completion from the server using server-sent events
+   */
+  async stream(
+    prompt: LLMPrompt,
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const response = await this.http.fetchStream(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(this.buildBody(prompt, true)),
+      signal,
+    });
+
+    let text = '';
+    await readServerSentEvents(
+      response,
+      ({ data }) => {
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        if (chunk.error) {
+          throw new Error(chunk.error.message);
+        }
+        const token = chunk.choices?.[0]?.delta?.content ?? '';
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+      },
+      signal
+    );
+
+    if (!text) {
+      throw new Error('No content in OpenAI-compatible response');
+    }
+    return text;
+  }
+
+  /**
+   * List the model IDs the server offers
+   */
+  async listModels(): Promise<string[]> {
+    const data = await this.http.requestJson<ModelListResponse>({
+      url: `${this.baseUrl}/models`,
+      method: 'GET',
+      headers: this.getHeaders(),
+    });
+
+    return (data.data ?? []).map((model) => model.id).sort();
+  }
+
+  /**
+   * Get current model ID
+   */
+  getModel(): string {
+    return this.model;
+  }
+
+  /**
+   * Get the server base URL
+   */
+  getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private buildBody(prompt: LLMPrompt, stream: boolean): Record<string, unknown> {
+    return {
+      model: this.model,
+      max_tokens: OpenAICompatibleProvider.MAX_TOKENS,
+      stream,
+      messages: toMessages(prompt),
+    };
+  }
+}
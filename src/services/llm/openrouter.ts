@@ -1,5 +1,7 @@
-import { requestUrl } from 'obsidian';
-import { LLMProvider, LLMProviderType } from './index';
+import { LLMPrompt, LLMProvider, LLMProviderType, LLMUsage } from './index';
+import { toMessages } from './prompts';
+import { readServerSentEvents } from './sse';
+import { HttpClient, HttpRequestOptions } from './http';
 
 /**
  * Popular OpenRouter models for knowledge work
@@ -26,12 +28,38 @@ interface OpenRouterResponse {
       content: string;
     };
   }>;
+  usage?: OpenRouterUsage;
   error?: {
     message: string;
     code?: string;
   };
 }
 
+/**
+ * Token counts, and the cost in credits when usage accounting is on
+ */
+interface OpenRouterUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  cost?: number;
+}
+
+/**
+ * Streaming chunk structure (OpenAI-compatible)
+ */
+interface OpenRouterStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+  /** Sent on the final chunk when usage accounting is on */
+  usage?: OpenRouterUsage;
+  error?: {
+    message: string;
+  };
+}
+
 /**
  * OpenRouter provider
  *
@@ -43,13 +71,15 @@ interface OpenRouterResponse {
 export class OpenRouterProvider implements LLMProvider {
   private apiKey: string;
   private model: string;
+  private http: HttpClient;
 
   private static readonly API_URL = 'https://openrouter.ai/api/v1/chat/completions';
   private static readonly MAX_TOKENS = 1024;
 
-  constructor(apiKey: string, model?: string) {
+  constructor(apiKey: string, model?: string, http: Partial<HttpRequestOptions> = {}) {
     this.apiKey = apiKey;
     this.model = model ?? DEFAULT_OPENROUTER_MODEL;
+    this.http = new HttpClient(this.getName(), http);
   }
 
   getName(): string {
@@ -70,12 +100,12 @@ export class OpenRouterProvider implements LLMProvider {
   /**
    * Get completion from OpenRouter API
    */
-  async complete(prompt: string): Promise<string> {
+  async complete(prompt: LLMPrompt, onUsage?: (usage: LLMUsage) => void): Promise<string> {
     if (!this.apiKey) {
       throw new Error('OpenRouter API key not configured');
     }
 
-    const response = await requestUrl({
+    const data = await this.http.requestJson<OpenRouterResponse>({
       url: OpenRouterProvider.API_URL,
       method: 'POST',
       headers: {
@@ -87,24 +117,11 @@ export class OpenRouterProvider implements LLMProvider {
       body: JSON.stringify({
         model: this.model,
         max_tokens: OpenRouterProvider.MAX_TOKENS,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
+        usage: { include: true },
+        messages: toMessages(prompt),
       }),
     });
 
-    if (response.status !== 200) {
-      const error = response.json as OpenRouterResponse;
-      throw new Error(
-        error?.error?.message ?? `OpenRouter API error: ${response.status}`
-      );
-    }
-
-    const data = response.json as OpenRouterResponse;
-
     if (!data.choices || data.choices.length === 0) {
       throw new Error('Empty response from OpenRouter API');
     }
@@ -114,9 +131,85 @@ export class OpenRouterProvider implements LLMProvider {
       throw new Error('No content in OpenRouter response');
     }
 
+    if (data.usage) {
+      onUsage?.(this.toUsage(data.usage));
+    }
+
     return content;
   }
 
+  /**
+   * Stream a completion from OpenRouter API using server-sent events
+   */
+  async stream(
+    prompt: LLMPrompt,
+    onToken: (token: string) => void,
+    signal?: AbortSignal,
+    onUsage?: (usage: LLMUsage) => void
+  ): Promise<string> {
+    if (!this.apiKey) {
+      throw new Error('OpenRouter API key not configured');
+    }
+
+    const response = await this.http.fetchStream(OpenRouterProvider.API_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+        'HTTP-Referer': 'https://github.com/daily-kastenator',
+        'X-Title': 'Daily Kastenator',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: OpenRouterProvider.MAX_TOKENS,
+        stream: true,
+        usage: { include: true },
+        messages: toMessages(prompt),
+      }),
+      signal,
+    });
+
+    let text = '';
+    let usage: OpenRouterUsage | undefined;
+    await readServerSentEvents(
+      response,
+      ({ data }) => {
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data) as OpenRouterStreamChunk;
+        if (chunk.error) {
+          throw new Error(chunk.error.message);
+        }
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+        const token = chunk.choices?.[0]?.delta?.content ?? '';
+        if (token) {
+          text += token;
+          onToken(token);
+        }
+      },
+      signal
+    );
+
+    if (!text) {
+      throw new Error('No content in OpenRouter response');
+    }
+    if (usage) {
+      onUsage?.(this.toUsage(usage));
+    }
+    return text;
+  }
+
+  private toUsage(usage: OpenRouterUsage): LLMUsage {
+    return {
+      model: this.model,
+      inputTokens: usage.prompt_tokens ?? 0,
+      outputTokens: usage.completion_tokens ?? 0,
+      cost: usage.cost,
+    };
+  }
+
   /**
    * Update the model
    */
@@ -0,0 +1,44 @@
+/**
+ * Price of a model in US dollars per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/**
+ * Published list prices for the models offered in settings
+ *
+ * Estimates only: providers change prices and may discount or cache.
+ * OpenRouter reports the actual cost itself, which takes precedence.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  // Anthropic (direct)
+  'claude-sonnet-4-20250514': { input: 3, output: 15 },
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-5-haiku-20241022': { input: 0.8, output: 4 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+
+  // OpenRouter
+  'anthropic/claude-sonnet-4': { input: 3, output: 15 },
+  'anthropic/claude-3.5-sonnet': { input: 3, output: 15 },
+  'anthropic/claude-3.5-haiku': { input: 0.8, output: 4 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'google/gemini-pro-1.5': { input: 1.25, output: 5 },
+  'meta-llama/llama-3.1-70b-instruct': { input: 0.4, output: 0.4 },
+  'mistralai/mistral-large': { input: 2, output: 6 },
+};
+
+/**
+ * Estimate the cost of a call in US dollars, or null for an unknown model
+ */
+export function estimateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number
+): number | null {
+  const price = MODEL_PRICES[model];
+  if (!price) return null;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,175 @@
+import { ChatMessage } from '../../types';
+import { LLMPrompt } from './index';
+import { extractWords } from '../text';
+
+/** Rough characters per token, close enough for English and most European languages */
+const CHARS_PER_TOKEN = 4;
+
+/** Default budget for source note text in a prompt */
+export const DEFAULT_SOURCE_TOKENS = 1000;
+
+/** Marks where source paragraphs were left out */
+const OMISSION = '[…]';
+
+/**
+ * Values substituted into a prompt template
+ */
+export interface PromptVariables {
+  concept: string;
+  explanation: string;
+  evidence: string;
+  source: string;
+  related_atoms: string;
+}
+
+/**
+ * Built-in critique prompt; the criteria and response format are added after it
+ */
+export const DEFAULT_CRITIQUE_TEMPLATE = `You are a rigorous knowledge management assistant helping to atomise notes into discrete concepts.
+
+Evaluate the following atomic note candidate. Be direct and objective -- no praise, encouragement, or emotional padding. Focus only on issues that need addressing.
+
+## Source Note Context
+{{source}}
+
+## Candidate Atom
+**Concept:** {{concept}}
+**Explanation:** {{explanation}}
+**Evidence:** {{evidence}}`;
+
+/**
+ * Built-in concept suggestion prompt; the response format is added after it
+ */
+export const DEFAULT_CONCEPT_TEMPLATE = `You are a rigorous knowledge management assistant helping to atomise notes into discrete concepts.
+
+Read the source note below and list the distinct atomic concepts it contains. Each concept must express exactly one idea that could stand alone as its own note. Do not merge related ideas, and do not invent ideas the note does not contain.
+
+## Source Note
+{{source}}`;
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Remove frontmatter from a template note
+ */
+export function stripTemplateFrontmatter(content: string): string {
+  return content.replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, '').trim();
+}
+
+/**
+ * Substitute {{variables}} in a template, leaving unknown ones as they are
+ */
+export function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name)
+      ? variables[name as keyof PromptVariables]
+      : match
+  );
+}
+
+/**
+ * Format related atoms for a prompt
+ */
+export function formatRelatedAtoms(relatedAtoms: string[]): string {
+  return relatedAtoms.length > 0 ? relatedAtoms.map((a) => `[[${a}]]`).join(', ') : 'None';
+}
+
+/**
+ * Distinct content words of a text, in any script
+ */
+function getTerms(text: string): Set<string> {
+  return new Set(extractWords(text));
+}
+
+/**
+ * Fit source text into a token budget, keeping the most relevant paragraphs
+ *
+ * Paragraphs containing the evidence come first, then those sharing the
+ * most words with the query, then the earliest. The kept paragraphs stay
+ * in their original order with omissions marked. Without a query the
+ * note is kept from the top.
+ */
+export function truncateSource(
+  content: string,
+  query: { text?: string; evidence?: string } = {},
+  maxTokens: number = DEFAULT_SOURCE_TOKENS
+): string {
+  const source = content.trim();
+  if (estimateTokens(source) <= maxTokens) return source;
+
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const paragraphs = source.split(/\n\s*\n/).map((p) => p.trim()).filter((p) => p.length > 0);
+  const queryTerms = getTerms(`${query.text ?? ''} ${query.evidence ?? ''}`);
+  const evidence = query.evidence?.trim().toLowerCase() ?? '';
+
+  const ranked = paragraphs
+    .map((text, index) => {
+      const lower = text.toLowerCase();
+      const terms = getTerms(text);
+      let shared = 0;
+      for (const term of terms) {
+        if (queryTerms.has(term)) shared += 1;
+      }
+      return {
+        index,
+        length: text.length,
+        hasEvidence: evidence.length > 0 && lower.includes(evidence),
+        score: terms.size > 0 ? shared / Math.sqrt(terms.size) : 0,
+      };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.hasEvidence) - Number(a.hasEvidence) || b.score - a.score || a.index - b.index
+    );
+
+  // Leave room for a separator and omission mark around each paragraph
+  const overhead = OMISSION.length + 4;
+  const kept = new Set<number>();
+  let used = 0;
+  for (const paragraph of ranked) {
+    if (used + paragraph.length + overhead > maxChars) continue;
+    kept.add(paragraph.index);
+    used += paragraph.length + overhead;
+  }
+
+  if (kept.size === 0) {
+    const best = paragraphs[ranked[0].index];
+    return `${best.slice(0, maxChars - overhead).trimEnd()} ${OMISSION}`;
+  }
+
+  const parts: string[] = [];
+  let previous = -1;
+  for (const index of [...kept].sort((a, b) => a - b)) {
+    if (index > previous + 1) parts.push(OMISSION);
+    parts.push(paragraphs[index]);
+    previous = index;
+  }
+  if (previous < paragraphs.length - 1) parts.push(OMISSION);
+
+  return parts.join('\n\n');
+}
+
+/**
+ * A prompt as chat messages, for APIs that take a conversation
+ */
+export function toMessages(prompt: LLMPrompt): ChatMessage[] {
+  return typeof prompt === 'string' ? [{ role: 'user', content: prompt }] : prompt;
+}
+
+/**
+ * A prompt as a single text, for APIs that only take one
+ */
+export function toTranscript(prompt: LLMPrompt): string {
+  if (typeof prompt === 'string') return prompt;
+  if (prompt.length === 1) return prompt[0].content;
+
+  const turns = prompt.map(
+    ({ role, content }) => `${role === 'user' ? 'User' : 'Assistant'}: ${content}`
+  );
+  return `${turns.join('\n\n')}\n\nAssistant:`;
+}
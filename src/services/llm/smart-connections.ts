@@ -1,5 +1,6 @@
 import { App } from 'obsidian';
-import { LLMProvider, LLMProviderType } from './index';
+import { LLMPrompt, LLMProvider, LLMProviderType } from './index';
+import { toTranscript } from './prompts';
 
 /**
  * Smart Connections plugin interface (partial)
@@ -8,7 +9,7 @@ import { LLMProvider, LLMProviderType } from './index';
 interface SmartConnectionsPlugin {
   brain?: unknown;
   api?: {
-    search: (query: string) => Promise<Array<{ link: string }>>;
+    search: (query: string) => Promise<Array<{ link: string; score?: number }>>;
   };
   settings?: {
     chat_model_platform?: string;
@@ -16,6 +17,15 @@ interface SmartConnectionsPlugin {
   };
 }
 
+/**
+ * A note Smart Connections finds similar to a text
+ */
+export interface SimilarNote {
+  path: string;
+  /** Embedding similarity from 0 to 1, when Smart Connections reports it */
+  score: number | null;
+}
+
 /**
  * Global smart_env interface for completions
  */
@@ -72,10 +82,13 @@ export class SmartConnectionsProvider implements LLMProvider {
   /**
    * Get completion using Smart Connections' configured LLM
    */
-  async complete(prompt: string): Promise<string> {
+  async complete(prompt: LLMPrompt): Promise<string> {
+    // Smart Connections takes a single text, so conversations are flattened
+    const text = toTranscript(prompt);
+
     // Primary method: use global smart_env
     if (typeof window !== 'undefined' && window.smart_env?.complete) {
-      const result = await window.smart_env.complete(prompt);
+      const result = await window.smart_env.complete(text);
       return result;
     }
 
@@ -89,7 +102,7 @@ export class SmartConnectionsProvider implements LLMProvider {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const scAny = sc as any;
     if (typeof scAny.complete === 'function') {
-      return await scAny.complete(prompt);
+      return await scAny.complete(text);
     }
 
     throw new Error(
@@ -98,6 +111,23 @@ export class SmartConnectionsProvider implements LLMProvider {
     );
   }
 
+  /**
+   * Find notes similar to a text using Smart Connections' embeddings
+   *
+   * Returns an empty list when Smart Connections or its search API is
+   * missing, so callers can treat semantic matching as optional.
+   */
+  async findSimilar(query: string): Promise<SimilarNote[]> {
+    const sc = this.getPlugin();
+    if (!sc?.api?.search) return [];
+
+    const results = await sc.api.search(query);
+    return (results ?? []).map((result) => ({
+      path: result.link.split('#')[0],
+      score: typeof result.score === 'number' ? result.score : null,
+    }));
+  }
+
   /**
    * Get the Smart Connections plugin instance
    */
@@ -0,0 +1,112 @@
+/**
+ * Minimal server-sent events reader for streaming LLM responses
+ *
+ * Obsidian's `requestUrl` buffers the whole response, so streaming
+ * providers use `fetch` and read the body through this parser.
+ */
+
+import { readApiErrorMessage } from './errors';
+
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent {
+  /** Event name, `message` when the stream does not name it */
+  event: string;
+  data: string;
+}
+
+/**
+ * Incremental parser for an event stream
+ *
+ * Push text chunks as they arrive; complete events are returned as soon
+ * as their terminating blank line has been seen.
+ */
+export class ServerSentEventParser {
+  private buffer = '';
+  private event = '';
+  private data: string[] = [];
+
+  push(chunk: string): ServerSentEvent[] {
+    this.buffer += chunk;
+    const events: ServerSentEvent[] = [];
+
+    let newline: number;
+    while ((newline = this.buffer.search(/\r?\n/)) !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(this.buffer[newline] === '\r' ? newline + 2 : newline + 1);
+
+      if (line === '') {
+        if (this.data.length > 0) {
+          events.push({ event: this.event || 'message', data: this.data.join('\n') });
+        }
+        this.event = '';
+        this.data = [];
+      } else if (line.startsWith(':')) {
+        // Comment, e.g. a keep-alive
+        continue;
+      } else {
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        if (field === 'event') this.event = value;
+        if (field === 'data') this.data.push(value);
+      }
+    }
+
+    return events;
+  }
+}
+
+/**
+ * Read a fetch response body as server-sent events
+ *
+ * Resolves when the stream ends; rejects if the signal aborts.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new ServerSentEventParser();
+
+  try {
+    for (;;) {
+      if (signal?.aborted) {
+        throw new DOMException('Aborted', 'AbortError');
+      }
+
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      for (const event of parser.push(decoder.decode(value, { stream: true }))) {
+        onEvent(event);
+      }
+    }
+
+    // Flush an event left unterminated at the end of the stream
+    for (const event of parser.push('\n\n')) {
+      onEvent(event);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Read an error message from a failed streaming response
+ */
+export async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    return readApiErrorMessage(await response.json()) ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Reading and rewriting the migration field in note content
+ *
+ * The field may live in YAML frontmatter (`Migration: quarry`) or as a
+ * Dataview inline field in any of its forms (`Migration:: quarry`,
+ * `[Migration:: quarry]`, `(Migration:: quarry)`). Frontmatter is
+ * edited as an object through `processFrontMatter`; inline fields are
+ * rewritten in the note text.
+ */
+
+import { normaliseFieldKey, splitFieldValue } from './inline-fields';
+
+/**
+ * Where a note's migration status is stored
+ */
+export type StatusLocation = 'frontmatter' | 'inline';
+
+/**
+ * Escape a string for literal use in a regular expression
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the frontmatter key matching a field name case-insensitively
+ */
+export function findFrontmatterKey(
+  frontmatter: Record<string, unknown>,
+  field: string
+): string | null {
+  const normalised = normaliseFieldKey(field);
+  return Object.keys(frontmatter).find((key) => normaliseFieldKey(key) === normalised) ?? null;
+}
+
+/**
+ * Replace a migration value in a frontmatter object, in place
+ *
+ * Intended for use inside `processFrontMatter`. List values have the
+ * matching item replaced; scalar values are replaced outright.
+ */
+export function setFrontmatterValue(
+  frontmatter: Record<string, unknown>,
+  field: string,
+  from: string,
+  to: string
+): boolean {
+  const key = findFrontmatterKey(frontmatter, field);
+  if (!key) return false;
+
+  const value = frontmatter[key];
+  const matches = (item: unknown): boolean =>
+    String(item).trim().toLowerCase() === from.trim().toLowerCase();
+
+  if (Array.isArray(value)) {
+    if (!value.some(matches)) return false;
+    frontmatter[key] = value.map((item) => (matches(item) ? to : item));
+    return true;
+  }
+
+  if (!matches(value)) return false;
+  frontmatter[key] = to;
+  return true;
+}
+
+/**
+ * Merge new links into an existing list, keeping order and dropping duplicates
+ */
+export function mergeLinks(existing: unknown, links: string[]): string[] {
+  const current = Array.isArray(existing)
+    ? existing.map(String)
+    : typeof existing === 'string' && existing.trim()
+      ? splitFieldValue(existing)
+      : [];
+
+  return Array.from(new Set([...current, ...links]));
+}
+
+/**
+ * Replace every inline field occurrence of a value
+ */
+export function replaceInlineValue(
+  content: string,
+  field: string,
+  from: string,
+  to: string
+): string {
+  const pattern = new RegExp(
+    `((?:\\*\\*|__)?(?<![\\w-])${escapeRegExp(field)}(?:\\*\\*|__)?::[ \\t]*)${escapeRegExp(from)}(?=[ \\t]*(?:[\\]),]|$))`,
+    'gim'
+  );
+  return content.replace(pattern, (_m, prefix) => `${prefix}${to}`);
+}
+
+/**
+ * Set a line-form inline field, replacing it if present
+ *
+ * New fields are inserted after the line holding the anchor field, or
+ * appended to the note when the anchor is not found.
+ */
+export function upsertInlineField(
+  content: string,
+  field: string,
+  value: string,
+  anchorField: string
+): string {
+  const existing = new RegExp(
+    `^([ \\t]*(?:\\*\\*|__)?(?<![\\w-])${escapeRegExp(field)}(?:\\*\\*|__)?::)[^\\n]*$`,
+    'im'
+  );
+  if (existing.test(content)) {
+    return content.replace(existing, (_m, prefix) => `${prefix} ${value}`);
+  }
+
+  const line = `${field}:: ${value}`;
+  const anchor = new RegExp(
+    `^.*(?:\\*\\*|__)?(?<![\\w-])${escapeRegExp(anchorField)}(?:\\*\\*|__)?::.*$`,
+    'im'
+  );
+  const match = anchor.exec(content);
+  if (match) {
+    const end = match.index + match[0].length;
+    return `${content.slice(0, end)}\n${line}${content.slice(end)}`;
+  }
+
+  return content.endsWith('\n') ? `${content}${line}\n` : `${content}\n${line}`;
+}
@@ -0,0 +1,235 @@
+import { AtomisationPhase, PhaseTimes } from '../types';
+import { LedgerSession } from './session-ledger';
+import { addDays, startOfWeek, toDateKey } from './dates';
+
+/** Days shown in the atoms-per-day chart */
+const DAYS_SHOWN = 14;
+
+/** Weeks shown in the atoms-per-week chart */
+const WEEKS_SHOWN = 8;
+
+/** Phases in the order they happen, for listing time spent in each */
+export const PHASE_ORDER: AtomisationPhase[] = [
+  'introduction',
+  'identification',
+  'explanation',
+  'critique',
+  'refinement',
+  'confirmation',
+  'creation',
+];
+
+/**
+ * A count for a day, or for the week starting on it
+ */
+export interface DayCount {
+  /** Local day (YYYY-MM-DD) */
+  date: string;
+  count: number;
+}
+
+/**
+ * Current and longest runs of consecutive days with a completed session
+ */
+export interface Streaks {
+  /** Run ending today, or yesterday if today has no session yet */
+  current: number;
+  longest: number;
+}
+
+/**
+ * Progress figures for the dashboard
+ */
+export interface ProgressStats {
+  /** Quarry size on each day it was recorded, oldest first */
+  quarrySizes: DayCount[];
+  /** Atoms created on each of the last days, oldest first */
+  atomsPerDay: DayCount[];
+  /** Atoms created in each of the last weeks, keyed by their Monday */
+  atomsPerWeek: DayCount[];
+  streaks: Streaks;
+  /** Atoms created per source note atomised */
+  averageAtomsPerSource: number;
+  /** Share of finished sessions that were completed rather than cancelled */
+  completionRate: number | null;
+  /** Average milliseconds per session spent in each phase */
+  averagePhaseTimes: PhaseTimes;
+  completedSessions: number;
+  abandonedSessions: number;
+  totalAtoms: number;
+}
+
+/**
+ * Local day a session ended on, or started on if it has not ended
+ */
+function getEndDate(session: LedgerSession): string {
+  return session.endedAt ? toDateKey(session.endedAt) : session.date;
+}
+
+/**
+ * Quarry size on each day it was recorded, ending with today's if known
+ *
+ * The size is recorded as each session starts; the last one of a day counts.
+ */
+export function getQuarrySizes(
+  sessions: LedgerSession[],
+  currentSize?: number,
+  today: Date = new Date()
+): DayCount[] {
+  const sizes = new Map<string, number>();
+  for (const session of sessions) {
+    if (session.quarrySize !== undefined) {
+      sizes.set(session.date, session.quarrySize);
+    }
+  }
+  if (currentSize !== undefined) {
+    sizes.set(toDateKey(today), currentSize);
+  }
+
+  return [...sizes.entries()]
+    .map(([date, count]) => ({ date, count }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Atoms created on each of the last days, including days with none
+ */
+export function countAtomsByDay(
+  sessions: LedgerSession[],
+  today: Date = new Date(),
+  days: number = DAYS_SHOWN
+): DayCount[] {
+  const counts = new Map<string, number>();
+  for (let i = days - 1; i >= 0; i--) {
+    counts.set(toDateKey(addDays(today, -i)), 0);
+  }
+
+  for (const session of sessions) {
+    const date = getEndDate(session);
+    if (session.status === 'completed' && counts.has(date)) {
+      counts.set(date, (counts.get(date) ?? 0) + session.atoms.length);
+    }
+  }
+
+  return [...counts.entries()].map(([date, count]) => ({ date, count }));
+}
+
+/**
+ * Atoms created in each of the last weeks, including weeks with none
+ */
+export function countAtomsByWeek(
+  sessions: LedgerSession[],
+  today: Date = new Date(),
+  weeks: number = WEEKS_SHOWN
+): DayCount[] {
+  const thisWeek = startOfWeek(today);
+  const counts = new Map<string, number>();
+  for (let i = weeks - 1; i >= 0; i--) {
+    counts.set(toDateKey(addDays(thisWeek, -7 * i)), 0);
+  }
+
+  for (const session of sessions) {
+    if (session.status !== 'completed') continue;
+
+    const week = toDateKey(startOfWeek(session.endedAt ?? session.startedAt));
+    if (counts.has(week)) {
+      counts.set(week, (counts.get(week) ?? 0) + session.atoms.length);
+    }
+  }
+
+  return [...counts.entries()].map(([date, count]) => ({ date, count }));
+}
+
+/**
+ * Runs of consecutive days on which a session was completed
+ */
+export function getStreaks(sessions: LedgerSession[], today: Date = new Date()): Streaks {
+  const days = new Set(
+    sessions.filter((session) => session.status === 'completed').map(getEndDate)
+  );
+
+  let longest = 0;
+  for (const day of days) {
+    const [year, month, date] = day.split('-').map(Number);
+    const start = new Date(year, month - 1, date);
+    // Only count runs from their first day
+    if (days.has(toDateKey(addDays(start, -1)))) continue;
+
+    let length = 1;
+    while (days.has(toDateKey(addDays(start, length)))) {
+      length++;
+    }
+    longest = Math.max(longest, length);
+  }
+
+  // Today still counts towards the streak until it is over
+  let day = days.has(toDateKey(today)) ? today : addDays(today, -1);
+  let current = 0;
+  while (days.has(toDateKey(day))) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  return { current, longest };
+}
+
+/**
+ * Average milliseconds per session spent in each phase
+ *
+ * Covers finished sessions that recorded their phase times.
+ */
+export function getAveragePhaseTimes(sessions: LedgerSession[]): PhaseTimes {
+  const timed = sessions.filter((session) => session.phaseTimes);
+  if (timed.length === 0) return {};
+
+  const averages: PhaseTimes = {};
+  for (const phase of PHASE_ORDER) {
+    const total = timed.reduce((sum, session) => sum + (session.phaseTimes?.[phase] ?? 0), 0);
+    if (total > 0) {
+      averages[phase] = total / timed.length;
+    }
+  }
+  return averages;
+}
+
+/**
+ * Work out the dashboard figures from the session history
+ */
+export function computeProgress(
+  sessions: LedgerSession[],
+  currentQuarrySize?: number,
+  today: Date = new Date()
+): ProgressStats {
+  const completed = sessions.filter((session) => session.status === 'completed');
+  const abandoned = sessions.filter((session) => session.status === 'abandoned');
+  const totalAtoms = completed.reduce((sum, session) => sum + session.atoms.length, 0);
+  const sources = new Set(completed.map((session) => session.source));
+  const finished = completed.length + abandoned.length;
+
+  return {
+    quarrySizes: getQuarrySizes(sessions, currentQuarrySize, today),
+    atomsPerDay: countAtomsByDay(sessions, today),
+    atomsPerWeek: countAtomsByWeek(sessions, today),
+    streaks: getStreaks(sessions, today),
+    averageAtomsPerSource: sources.size > 0 ? totalAtoms / sources.size : 0,
+    completionRate: finished > 0 ? completed.length / finished : null,
+    averagePhaseTimes: getAveragePhaseTimes([...completed, ...abandoned]),
+    completedSessions: completed.length,
+    abandonedSessions: abandoned.length,
+    totalAtoms,
+  };
+}
+
+/**
+ * Format a duration briefly, e.g. "1h 5m", "12m" or "40s"
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
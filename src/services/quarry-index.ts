@@ -0,0 +1,201 @@
+import { App, TFile } from 'obsidian';
+import { KastenatorSettings, DataviewApi } from '../types';
+import {
+  parseInlineFields,
+  getFieldValues,
+  getFrontmatterValues,
+  hasFieldValue,
+} from './inline-fields';
+
+/**
+ * In-memory index of quarry notes
+ *
+ * Built once with a full scan, then kept current by vault and metadata
+ * events. Events only mark paths as dirty; dirty paths are re-evaluated
+ * the next time the index is queried, so bursts of edits cost nothing
+ * until the quarry is actually needed. Note content is never held here.
+ */
+export class QuarryIndex {
+  private app: App;
+  private settings: KastenatorSettings;
+  private members: Map<string, TFile> = new Map();
+  private dirty: Set<string> = new Set();
+  private built = false;
+  private building: Promise<void> | null = null;
+  /** Bumped by reset, so a scan started under old criteria is redone */
+  private generation = 0;
+
+  constructor(app: App, settings: KastenatorSettings) {
+    this.app = app;
+    this.settings = settings;
+  }
+
+  /**
+   * Update settings, rebuilding only if quarry criteria changed
+   */
+  updateSettings(settings: KastenatorSettings): void {
+    const previous = this.settings;
+    this.settings = settings;
+
+    const criteriaChanged =
+      previous.migrationField !== settings.migrationField ||
+      previous.quarryValue !== settings.quarryValue ||
+      previous.quarryFolders.join('\n') !== settings.quarryFolders.join('\n');
+
+    if (criteriaChanged) {
+      this.reset();
+    }
+  }
+
+  /**
+   * Discard the index so the next query rebuilds it
+   */
+  reset(): void {
+    this.generation++;
+    this.built = false;
+    this.members.clear();
+    this.dirty.clear();
+  }
+
+  /**
+   * Build the index with a full scan of the quarry folders
+   */
+  async build(): Promise<void> {
+    if (this.building) return this.building;
+
+    this.building = (async () => {
+      let generation: number;
+      let members: Map<string, TFile>;
+
+      // Start over if the criteria change mid-scan
+      do {
+        generation = this.generation;
+        members = new Map<string, TFile>();
+        this.dirty.clear();
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+          if (await this.evaluate(file)) {
+            members.set(file.path, file);
+          }
+          if (generation !== this.generation) break;
+        }
+      } while (generation !== this.generation);
+
+      this.members = members;
+      this.built = true;
+    })();
+
+    try {
+      await this.building;
+    } finally {
+      this.building = null;
+    }
+  }
+
+  /**
+   * Build if needed and re-evaluate any paths changed since the last query
+   */
+  async refresh(): Promise<void> {
+    if (!this.built) {
+      await this.build();
+    }
+
+    const paths = Array.from(this.dirty);
+    this.dirty.clear();
+
+    for (const path of paths) {
+      const file = this.app.vault.getAbstractFileByPath(path);
+      if (file instanceof TFile && (await this.evaluate(file))) {
+        this.members.set(path, file);
+      } else {
+        this.members.delete(path);
+      }
+    }
+  }
+
+  /**
+   * Get all indexed quarry files
+   */
+  async getFiles(): Promise<TFile[]> {
+    await this.refresh();
+    return Array.from(this.members.values());
+  }
+
+  /**
+   * Check whether a path is in the quarry
+   */
+  async has(path: string): Promise<boolean> {
+    await this.refresh();
+    return this.members.has(path);
+  }
+
+  /**
+   * Mark a file as needing re-evaluation (create, modify, metadata change)
+   */
+  markDirty(path: string): void {
+    this.dirty.add(path);
+  }
+
+  /**
+   * Follow a renamed or moved file
+   */
+  handleRename(file: TFile, oldPath: string): void {
+    this.members.delete(oldPath);
+    this.dirty.delete(oldPath);
+    this.markDirty(file.path);
+  }
+
+  /**
+   * Forget a deleted file
+   */
+  handleDelete(path: string): void {
+    this.members.delete(path);
+    this.dirty.delete(path);
+  }
+
+  /**
+   * Check whether a file meets the quarry criteria
+   */
+  private async evaluate(file: TFile): Promise<boolean> {
+    const { migrationField, quarryValue, quarryFolders } = this.settings;
+
+    if (file.extension !== 'md') return false;
+
+    const inQuarryFolder = quarryFolders.some((folder) =>
+      file.path.startsWith(folder + '/')
+    );
+    if (!inQuarryFolder) return false;
+
+    // Prefer Dataview's view of the page when it has indexed it
+    const page = this.getDataviewApi()?.page(file.path);
+    if (page) {
+      return hasFieldValue(getFrontmatterValues(page, migrationField), quarryValue);
+    }
+
+    const cache = this.app.metadataCache.getFileCache(file);
+    if (!cache) return false;
+
+    if (hasFieldValue(getFrontmatterValues(cache.frontmatter, migrationField), quarryValue)) {
+      return true;
+    }
+
+    // Inline fields (Dataview syntax: Field:: value) need the file content
+    try {
+      const content = await this.app.vault.cachedRead(file);
+      const fields = parseInlineFields(content);
+      return hasFieldValue(getFieldValues(fields, migrationField), quarryValue);
+    } catch {
+      console.error(`Failed to read inline fields: ${file.path}`);
+      return false;
+    }
+  }
+
+  /**
+   * Get the Dataview API if available
+   */
+  private getDataviewApi(): DataviewApi | null {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const dv = (this.app as any).plugins?.plugins?.dataview?.api;
+    return dv ?? null;
+  }
+}
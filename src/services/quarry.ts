@@ -1,5 +1,38 @@
-import { App, TFile, CachedMetadata } from 'obsidian';
-import { KastenatorSettings, QuarryNote, DataviewApi } from '../types';
+import { App, Plugin, TFile } from 'obsidian';
+import { KastenatorSettings, QuarryNote, MigrationEvent } from '../types';
+import { WeightedSelector } from './selection';
+import { QuarryIndex } from './quarry-index';
+import { canTransition, getEventTarget, DEFAULT_MIGRATION_LIFECYCLE } from './lifecycle';
+import {
+  StatusLocation,
+  replaceInlineValue,
+  setFrontmatterValue,
+  findFrontmatterKey,
+  mergeLinks,
+  upsertInlineField,
+} from './migration-status';
+import {
+  AtomLinkEntry,
+  findPassageEnd,
+  ensureBlockId,
+  upsertAtomsSection,
+} from './source-links';
+import { parseInlineFields, getFieldValues, getFrontmatterValues } from './inline-fields';
+import { toDateKey } from './dates';
+
+/** Property recording when a note was atomised */
+export const ATOMISED_ON_FIELD = 'atomised-on';
+
+/** Property listing links to the atoms created from a note */
+export const ATOMS_FIELD = 'atoms';
+
+/**
+ * A note's current migration value and where it is stored
+ */
+export interface MigrationStatus {
+  value: string;
+  location: StatusLocation;
+}
 
 /**
  * Service for finding and managing quarry notes
@@ -7,17 +40,22 @@ import { KastenatorSettings, QuarryNote, DataviewApi } from '../types';
  * Quarry notes are notes marked with Migration:: quarry that are
  * candidates for atomisation into atomic notes.
  *
- * Note: This implementation supports both Dataview-based queries
- * and fallback to native Obsidian metadata cache for vaults
- * without Dataview installed.
+ * Note: Membership is answered from an in-memory QuarryIndex, which
+ * uses Dataview when installed and otherwise reads frontmatter and
+ * inline fields itself. Note content is only read when a QuarryNote
+ * is actually needed.
  */
 export class QuarryService {
   private app: App;
   private settings: KastenatorSettings;
+  private selector: WeightedSelector;
+  private index: QuarryIndex;
 
   constructor(app: App, settings: KastenatorSettings) {
     this.app = app;
     this.settings = settings;
+    this.selector = new WeightedSelector(app, settings);
+    this.index = new QuarryIndex(app, settings);
   }
 
   /**
@@ -25,116 +63,74 @@ export class QuarryService {
    */
   updateSettings(settings: KastenatorSettings): void {
     this.settings = settings;
+    this.selector.updateSettings(settings);
+    this.index.updateSettings(settings);
   }
 
   /**
-   * Get the Dataview API if available
+   * Keep the quarry index current with vault and metadata events
    */
-  private getDataviewApi(): DataviewApi | null {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const dv = (this.app as any).plugins?.plugins?.dataview?.api;
-    return dv ?? null;
+  registerEvents(plugin: Plugin): void {
+    const { vault, metadataCache, workspace } = this.app;
+
+    plugin.registerEvent(
+      vault.on('create', (file) => this.index.markDirty(file.path))
+    );
+    plugin.registerEvent(
+      vault.on('modify', (file) => this.index.markDirty(file.path))
+    );
+    plugin.registerEvent(
+      vault.on('rename', (file, oldPath) => {
+        if (file instanceof TFile) {
+          this.index.handleRename(file, oldPath);
+        }
+      })
+    );
+    plugin.registerEvent(
+      vault.on('delete', (file) => this.index.handleDelete(file.path))
+    );
+    plugin.registerEvent(
+      metadataCache.on('changed', (file) => this.index.markDirty(file.path))
+    );
+
+    // Build up front so the first ribbon click is fast
+    workspace.onLayoutReady(() => {
+      this.index.build().catch((error) => {
+        console.error('Failed to build quarry index', error);
+      });
+    });
   }
 
   /**
-   * Get all notes matching quarry criteria
+   * Re-evaluate a file's quarry status on the next query
    */
-  async getAllQuarryNotes(): Promise<QuarryNote[]> {
-    const dv = this.getDataviewApi();
-
-    if (dv) {
-      return this.getQuarryNotesDataview(dv);
-    }
-    return this.getQuarryNotesFallback();
+  invalidate(path: string): void {
+    this.index.markDirty(path);
   }
 
   /**
-   * Get quarry notes using Dataview API
+   * Get all quarry files without reading their content
    */
-  private async getQuarryNotesDataview(dv: DataviewApi): Promise<QuarryNote[]> {
-    const quarryNotes: QuarryNote[] = [];
-    const { migrationField, quarryValue, quarryFolders } = this.settings;
-
-    for (const folder of quarryFolders) {
-      try {
-        const pages = dv.pages(`"${folder}"`);
-        const filtered = pages.where((page) => {
-          const fieldValue = page[migrationField];
-          return fieldValue === quarryValue;
-        });
-
-        for (const page of filtered) {
-          const file = this.app.vault.getAbstractFileByPath(page.file.path);
-          if (file instanceof TFile) {
-            const quarryNote = await this.buildQuarryNote(file);
-            if (quarryNote) {
-              quarryNotes.push(quarryNote);
-            }
-          }
-        }
-      } catch {
-        // Folder might not exist, continue
-        console.debug(`Quarry folder not found: ${folder}`);
-      }
-    }
-
-    return quarryNotes;
+  async getQuarryFiles(): Promise<TFile[]> {
+    return this.index.getFiles();
   }
 
   /**
-   * Fallback method using Obsidian's metadata cache
+   * Get all notes matching quarry criteria
    */
-  private async getQuarryNotesFallback(): Promise<QuarryNote[]> {
+  async getAllQuarryNotes(): Promise<QuarryNote[]> {
     const quarryNotes: QuarryNote[] = [];
-    const { migrationField, quarryValue, quarryFolders } = this.settings;
-    const files = this.app.vault.getMarkdownFiles();
-
-    for (const file of files) {
-      // Check if file is in a quarry folder
-      const inQuarryFolder = quarryFolders.some((folder) =>
-        file.path.startsWith(folder + '/')
-      );
-
-      if (!inQuarryFolder) continue;
 
-      // Check metadata cache for the migration field
-      const cache = this.app.metadataCache.getFileCache(file);
-      if (!cache) continue;
-
-      const hasQuarryStatus = this.checkQuarryStatus(cache, migrationField, quarryValue);
-
-      if (hasQuarryStatus) {
-        const quarryNote = await this.buildQuarryNote(file);
-        if (quarryNote) {
-          quarryNotes.push(quarryNote);
-        }
+    for (const file of await this.index.getFiles()) {
+      const quarryNote = await this.buildQuarryNote(file);
+      if (quarryNote) {
+        quarryNotes.push(quarryNote);
       }
     }
 
     return quarryNotes;
   }
 
-  /**
-   * Check if a file has the quarry status in its metadata
-   */
-  private checkQuarryStatus(
-    cache: CachedMetadata,
-    field: string,
-    value: string
-  ): boolean {
-    // Check frontmatter
-    if (cache.frontmatter?.[field] === value) {
-      return true;
-    }
-
-    // Check inline fields (Dataview syntax: Field:: value)
-    // These appear in the sections/content, need to parse manually
-    // For now, we check frontmatter only in fallback mode
-    // Full inline field support requires reading file content
-
-    return false;
-  }
-
   /**
    * Build a QuarryNote object from a TFile
    */
@@ -159,42 +155,216 @@ export class QuarryService {
   /**
    * Get a random note from the quarry
    *
-   * V1: Pure random selection
-   * Future: Will use file mod times, git logs, etc. for semantic selection
+   * Uses a weighted draw over the configured selection strategies
+   * (age, staleness, length, backlinks, skips). Notes in excludePaths,
+   * such as ones already offered, are left out.
    */
-  async getRandomQuarryNote(): Promise<QuarryNote | null> {
-    const notes = await this.getAllQuarryNotes();
+  async getRandomQuarryNote(excludePaths: string[] = []): Promise<QuarryNote | null> {
+    const excluded = new Set(excludePaths);
+    const files = (await this.index.getFiles()).filter((file) => !excluded.has(file.path));
 
-    if (notes.length === 0) {
+    const picked = this.selector.pick(files);
+    if (!picked) {
       return null;
     }
 
-    // V1: Simple random selection
-    const randomIndex = Math.floor(Math.random() * notes.length);
-    return notes[randomIndex];
+    return this.buildQuarryNote(picked);
   }
 
   /**
    * Check if a specific file is a quarry note
    */
   async isQuarryNote(file: TFile): Promise<boolean> {
-    const notes = await this.getAllQuarryNotes();
-    return notes.some((note) => note.file.path === file.path);
+    return this.index.has(file.path);
   }
 
   /**
-   * Update a note's migration status after atomisation
+   * Read a note's migration status from frontmatter or inline fields
    */
-  async markAsAtomised(file: TFile): Promise<void> {
+  async getMigrationStatus(file: TFile): Promise<MigrationStatus | null> {
+    const { migrationField } = this.settings;
+
+    const cache = this.app.metadataCache.getFileCache(file);
+    const frontmatterValues = getFrontmatterValues(cache?.frontmatter, migrationField);
+    if (frontmatterValues.length > 0) {
+      return { value: frontmatterValues[0], location: 'frontmatter' };
+    }
+
     const content = await this.app.vault.read(file);
+    const inlineValues = getFieldValues(parseInlineFields(content), migrationField);
+    if (inlineValues.length > 0) {
+      return { value: inlineValues[0], location: 'inline' };
+    }
+
+    return null;
+  }
+
+  /**
+   * Move a note to a new migration value, if the lifecycle allows it
+   *
+   * Returns false when the note has no migration field or the
+   * transition is not allowed.
+   */
+  async setMigrationStatus(file: TFile, to: string): Promise<boolean> {
+    const { migrationField } = this.settings;
+    const lifecycle = this.settings.migrationLifecycle ?? DEFAULT_MIGRATION_LIFECYCLE;
+
+    const current = await this.getMigrationStatus(file);
+    if (!current) return false;
 
-    // Replace Migration:: quarry with Migration:: atomised
-    const { migrationField, quarryValue } = this.settings;
-    const pattern = new RegExp(`${migrationField}::\\s*${quarryValue}`, 'g');
-    const newContent = content.replace(pattern, `${migrationField}:: atomised`);
+    if (!canTransition(lifecycle, current.value, to)) {
+      console.warn(
+        `Migration transition not allowed for ${file.path}: ${current.value} -> ${to}`
+      );
+      return false;
+    }
+
+    const updated =
+      current.location === 'frontmatter'
+        ? await this.updateFrontmatter(file, (frontmatter) =>
+            setFrontmatterValue(frontmatter, migrationField, current.value, to)
+          )
+        : await this.updateContent(file, (content) =>
+            replaceInlineValue(content, migrationField, current.value, to)
+          );
+
+    if (updated) {
+      this.index.markDirty(file.path);
+    }
+    return updated;
+  }
+
+  /**
+   * Apply the lifecycle transition configured for a session event
+   */
+  async applyLifecycleEvent(file: TFile, event: MigrationEvent): Promise<boolean> {
+    const lifecycle = this.settings.migrationLifecycle ?? DEFAULT_MIGRATION_LIFECYCLE;
+    const target = getEventTarget(lifecycle, event);
+    if (!target) return false;
+
+    return this.setMigrationStatus(file, target);
+  }
+
+  /**
+   * Update a note's migration status after atomisation
+   *
+   * Also stamps the date and links to the created atoms.
+   */
+  async markAsAtomised(
+    file: TFile,
+    atoms: TFile[] = [],
+    evidence: Record<string, string> = {}
+  ): Promise<boolean> {
+    const updated = await this.applyLifecycleEvent(file, 'complete');
+    await this.recordAtoms(file, atoms, evidence);
+    return updated;
+  }
+
+  /**
+   * Stamp `atomised-on` and link the created atoms from the source note
+   *
+   * The date is written next to the migration field: as a property when
+   * it lives in frontmatter, otherwise as an inline field. Atom links go
+   * into an `atoms` list beside it, or into an "Atoms" section when
+   * configured, optionally pointing at the evidence passages by block
+   * reference. `evidence` maps atom paths to their evidence text.
+   */
+  async recordAtoms(
+    file: TFile,
+    atoms: TFile[],
+    evidence: Record<string, string> = {},
+    today: Date = new Date()
+  ): Promise<void> {
+    if (atoms.length === 0) return;
 
-    if (newContent !== content) {
-      await this.app.vault.modify(file, newContent);
+    const { migrationField, sourceAtomLinks } = this.settings;
+    const date = toDateKey(today);
+    const links = atoms.map((atom) => `[[${atom.basename}]]`);
+    const listLinks = sourceAtomLinks !== 'section';
+    const status = await this.getMigrationStatus(file);
+
+    if (status?.location === 'inline') {
+      await this.updateContent(file, (content) => {
+        let updated = upsertInlineField(content, ATOMISED_ON_FIELD, date, migrationField);
+        if (listLinks) {
+          const existing = getFieldValues(parseInlineFields(content), ATOMS_FIELD);
+          const merged = mergeLinks(existing, links).join(', ');
+          updated = upsertInlineField(updated, ATOMS_FIELD, merged, ATOMISED_ON_FIELD);
+        }
+        return updated;
+      });
+    } else {
+      await this.updateFrontmatter(file, (frontmatter) => {
+        const dateKey = findFrontmatterKey(frontmatter, ATOMISED_ON_FIELD) ?? ATOMISED_ON_FIELD;
+        frontmatter[dateKey] = date;
+        if (listLinks) {
+          const atomsKey = findFrontmatterKey(frontmatter, ATOMS_FIELD) ?? ATOMS_FIELD;
+          frontmatter[atomsKey] = mergeLinks(frontmatter[atomsKey], links);
+        }
+        return true;
+      });
     }
+
+    if (!listLinks) {
+      await this.updateContent(file, (content) => this.addAtomsSection(content, atoms, evidence));
+    }
+  }
+
+  /**
+   * Add the atoms to the source's "Atoms" section, with evidence block refs if enabled
+   */
+  private addAtomsSection(
+    content: string,
+    atoms: TFile[],
+    evidence: Record<string, string>
+  ): string {
+    const entries: AtomLinkEntry[] = [];
+
+    for (const atom of atoms) {
+      const entry: AtomLinkEntry = { linktext: atom.basename };
+      const passage = evidence[atom.path];
+
+      if (this.settings.linkEvidenceBlocks && passage) {
+        const end = findPassageEnd(content, passage);
+        if (end !== null) {
+          const result = ensureBlockId(content, end);
+          content = result.content;
+          entry.blockId = result.blockId;
+        }
+      }
+
+      entries.push(entry);
+    }
+
+    return upsertAtomsSection(content, entries);
+  }
+
+  /**
+   * Edit a note's frontmatter through Obsidian's YAML writer
+   */
+  private async updateFrontmatter(
+    file: TFile,
+    edit: (frontmatter: Record<string, unknown>) => boolean
+  ): Promise<boolean> {
+    let changed = false;
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      changed = edit(frontmatter);
+    });
+    return changed;
+  }
+
+  /**
+   * Rewrite a note's text, writing only if it changed
+   */
+  private async updateContent(
+    file: TFile,
+    edit: (content: string) => string
+  ): Promise<boolean> {
+    const content = await this.app.vault.read(file);
+    const newContent = edit(content);
+    if (newContent === content) return false;
+
+    await this.app.vault.modify(file, newContent);
+    return true;
   }
 }
@@ -0,0 +1,174 @@
+import { TFile } from 'obsidian';
+import { KastenatorSettings, AtomCandidate, ReviewCard, ReviewGrade } from '../types';
+import { addDays, toDateKey } from './dates';
+
+/**
+ * SM-2 quality score for each grade (0-5 scale)
+ */
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+const INITIAL_EASE = 2.5;
+const MINIMUM_EASE = 1.3;
+
+/**
+ * Apply an SM-2 review to a card, returning the updated card
+ */
+export function scheduleReview(
+  card: ReviewCard,
+  grade: ReviewGrade,
+  today: Date = new Date()
+): ReviewCard {
+  const quality = GRADE_QUALITY[grade];
+  let { ease, interval, repetitions } = card;
+
+  if (quality < 3) {
+    // Failed recall: start the sequence again
+    repetitions = 0;
+    interval = 1;
+  } else {
+    if (repetitions === 0) {
+      interval = 1;
+    } else if (repetitions === 1) {
+      interval = 6;
+    } else {
+      interval = Math.round(interval * ease);
+    }
+    repetitions += 1;
+  }
+
+  ease = Math.max(
+    MINIMUM_EASE,
+    ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  return {
+    ...card,
+    ease,
+    interval,
+    repetitions,
+    due: toDateKey(addDays(today, interval)),
+    lastReviewed: toDateKey(today),
+  };
+}
+
+/**
+ * Tracks created atoms for spaced-repetition review
+ *
+ * Cards live in plugin data. Each review asks the user to re-explain
+ * the atom from its title alone and grade their recall against the
+ * explanation saved at creation.
+ */
+export class ReviewService {
+  private settings: KastenatorSettings;
+  private persist: () => Promise<void>;
+
+  constructor(settings: KastenatorSettings, persist: () => Promise<void>) {
+    this.settings = settings;
+    this.persist = persist;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: KastenatorSettings): void {
+    this.settings = settings;
+  }
+
+  private get cards(): ReviewCard[] {
+    if (!this.settings.reviewCards) {
+      this.settings.reviewCards = [];
+    }
+    return this.settings.reviewCards;
+  }
+
+  /**
+   * Start tracking a newly created atom; first review is due tomorrow
+   */
+  async addAtom(
+    file: TFile,
+    candidate: AtomCandidate,
+    today: Date = new Date()
+  ): Promise<ReviewCard> {
+    const card: ReviewCard = {
+      atomPath: file.path,
+      title: file.basename,
+      explanation: candidate.explanation,
+      ease: INITIAL_EASE,
+      interval: 0,
+      repetitions: 0,
+      due: toDateKey(addDays(today, 1)),
+    };
+
+    const existing = this.cards.findIndex((c) => c.atomPath === file.path);
+    if (existing === -1) {
+      this.cards.push(card);
+    } else {
+      this.cards[existing] = card;
+    }
+
+    await this.persist();
+    return card;
+  }
+
+  /**
+   * Get all cards due on or before the given day, oldest first
+   */
+  getDueCards(today: Date = new Date()): ReviewCard[] {
+    const todayKey = toDateKey(today);
+    return this.cards
+      .filter((c) => c.due <= todayKey)
+      .sort((a, b) => a.due.localeCompare(b.due));
+  }
+
+  /**
+   * Count cards due on or before the given day
+   */
+  getDueCount(today: Date = new Date()): number {
+    return this.getDueCards(today).length;
+  }
+
+  /**
+   * Record a review grade for an atom
+   */
+  async grade(
+    atomPath: string,
+    grade: ReviewGrade,
+    today: Date = new Date()
+  ): Promise<ReviewCard | null> {
+    const index = this.cards.findIndex((c) => c.atomPath === atomPath);
+    if (index === -1) return null;
+
+    const updated = scheduleReview(this.cards[index], grade, today);
+    this.cards[index] = updated;
+    await this.persist();
+    return updated;
+  }
+
+  /**
+   * Follow an atom that was renamed or moved
+   */
+  async renameAtom(oldPath: string, newPath: string, newTitle: string): Promise<void> {
+    const card = this.cards.find((c) => c.atomPath === oldPath);
+    if (!card) return;
+
+    card.atomPath = newPath;
+    card.title = newTitle;
+    await this.persist();
+  }
+
+  /**
+   * Stop tracking an atom (e.g. after it was deleted)
+   */
+  async removeAtom(atomPath: string): Promise<void> {
+    const index = this.cards.findIndex((c) => c.atomPath === atomPath);
+    if (index === -1) return;
+
+    this.cards.splice(index, 1);
+    await this.persist();
+  }
+}
@@ -1,5 +1,50 @@
 import { Plugin } from 'obsidian';
-import { KastenatorSettings } from '../types';
+import { KastenatorSettings, QuietHours, TimeOfDay } from '../types';
+import { addDays, atTimeOfDay, toDateKey } from './dates';
+import { SessionLedger } from './session-ledger';
+
+/** Every day of the week, Sunday first */
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+/** Days ahead to look for the next slot, enough to reach the same weekday again */
+const SEARCH_DAYS = 7;
+
+/** Minutes after a slot during which a missed notification still fires */
+const CATCH_UP_MINUTES = 30;
+
+/**
+ * Times of day to notify at, earliest first
+ *
+ * Falls back to the single notificationHour and notificationMinute.
+ */
+export function getNotificationSlots(settings: KastenatorSettings): TimeOfDay[] {
+  const slots = settings.notificationSlots?.length
+    ? settings.notificationSlots
+    : [{ hour: settings.notificationHour, minute: settings.notificationMinute }];
+  return [...slots].sort((a, b) => toMinutes(a) - toMinutes(b));
+}
+
+/**
+ * Whether a time falls within quiet hours
+ */
+export function isQuietTime(time: Date, quietHours: QuietHours | null | undefined): boolean {
+  if (!quietHours) return false;
+
+  const minutes = time.getHours() * 60 + time.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+
+  // Quiet hours such as 22:00-07:00 span midnight
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+}
+
+/**
+ * Minutes since midnight of a time of day
+ */
+function toMinutes(time: TimeOfDay): number {
+  return time.hour * 60 + time.minute;
+}
 
 /**
  * Handles scheduling of daily notifications
@@ -7,13 +52,24 @@ import { KastenatorSettings } from '../types';
  * Approach: Uses a combination of interval checking and time calculation
  * to ensure notifications fire at the correct local time, accounting for
  * timezone changes and app restarts.
+ *
+ * Each day has one or more slots. A slot is skipped on days switched
+ * off, during quiet hours, once the day's session target is met, and
+ * once a notification has been shown since it. The slot's time is given
+ * to onNotification (null for a snooze), so the plugin can check whether
+ * another device has taken it.
  */
 export class NotificationScheduler {
   private plugin: Plugin;
   private settings: KastenatorSettings;
-  private onNotification: () => void;
+  private onNotification: (slot: Date | null) => void;
+  private ledger: SessionLedger | null;
   private checkInterval: number | null = null;
   private scheduledTimeout: number | null = null;
+  private snoozeTimeout: number | null = null;
+  private snoozedUntil: number | null = null;
+  /** When this scheduler last fired, in case the notification is not recorded */
+  private lastFiredAt = 0;
 
   // Check every 5 minutes if we need to fire
   private static readonly CHECK_INTERVAL_MS = 5 * 60 * 1000;
@@ -21,17 +77,22 @@ export class NotificationScheduler {
   constructor(
     plugin: Plugin,
     settings: KastenatorSettings,
-    onNotification: () => void
+    onNotification: (slot: Date | null) => void,
+    ledger?: SessionLedger
   ) {
     this.plugin = plugin;
     this.settings = settings;
     this.onNotification = onNotification;
+    this.ledger = ledger ?? null;
   }
 
   /**
    * Start the scheduler
    */
   start(): void {
+    // A snooze the user asked for holds even with daily notifications off
+    this.scheduleSnooze();
+
     if (!this.settings.notificationEnabled) return;
 
     // Schedule the next notification
@@ -55,6 +116,10 @@ export class NotificationScheduler {
       window.clearTimeout(this.scheduledTimeout);
       this.scheduledTimeout = null;
     }
+    if (this.snoozeTimeout !== null) {
+      window.clearTimeout(this.snoozeTimeout);
+      this.snoozeTimeout = null;
+    }
     if (this.checkInterval !== null) {
       window.clearInterval(this.checkInterval);
       this.checkInterval = null;
@@ -71,23 +136,133 @@ export class NotificationScheduler {
   }
 
   /**
-   * Calculate milliseconds until the next scheduled notification
+   * Notify again after a number of minutes, regardless of today's notification
+   *
+   * The snooze survives settings changes but not a restart of the app.
+   */
+  snooze(minutes: number): void {
+    this.snoozedUntil = Date.now() + minutes * 60 * 1000;
+    this.scheduleSnooze();
+  }
+
+  /**
+   * Time in milliseconds at which the snoozed notification is due, if any
+   */
+  getSnoozedUntil(): number | null {
+    return this.snoozedUntil;
+  }
+
+  /**
+   * Arm the timeout for a pending snooze
    */
-  private getMillisecondsUntilNext(): number {
+  private scheduleSnooze(): void {
+    if (this.snoozeTimeout !== null) {
+      window.clearTimeout(this.snoozeTimeout);
+      this.snoozeTimeout = null;
+    }
+    if (this.snoozedUntil === null) return;
+
+    this.snoozeTimeout = window.setTimeout(
+      () => this.fireSnooze(),
+      Math.max(0, this.snoozedUntil - Date.now())
+    );
+  }
+
+  /**
+   * Fire the snoozed notification
+   */
+  private fireSnooze(): void {
+    if (this.snoozeTimeout !== null) {
+      window.clearTimeout(this.snoozeTimeout);
+      this.snoozeTimeout = null;
+    }
+
+    // Wait out quiet hours rather than disturb
     const now = new Date();
-    const target = new Date();
+    const { quietHours } = this.settings;
+    if (quietHours && isQuietTime(now, quietHours)) {
+      let end = atTimeOfDay(now, quietHours.end);
+      if (end <= now) {
+        end = atTimeOfDay(addDays(now, 1), quietHours.end);
+      }
+      this.snoozedUntil = end.getTime();
+      this.scheduleSnooze();
+      return;
+    }
+
+    this.snoozedUntil = null;
+    this.lastFiredAt = now.getTime();
+    this.onNotification(null);
+  }
 
-    target.setHours(this.settings.notificationHour);
-    target.setMinutes(this.settings.notificationMinute);
-    target.setSeconds(0);
-    target.setMilliseconds(0);
+  /**
+   * The next slot after a time, or null if no day has one
+   */
+  getNextSlot(from: Date = new Date()): Date | null {
+    for (let offset = 0; offset <= SEARCH_DAYS; offset++) {
+      // Today's remaining slots are skipped once its target is met
+      if (offset === 0 && this.isTargetMet(from)) continue;
 
-    // If target time has passed today, schedule for tomorrow
-    if (target <= now) {
-      target.setDate(target.getDate() + 1);
+      const next = this.getSlotTimes(addDays(from, offset)).find((time) => time > from);
+      if (next) return next;
     }
+    return null;
+  }
+
+  /**
+   * The latest of today's slots to have passed without a notification
+   */
+  getMissedSlot(now: Date = new Date()): Date | null {
+    if (this.isTargetMet(now)) return null;
+
+    const lastNotified = this.getLastNotifiedAt(now);
+    const missed = this.getSlotTimes(now).filter(
+      (time) => time <= now && time.getTime() > lastNotified
+    );
+    return missed[missed.length - 1] ?? null;
+  }
+
+  /**
+   * Slot times on a date's day, leaving out quiet hours and days switched off
+   */
+  private getSlotTimes(day: Date): Date[] {
+    const days = this.settings.notificationDays ?? ALL_DAYS;
+    if (!days.includes(day.getDay())) return [];
+
+    // Built from the local calendar, so a 09:00 slot stays at 09:00 across daylight saving changes
+    return getNotificationSlots(this.settings)
+      .map((slot) => atTimeOfDay(day, slot))
+      .filter((time) => !isQuietTime(time, this.settings.quietHours));
+  }
+
+  /**
+   * Whether today's sessions-per-day target has been met, on any device
+   */
+  private isTargetMet(now: Date): boolean {
+    const target = this.settings.sessionsPerDay ?? 0;
+    const completed = this.ledger?.countCompleted(toDateKey(now)) ?? 0;
+    return target > 0 && completed >= target;
+  }
+
+  /**
+   * When the last notification was shown, in milliseconds
+   */
+  private getLastNotifiedAt(now: Date): number {
+    const { lastNotificationAt, lastNotificationDate } = this.settings;
+    // Settings from before slots only record the date, which covered the day's one slot
+    const recorded =
+      lastNotificationAt ??
+      (lastNotificationDate === toDateKey(now) ? now.getTime() : 0);
+    return Math.max(recorded, this.lastFiredAt);
+  }
 
-    return target.getTime() - now.getTime();
+  /**
+   * Calculate milliseconds until the next scheduled notification
+   */
+  private getMillisecondsUntilNext(): number | null {
+    const now = new Date();
+    const next = this.getNextSlot(now);
+    return next ? next.getTime() - now.getTime() : null;
   }
 
   /**
@@ -96,6 +271,7 @@ export class NotificationScheduler {
   private scheduleNext(): void {
     if (this.scheduledTimeout !== null) {
       window.clearTimeout(this.scheduledTimeout);
+      this.scheduledTimeout = null;
     }
 
     const msUntilNext = this.getMillisecondsUntilNext();
@@ -104,7 +280,7 @@ export class NotificationScheduler {
     // If longer, we rely on interval checking instead
     const maxTimeout = 2147483647;
 
-    if (msUntilNext < maxTimeout) {
+    if (msUntilNext !== null && msUntilNext < maxTimeout) {
       this.scheduledTimeout = window.setTimeout(
         () => this.fireNotification(),
         msUntilNext
@@ -116,15 +292,16 @@ export class NotificationScheduler {
    * Fire the notification and schedule the next one
    */
   private fireNotification(): void {
-    const today = new Date().toISOString().split('T')[0];
+    const now = new Date();
 
-    // Check if we already notified today
-    if (this.settings.lastNotificationDate === today) {
-      this.scheduleNext();
-      return;
+    // Check a slot is still due: not notified since, not quiet, target not met,
+    // and recent enough, as a timeout can fire hours late after sleep
+    const missed = this.getMissedSlot(now);
+    if (missed && now.getTime() - missed.getTime() <= CATCH_UP_MINUTES * 60 * 1000) {
+      this.lastFiredAt = now.getTime();
+      this.onNotification(missed);
     }
 
-    this.onNotification();
     this.scheduleNext();
   }
 
@@ -135,27 +312,16 @@ export class NotificationScheduler {
     if (!this.settings.notificationEnabled) return;
 
     const now = new Date();
-    const today = now.toISOString().split('T')[0];
-
-    // Already notified today
-    if (this.settings.lastNotificationDate === today) return;
-
-    const targetHour = this.settings.notificationHour;
-    const targetMinute = this.settings.notificationMinute;
-
-    // Check if we're past the target time
-    const isPastTarget =
-      now.getHours() > targetHour ||
-      (now.getHours() === targetHour && now.getMinutes() >= targetMinute);
 
-    // Within a small window after target time (30 mins)
-    const minutesSinceTarget =
-      (now.getHours() - targetHour) * 60 + (now.getMinutes() - targetMinute);
-    const withinWindow = isPastTarget && minutesSinceTarget <= 30;
-
-    if (withinWindow) {
-      this.fireNotification();
+    if (this.snoozedUntil !== null && now.getTime() >= this.snoozedUntil) {
+      this.fireSnooze();
+      return;
     }
+
+    // Timeouts may not count time the computer spends asleep, leaving them
+    // due late after it wakes, so every check arms them again from the clock
+    this.scheduleSnooze();
+    this.fireNotification();
   }
 
   /**
@@ -163,6 +329,10 @@ export class NotificationScheduler {
    */
   getTimeUntilNext(): string {
     const ms = this.getMillisecondsUntilNext();
+    if (ms === null) {
+      return 'Not scheduled';
+    }
+
     const hours = Math.floor(ms / (1000 * 60 * 60));
     const minutes = Math.floor((ms % (1000 * 60 * 60)) / (1000 * 60));
 
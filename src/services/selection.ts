@@ -0,0 +1,197 @@
+import { App, TFile } from 'obsidian';
+import { KastenatorSettings, SelectionStrategyId, SelectionWeights } from '../types';
+
+/**
+ * Information shared by all strategies during a single selection
+ */
+export interface SelectionContext {
+  app: App;
+  settings: KastenatorSettings;
+  /** Current time in milliseconds */
+  now: number;
+}
+
+/**
+ * A pluggable scoring strategy for quarry note selection
+ *
+ * Each strategy scores every candidate in the range [0, 1], where
+ * higher scores make a note more likely to be picked.
+ */
+export interface SelectionStrategy {
+  id: SelectionStrategyId;
+  name: string;
+  description: string;
+  score(files: TFile[], context: SelectionContext): number[];
+}
+
+/**
+ * Scale values to [0, 1] relative to the largest value
+ */
+function normalise(values: number[]): number[] {
+  const max = Math.max(0, ...values);
+  if (max === 0) {
+    return values.map(() => 0);
+  }
+  return values.map((v) => Math.max(0, v) / max);
+}
+
+/**
+ * Favours notes created long ago
+ */
+export const ageStrategy: SelectionStrategy = {
+  id: 'age',
+  name: 'Age',
+  description: 'Favour notes created long ago',
+  score: (files, { now }) => normalise(files.map((f) => now - f.stat.ctime)),
+};
+
+/**
+ * Favours notes that have not been touched for a long time
+ */
+export const stalenessStrategy: SelectionStrategy = {
+  id: 'staleness',
+  name: 'Staleness',
+  description: 'Favour notes that have not been modified recently',
+  score: (files, { now }) => normalise(files.map((f) => now - f.stat.mtime)),
+};
+
+/**
+ * Favours longer notes, which usually hold more concepts to extract
+ */
+export const lengthStrategy: SelectionStrategy = {
+  id: 'length',
+  name: 'Length',
+  description: 'Favour longer notes over short stubs',
+  score: (files) => normalise(files.map((f) => f.stat.size)),
+};
+
+/**
+ * Favours notes that many other notes link to
+ */
+export const backlinksStrategy: SelectionStrategy = {
+  id: 'backlinks',
+  name: 'Backlinks',
+  description: 'Favour notes that are linked from many other notes',
+  score: (files, { app }) => {
+    const counts = new Map<string, number>();
+    const resolved = app.metadataCache.resolvedLinks ?? {};
+
+    for (const links of Object.values(resolved)) {
+      for (const [target, count] of Object.entries(links)) {
+        counts.set(target, (counts.get(target) ?? 0) + count);
+      }
+    }
+
+    return normalise(files.map((f) => counts.get(f.path) ?? 0));
+  },
+};
+
+/**
+ * Favours notes that have been skipped less often
+ */
+export const skipsStrategy: SelectionStrategy = {
+  id: 'skips',
+  name: 'Skips',
+  description: 'Favour notes you have not skipped before',
+  score: (files, { settings }) =>
+    files.map((f) => 1 / (1 + (settings.skipCounts?.[f.path] ?? 0))),
+};
+
+/**
+ * Built-in strategies, in display order
+ */
+export const SELECTION_STRATEGIES: SelectionStrategy[] = [
+  ageStrategy,
+  stalenessStrategy,
+  lengthStrategy,
+  backlinksStrategy,
+  skipsStrategy,
+];
+
+export const DEFAULT_SELECTION_WEIGHTS: SelectionWeights = {
+  age: 1,
+  staleness: 2,
+  length: 2,
+  backlinks: 1,
+  skips: 1,
+};
+
+/**
+ * Picks quarry notes using a weighted draw over strategy scores
+ *
+ * Every note has a base weight of 1, so even the lowest-scoring note
+ * can still come up. With all strategy weights at 0 the draw is uniform.
+ */
+export class WeightedSelector {
+  private app: App;
+  private settings: KastenatorSettings;
+  private strategies: SelectionStrategy[];
+  private random: () => number;
+
+  private static readonly BASE_WEIGHT = 1;
+
+  constructor(
+    app: App,
+    settings: KastenatorSettings,
+    strategies: SelectionStrategy[] = SELECTION_STRATEGIES,
+    random: () => number = Math.random
+  ) {
+    this.app = app;
+    this.settings = settings;
+    this.strategies = strategies;
+    this.random = random;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: KastenatorSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Compute the draw weight of each file
+   */
+  getWeights(files: TFile[]): number[] {
+    const context: SelectionContext = {
+      app: this.app,
+      settings: this.settings,
+      now: Date.now(),
+    };
+    const weights = files.map(() => WeightedSelector.BASE_WEIGHT);
+
+    for (const strategy of this.strategies) {
+      const strategyWeight = this.settings.selectionWeights?.[strategy.id] ?? 0;
+      if (strategyWeight <= 0) continue;
+
+      const scores = strategy.score(files, context);
+      scores.forEach((score, i) => {
+        weights[i] += strategyWeight * score;
+      });
+    }
+
+    return weights;
+  }
+
+  /**
+   * Pick a single file using a weighted random draw
+   */
+  pick(files: TFile[]): TFile | null {
+    if (files.length === 0) {
+      return null;
+    }
+
+    const weights = this.getWeights(files);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let threshold = this.random() * total;
+
+    for (let i = 0; i < files.length; i++) {
+      threshold -= weights[i];
+      if (threshold < 0) {
+        return files[i];
+      }
+    }
+
+    return files[files.length - 1];
+  }
+}
@@ -0,0 +1,283 @@
+import { App, Plugin, TFile, normalizePath } from 'obsidian';
+import { KastenatorSettings, PhaseTimes, SessionLedgerEntry, SessionLedgerEvent } from '../types';
+import { DeviceStore } from './device-state';
+import { toDateKey } from './dates';
+
+/** First line of a new ledger note */
+const LEDGER_HEADER =
+  'Daily Kastenator session ledger. Each device adds one line per session event; do not edit.';
+
+const LEDGER_EVENTS: SessionLedgerEvent[] = ['started', 'completed', 'abandoned'];
+
+/**
+ * Optional details recorded with a ledger event
+ */
+export type LedgerDetails = Pick<SessionLedgerEntry, 'atoms' | 'quarrySize' | 'phaseTimes'>;
+
+/**
+ * A session pieced together from its ledger entries
+ */
+export interface LedgerSession {
+  id: string;
+  deviceId: string;
+  deviceName: string;
+  /** Path of the source note */
+  source: string;
+  status: 'in-progress' | 'completed' | 'abandoned';
+  startedAt: Date;
+  /** When the session was completed or abandoned */
+  endedAt?: Date;
+  /** Local day the session started on (YYYY-MM-DD) */
+  date: string;
+  /** Paths of the atoms created */
+  atoms: string[];
+  /** Number of quarry notes when the session started, if recorded */
+  quarrySize?: number;
+  /** Milliseconds spent in each phase, once the session has ended */
+  phaseTimes?: PhaseTimes;
+}
+
+/**
+ * Whether a parsed value is a well-formed ledger entry
+ */
+function isLedgerEntry(value: unknown): value is SessionLedgerEntry {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    ['id', 'session', 'device', 'deviceName', 'time', 'date', 'source'].every(
+      (key) => typeof entry[key] === 'string'
+    ) && LEDGER_EVENTS.includes(entry.event as SessionLedgerEvent)
+  );
+}
+
+/**
+ * Read the entries of a ledger note
+ *
+ * Lines other than entries, or mangled by a sync merge, are skipped, and
+ * an entry that a merge has duplicated counts once.
+ */
+export function parseLedger(content: string): SessionLedgerEntry[] {
+  const entries = new Map<string, SessionLedgerEntry>();
+  for (const line of content.split('\n')) {
+    const text = line.trim();
+    if (!text.startsWith('{')) continue;
+
+    try {
+      const entry: unknown = JSON.parse(text);
+      if (isLedgerEntry(entry) && !entries.has(entry.id)) {
+        entries.set(entry.id, entry);
+      }
+    } catch {
+      // A line cut short or joined to another by a merge
+    }
+  }
+  return [...entries.values()];
+}
+
+/**
+ * Combine ledger entries into sessions, in the order they started
+ */
+export function summariseSessions(entries: SessionLedgerEntry[]): LedgerSession[] {
+  const sessions = new Map<string, LedgerSession>();
+  const ordered = [...entries].sort((a, b) => a.time.localeCompare(b.time));
+
+  for (const entry of ordered) {
+    let session = sessions.get(entry.session);
+    if (!session) {
+      session = {
+        id: entry.session,
+        deviceId: entry.device,
+        deviceName: entry.deviceName,
+        source: entry.source,
+        status: 'in-progress',
+        startedAt: new Date(entry.time),
+        date: entry.date,
+        atoms: [],
+      };
+      sessions.set(entry.session, session);
+    }
+
+    if (entry.quarrySize !== undefined) {
+      session.quarrySize = entry.quarrySize;
+    }
+
+    if (entry.event === 'completed') {
+      session.status = 'completed';
+      session.endedAt = new Date(entry.time);
+      session.atoms = entry.atoms ?? [];
+      session.phaseTimes = entry.phaseTimes ?? session.phaseTimes;
+    } else if (entry.event === 'abandoned' && session.status !== 'completed') {
+      session.status = 'abandoned';
+      session.endedAt = new Date(entry.time);
+      session.phaseTimes = entry.phaseTimes ?? session.phaseTimes;
+    }
+  }
+
+  return [...sessions.values()];
+}
+
+/**
+ * Describe a session for a notice, e.g. "Note" is in progress on Laptop
+ */
+export function describeLedgerSession(session: LedgerSession): string {
+  const title = session.source.split('/').pop()?.replace(/\.md$/, '') ?? session.source;
+  const formatTime = (date: Date) =>
+    date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  switch (session.status) {
+    case 'completed': {
+      const count = session.atoms.length;
+      const endedAt = formatTime(session.endedAt ?? session.startedAt);
+      return (
+        `"${title}" was atomised on ${session.deviceName} at ${endedAt}, ` +
+        `creating ${count} atom${count === 1 ? '' : 's'}.`
+      );
+    }
+    case 'abandoned':
+      return `"${title}" was started and cancelled on ${session.deviceName}.`;
+    default: {
+      const startedAt = formatTime(session.startedAt);
+      return `"${title}" is in progress on ${session.deviceName} (started ${startedAt}).`;
+    }
+  }
+}
+
+/**
+ * Records which device started, finished or cancelled each session
+ *
+ * The ledger is a note in the vault rather than plugin data, so every
+ * device sees the others' sessions. Entries are only ever appended, one
+ * JSON object per line, so copies edited on two devices merge cleanly.
+ * It is a markdown note because Obsidian Sync merges only markdown.
+ */
+export class SessionLedger {
+  private app: App;
+  private settings: KastenatorSettings;
+  private device: DeviceStore;
+  private entries: SessionLedgerEntry[] = [];
+
+  constructor(app: App, settings: KastenatorSettings, device: DeviceStore) {
+    this.app = app;
+    this.settings = settings;
+    this.device = device;
+  }
+
+  /**
+   * Update settings reference, reading the ledger again if it has moved
+   */
+  updateSettings(settings: KastenatorSettings): void {
+    const moved = settings.sessionLedgerPath !== this.settings.sessionLedgerPath;
+    this.settings = settings;
+    if (moved) {
+      this.load().catch((error) => console.error('Failed to read the session ledger', error));
+    }
+  }
+
+  /**
+   * Re-read the ledger when another device's entries sync in
+   */
+  registerEvents(plugin: Plugin): void {
+    const reload = (file: { path: string }) => {
+      if (file.path !== this.getPath()) return;
+      this.load().catch((error) => console.error('Failed to read the session ledger', error));
+    };
+    plugin.registerEvent(this.app.vault.on('create', reload));
+    plugin.registerEvent(this.app.vault.on('modify', reload));
+  }
+
+  /**
+   * Read the ledger note
+   */
+  async load(): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(this.getPath());
+    this.entries = file instanceof TFile ? parseLedger(await this.app.vault.read(file)) : [];
+  }
+
+  /**
+   * Every session in the ledger, in the order they started
+   */
+  getSessions(): LedgerSession[] {
+    return summariseSessions(this.entries);
+  }
+
+  /**
+   * Number of sessions completed on a day, on any device
+   */
+  countCompleted(date: string): number {
+    const sessions = new Set(
+      this.entries
+        .filter((entry) => entry.event === 'completed' && entry.date === date)
+        .map((entry) => entry.session)
+    );
+    return sessions.size;
+  }
+
+  /**
+   * A session on another device that has taken a notification slot
+   *
+   * That is the latest one started since the slot and not cancelled, or
+   * one from the slot's day still in progress.
+   */
+  getSessionTakenElsewhere(slot: Date): LedgerSession | null {
+    const date = toDateKey(slot);
+    const taken = this.getSessions().filter(
+      (session) =>
+        session.deviceId !== this.device.id &&
+        session.status !== 'abandoned' &&
+        (session.startedAt >= slot || (session.status === 'in-progress' && session.date === date))
+    );
+    return taken[taken.length - 1] ?? null;
+  }
+
+  /**
+   * Append an event for a session on this device
+   */
+  async record(
+    event: SessionLedgerEvent,
+    sessionId: string,
+    source: string,
+    details: LedgerDetails = {},
+    now: Date = new Date()
+  ): Promise<void> {
+    const entry: SessionLedgerEntry = {
+      id: `entry-${now.getTime()}-${Math.random().toString(36).slice(2, 9)}`,
+      session: sessionId,
+      event,
+      device: this.device.id,
+      deviceName: this.device.get().name,
+      time: now.toISOString(),
+      date: toDateKey(now),
+      source,
+      ...details,
+    };
+    const line = JSON.stringify(entry);
+
+    const path = this.getPath();
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (file instanceof TFile) {
+      // Start a new line even if a merge left the last one unterminated
+      await this.app.vault.process(
+        file,
+        (content) => `${content.replace(/\n*$/, '\n')}${line}\n`
+      );
+    } else {
+      const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+      if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+        await this.app.vault.createFolder(folder);
+      }
+      await this.app.vault.create(path, `${LEDGER_HEADER}\n\n${line}\n`);
+    }
+
+    // The write may already have been read back through a modify event
+    if (!this.entries.some((e) => e.id === entry.id)) {
+      this.entries.push(entry);
+    }
+  }
+
+  /**
+   * Normalised path of the ledger note
+   */
+  private getPath(): string {
+    return normalizePath(this.settings.sessionLedgerPath);
+  }
+}
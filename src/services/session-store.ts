@@ -0,0 +1,89 @@
+import { KastenatorSettings, AtomisationSession, SerializedSession, PhaseTimes } from '../types';
+
+/**
+ * Time spent in each phase of a session, including the current phase so far
+ */
+export function getPhaseTimes(session: AtomisationSession, now: Date = new Date()): PhaseTimes {
+  const elapsed = Math.max(0, now.getTime() - session.phaseStartedAt.getTime());
+  return {
+    ...session.phaseTimes,
+    [session.phase]: (session.phaseTimes[session.phase] ?? 0) + elapsed,
+  };
+}
+
+/**
+ * Convert a session into a JSON-safe form for storage
+ */
+export function serialiseSession(
+  session: AtomisationSession,
+  now: Date = new Date()
+): SerializedSession {
+  return {
+    id: session.id,
+    sourcePath: session.sourceNote.file.path,
+    candidates: session.candidates.map((c) => ({ ...c })),
+    phase: session.phase,
+    startedAt: session.startedAt.toISOString(),
+    phaseTimes: getPhaseTimes(session, now),
+  };
+}
+
+/**
+ * Persists the unfinished atomisation session in plugin data
+ *
+ * Only one session is kept. It is written on every change so that
+ * reloading the plugin or switching devices does not lose work.
+ */
+export class SessionStore {
+  private settings: KastenatorSettings;
+  private persist: () => Promise<void>;
+
+  constructor(settings: KastenatorSettings, persist: () => Promise<void>) {
+    this.settings = settings;
+    this.persist = persist;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: KastenatorSettings): void {
+    this.settings = settings;
+  }
+
+  /**
+   * Get the saved session, if any
+   */
+  load(): SerializedSession | null {
+    return this.settings.savedSession ?? null;
+  }
+
+  /**
+   * Whether there is an unfinished session to resume
+   */
+  hasUnfinishedSession(): boolean {
+    return this.load() !== null;
+  }
+
+  /**
+   * Save a session, or clear storage once it has completed
+   */
+  async save(session: AtomisationSession): Promise<void> {
+    if (session.completed) {
+      await this.clear();
+      return;
+    }
+
+    this.settings.savedSession = serialiseSession(session);
+    await this.persist();
+  }
+
+  /**
+   * Remove the saved session
+   */
+  async clear(): Promise<void> {
+    if (!this.settings.savedSession) return;
+
+    this.settings.savedSession = null;
+    await this.persist();
+  }
+}
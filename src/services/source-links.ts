@@ -0,0 +1,199 @@
+/**
+ * Writing provenance links into source notes
+ *
+ * Atoms created from a source are listed under an "Atoms" heading in the
+ * source note. Each entry can point at the passage the atom's evidence
+ * came from via a block reference (`[[#^abc123]]`), adding the block ID
+ * to the source paragraph when it does not have one yet.
+ */
+
+/** Heading of the section listing atoms created from a source note */
+export const ATOMS_HEADING = 'Atoms';
+
+/**
+ * An atom to list in the source note
+ */
+export interface AtomLinkEntry {
+  /** Link text of the atom, e.g. `Atom title` */
+  linktext: string;
+  /** Block ID of the evidence passage in the source, if linked */
+  blockId?: string;
+}
+
+const BLOCK_ID_CHARS = 'abcdefghijklmnopqrstuvwxyz0123456789';
+const TRAILING_BLOCK_ID = /\s\^([A-Za-z0-9-]+)\s*$/;
+const STRUCTURAL_LINE = /^\s*(?:#{1,6}\s|[-*+]\s|\d+\.\s|>|```|~~~|\||---\s*$)/;
+
+/**
+ * Generate a block ID not already used in the content
+ */
+export function generateBlockId(content: string, random: () => number = Math.random): string {
+  for (;;) {
+    let id = '';
+    for (let i = 0; i < 6; i++) {
+      id += BLOCK_ID_CHARS[Math.floor(random() * BLOCK_ID_CHARS.length)];
+    }
+    if (!content.includes(`^${id}`)) return id;
+  }
+}
+
+/** Inline markup dropped when rendering, so ignored when matching */
+const MARKUP_CHARS = /[*_`~=]/;
+
+/**
+ * Collapse whitespace and strip quote markers and markup so passages compare loosely
+ */
+function normalisePassage(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/^\s*>\s?/, ''))
+    .join(' ')
+    .replace(/[*_`~=]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the offsets of a passage in the content
+ *
+ * Matching ignores whitespace differences, blockquote markers and inline
+ * markup, so evidence pasted as a quote or selected from rendered
+ * markdown still finds its place in the source. Returns null when the
+ * passage is not in the content.
+ */
+export function findPassage(
+  content: string,
+  passage: string
+): { start: number; end: number } | null {
+  const target = normalisePassage(passage);
+  if (!target) return null;
+
+  // Map each character of the normalised content back to its offset
+  let normalised = '';
+  const offsets: number[] = [];
+  let pendingSpace = false;
+  let atLineStart = true;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') {
+      atLineStart = true;
+    }
+    if (/\s/.test(char)) {
+      pendingSpace = normalised.length > 0;
+      continue;
+    }
+    if ((char === '>' && atLineStart) || MARKUP_CHARS.test(char)) {
+      continue;
+    }
+    atLineStart = false;
+    if (pendingSpace) {
+      normalised += ' ';
+      offsets.push(i);
+      pendingSpace = false;
+    }
+    normalised += char;
+    offsets.push(i);
+  }
+
+  const index = normalised.indexOf(target);
+  if (index === -1) return null;
+
+  return { start: offsets[index], end: offsets[index + target.length - 1] + 1 };
+}
+
+/**
+ * Find the offset in the content just after a passage ends
+ */
+export function findPassageEnd(content: string, passage: string): number | null {
+  return findPassage(content, passage)?.end ?? null;
+}
+
+/**
+ * Make sure the block containing an offset has a block ID
+ *
+ * The block ends at the first blank line or structural line (heading,
+ * list item, quote, table, fence) after the offset. An existing ID on
+ * that block is reused.
+ */
+export function ensureBlockId(
+  content: string,
+  offset: number,
+  random: () => number = Math.random
+): { content: string; blockId: string } {
+  const lines = content.split('\n');
+
+  let position = 0;
+  let lineIndex = 0;
+  while (lineIndex < lines.length - 1 && position + lines[lineIndex].length < offset) {
+    position += lines[lineIndex].length + 1;
+    lineIndex++;
+  }
+
+  while (
+    lineIndex < lines.length - 1 &&
+    lines[lineIndex + 1].trim() !== '' &&
+    !STRUCTURAL_LINE.test(lines[lineIndex + 1]) &&
+    !STRUCTURAL_LINE.test(lines[lineIndex])
+  ) {
+    lineIndex++;
+  }
+
+  const existing = lines[lineIndex].match(TRAILING_BLOCK_ID);
+  if (existing) {
+    return { content, blockId: existing[1] };
+  }
+
+  const blockId = generateBlockId(content, random);
+  lines[lineIndex] = `${lines[lineIndex].replace(/\s+$/, '')} ^${blockId}`;
+  return { content: lines.join('\n'), blockId };
+}
+
+/**
+ * Format one entry of the Atoms section
+ */
+export function formatAtomEntry(entry: AtomLinkEntry): string {
+  const link = `- [[${entry.linktext}]]`;
+  return entry.blockId ? `${link} ([[#^${entry.blockId}|evidence]])` : link;
+}
+
+/**
+ * Add entries to the source note's Atoms section, creating it if needed
+ *
+ * Atoms already listed are left as they are, so repeated sessions on the
+ * same source only append.
+ */
+export function upsertAtomsSection(content: string, entries: AtomLinkEntry[]): string {
+  const headingPattern = new RegExp(`^##\\s+${ATOMS_HEADING}\\s*$`, 'm');
+  const heading = headingPattern.exec(content);
+
+  if (!heading) {
+    const lines = entries.map(formatAtomEntry).join('\n');
+    const base = content.replace(/\s+$/, '');
+    return `${base}${base ? '\n\n' : ''}## ${ATOMS_HEADING}\n\n${lines}\n`;
+  }
+
+  // The section runs until the next heading of the same or higher level
+  const sectionStart = heading.index + heading[0].length;
+  const nextHeading = /^#{1,2}\s/m.exec(content.slice(sectionStart));
+  const sectionEnd = nextHeading ? sectionStart + nextHeading.index : content.length;
+  const section = content.slice(sectionStart, sectionEnd);
+
+  const additions = entries
+    .filter((entry) => !section.includes(`[[${entry.linktext}]]`))
+    .map(formatAtomEntry);
+  if (additions.length === 0) return content;
+
+  const body = section.replace(/\s+$/, '');
+  const separator = body.trim() ? '\n' : '\n\n';
+  const trailing = nextHeading ? '\n\n' : '\n';
+
+  return (
+    content.slice(0, sectionStart) +
+    body +
+    separator +
+    additions.join('\n') +
+    trailing +
+    content.slice(sectionEnd)
+  );
+}
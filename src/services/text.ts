@@ -0,0 +1,18 @@
+/** Words too common to say anything about what a text is about */
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her',
+  'was', 'one', 'our', 'out', 'has', 'his', 'how', 'its', 'may', 'who', 'did', 'get',
+  'this', 'that', 'with', 'from', 'they', 'have', 'been', 'were', 'what', 'when',
+  'which', 'their', 'there', 'would', 'could', 'should', 'about', 'into', 'than',
+  'then', 'them', 'these', 'those', 'some', 'such', 'only', 'also', 'more', 'most',
+]);
+
+/**
+ * Lower-cased content words of a text, in any script, in order
+ *
+ * Skips words of one or two letters and common English function words.
+ */
+export function extractWords(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.filter((w) => w.length > 2 && !STOP_WORDS.has(w));
+}
@@ -0,0 +1,151 @@
+import { KastenatorSettings, UsageRecord } from '../types';
+import { startOfDay } from './dates';
+
+/** Records older than this are dropped when a new one is added */
+const RETENTION_DAYS = 400;
+
+/**
+ * Totals over a set of usage records
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Cost in US dollars of the calls whose price is known */
+  cost: number;
+  /** Calls whose cost could not be estimated */
+  unpricedCalls: number;
+}
+
+/**
+ * Filter for usage records
+ */
+export interface UsageFilter {
+  /** Only records at or after this time */
+  since?: Date;
+  sessionId?: string;
+  sourcePath?: string;
+}
+
+/**
+ * Add up a set of usage records
+ */
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  const totals: UsageTotals = {
+    calls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cost: 0,
+    unpricedCalls: 0,
+  };
+
+  for (const record of records) {
+    totals.calls += 1;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    if (record.cost === null) {
+      totals.unpricedCalls += 1;
+    } else {
+      totals.cost += record.cost;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Format a cost in US dollars, with more precision for small amounts
+ */
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Ledger of LLM usage and cost, kept in plugin data
+ *
+ * Each call is recorded with the session and source note it was made
+ * for, so spend can be totalled by day, month, session or note, and
+ * checked against the monthly budget.
+ */
+export class UsageLedger {
+  private settings: KastenatorSettings;
+  private persist: () => Promise<void>;
+
+  constructor(settings: KastenatorSettings, persist: () => Promise<void>) {
+    this.settings = settings;
+    this.persist = persist;
+  }
+
+  /**
+   * Update settings reference
+   */
+  updateSettings(settings: KastenatorSettings): void {
+    this.settings = settings;
+  }
+
+  private get records(): UsageRecord[] {
+    if (!this.settings.usageLedger) {
+      this.settings.usageLedger = [];
+    }
+    return this.settings.usageLedger;
+  }
+
+  /**
+   * Append a call to the ledger, dropping records past retention
+   */
+  async record(record: UsageRecord, now: Date = new Date()): Promise<void> {
+    const cutoff = now.getTime() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    this.settings.usageLedger = this.records.filter(
+      (r) => new Date(r.timestamp).getTime() >= cutoff
+    );
+    this.settings.usageLedger.push(record);
+    await this.persist();
+  }
+
+  /**
+   * Totals for the records matching a filter
+   */
+  getTotals(filter: UsageFilter = {}): UsageTotals {
+    const since = filter.since?.getTime();
+    return sumUsage(
+      this.records.filter(
+        (r) =>
+          (since === undefined || new Date(r.timestamp).getTime() >= since) &&
+          (filter.sessionId === undefined || r.sessionId === filter.sessionId) &&
+          (filter.sourcePath === undefined || r.sourcePath === filter.sourcePath)
+      )
+    );
+  }
+
+  /**
+   * Totals since local midnight
+   */
+  getDailyTotals(now: Date = new Date()): UsageTotals {
+    return this.getTotals({
+      since: startOfDay(now),
+    });
+  }
+
+  /**
+   * Totals since the start of the local calendar month
+   */
+  getMonthlyTotals(now: Date = new Date()): UsageTotals {
+    return this.getTotals({ since: new Date(now.getFullYear(), now.getMonth(), 1) });
+  }
+
+  /**
+   * Whether this month's spend has reached the monthly budget
+   */
+  isOverBudget(now: Date = new Date()): boolean {
+    const budget = this.settings.monthlyBudget ?? 0;
+    return budget > 0 && this.getMonthlyTotals(now).cost >= budget;
+  }
+
+  /**
+   * Forget all recorded usage
+   */
+  async clear(): Promise<void> {
+    this.settings.usageLedger = [];
+    await this.persist();
+  }
+}
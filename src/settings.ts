@@ -1,14 +1,61 @@
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, PluginSettingTab, Setting, Notice, normalizePath } from 'obsidian';
 import DailyKastenatorPlugin from './main';
-import { LLMProviderType } from './types';
+import {
+  LLMProviderType,
+  MigrationEvent,
+  QuietHours,
+  SourceAtomLinkStyle,
+  TimeOfDay,
+} from './types';
 import { CLAUDE_MODELS, DEFAULT_CLAUDE_MODEL } from './services/llm/claude';
 import { OPENROUTER_MODELS, DEFAULT_OPENROUTER_MODEL } from './services/llm/openrouter';
+import {
+  OpenAICompatibleProvider,
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+} from './services/llm/openai-compatible';
+import { getProviderChain } from './services/llm';
+import { describeError } from './services/llm/errors';
+import {
+  DEFAULT_CONCEPT_TEMPLATE,
+  DEFAULT_CRITIQUE_TEMPLATE,
+  DEFAULT_SOURCE_TOKENS,
+} from './services/llm/prompts';
+import { UsageTotals, formatCost } from './services/usage';
+import { SELECTION_STRATEGIES } from './services/selection';
+import { getNotificationSlots } from './services/scheduler';
+import { formatTransitions, parseTransitions } from './services/lifecycle';
+
+/**
+ * Dropdown labels for each LLM provider
+ */
+const PROVIDER_LABELS: Record<LLMProviderType, string> = {
+  none: 'None (rule-based only)',
+  'smart-connections': 'Smart Connections',
+  claude: 'Claude (direct API)',
+  openrouter: 'OpenRouter',
+  'openai-compatible': 'Local / OpenAI-compatible server',
+};
+
+/**
+ * Button labels for each day of the week, Sunday first
+ */
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Quiet hours offered when they are first switched on
+ */
+const DEFAULT_QUIET_HOURS: QuietHours = {
+  start: { hour: 22, minute: 0 },
+  end: { hour: 7, minute: 0 },
+};
 
 /**
  * Settings tab for Daily Kastenator plugin
  */
 export class KastenatorSettingTab extends PluginSettingTab {
   plugin: DailyKastenatorPlugin;
+  /** Models reported by the OpenAI-compatible server, once listed */
+  private serverModels: string[] = [];
 
   constructor(app: App, plugin: DailyKastenatorPlugin) {
     super(app, plugin);
@@ -36,34 +83,52 @@ export class KastenatorSettingTab extends PluginSettingTab {
           })
       );
 
+    this.renderSchedule(containerEl);
+
     new Setting(containerEl)
-      .setName('Notification time')
-      .setDesc('Time of day to receive the daily notification')
-      .addDropdown((dropdown) => {
-        // Hours
-        for (let h = 0; h < 24; h++) {
-          const label = h.toString().padStart(2, '0') + ':00';
-          dropdown.addOption(h.toString(), label);
-        }
-        dropdown.setValue(this.plugin.settings.notificationHour.toString());
-        dropdown.onChange(async (value) => {
-          this.plugin.settings.notificationHour = parseInt(value, 10);
-          await this.plugin.saveSettings();
-        });
-      })
-      .addDropdown((dropdown) => {
-        // Minutes (15-min intervals)
-        for (let m = 0; m < 60; m += 15) {
-          const label = ':' + m.toString().padStart(2, '0');
-          dropdown.addOption(m.toString(), label);
-        }
-        dropdown.setValue(this.plugin.settings.notificationMinute.toString());
-        dropdown.onChange(async (value) => {
-          this.plugin.settings.notificationMinute = parseInt(value, 10);
-          await this.plugin.saveSettings();
+      .setName('Snooze length')
+      .setDesc('Minutes to wait before reminding you again after "Remind Me Later"')
+      .addSlider((slider) =>
+        slider
+          .setLimits(5, 240, 5)
+          .setValue(this.plugin.settings.snoozeMinutes)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.snoozeMinutes = value;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Device name')
+      .setDesc('How this device is named when another device sees its sessions')
+      .addText((text) => {
+        text.setPlaceholder('Laptop').setValue(this.plugin.deviceStore.get().name);
+        // Written to the device file once editing is done, not on every keystroke
+        text.inputEl.addEventListener('change', () => {
+          const name = text.getValue().trim();
+          if (name) {
+            this.plugin.deviceStore
+              .update({ name })
+              .catch((error) => console.error('Failed to save the device name', error));
+          }
         });
       });
 
+    new Setting(containerEl)
+      .setName('Session ledger')
+      .setDesc('Note where each device records the sessions it starts, so devices do not both notify')
+      .addText((text) =>
+        text
+          .setPlaceholder('Kastenator/Session ledger.md')
+          .setValue(this.plugin.settings.sessionLedgerPath)
+          .onChange(async (value) => {
+            this.plugin.settings.sessionLedgerPath =
+              value.trim() || 'Kastenator/Session ledger.md';
+            await this.plugin.saveSettings();
+          })
+      );
+
     // Quarry Settings Section
     containerEl.createEl('h3', { text: 'Quarry Configuration' });
 
@@ -109,6 +174,68 @@ export class KastenatorSettingTab extends PluginSettingTab {
           })
       );
 
+    // Migration Lifecycle Section
+    containerEl.createEl('h3', { text: 'Migration Lifecycle' });
+
+    new Setting(containerEl)
+      .setName('Allowed transitions')
+      .setDesc('One value per line: "from -> to, to". Values not listed here can move anywhere.')
+      .addTextArea((text) => {
+        text
+          .setValue(formatTransitions(this.plugin.settings.migrationLifecycle.transitions))
+          .onChange(async (value) => {
+            this.plugin.settings.migrationLifecycle.transitions = parseTransitions(value);
+            await this.plugin.saveSettings();
+          });
+        text.inputEl.rows = 6;
+        text.inputEl.addClass('kastenator-lifecycle-input');
+      });
+
+    const lifecycleEvents: Array<{ event: MigrationEvent; name: string; desc: string }> = [
+      { event: 'start', name: 'On session start', desc: 'Value set when a session begins' },
+      { event: 'abandon', name: 'On session abandoned', desc: 'Value set when a session is cancelled or discarded' },
+      { event: 'partial', name: 'On partial completion', desc: 'Value set when only some concepts become atoms' },
+      { event: 'complete', name: 'On completion', desc: 'Value set when every concept becomes an atom' },
+    ];
+
+    for (const { event, name, desc } of lifecycleEvents) {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(`${desc} (leave empty to keep the current value)`)
+        .addText((text) =>
+          text
+            .setValue(this.plugin.settings.migrationLifecycle.events[event])
+            .onChange(async (value) => {
+              this.plugin.settings.migrationLifecycle.events[event] = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // Note Selection Section
+    containerEl.createEl('h3', { text: 'Note Selection' });
+
+    containerEl.createEl('p', {
+      text: 'Weight each factor when picking a quarry note. Set all weights to 0 for purely random selection.',
+      cls: 'setting-item-description',
+    });
+
+    for (const strategy of SELECTION_STRATEGIES) {
+      new Setting(containerEl)
+        .setName(strategy.name)
+        .setDesc(strategy.description)
+        .addSlider((slider) =>
+          slider
+            .setLimits(0, 10, 1)
+            .setValue(this.plugin.settings.selectionWeights[strategy.id] ?? 0)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.selectionWeights[strategy.id] = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     // Atom Output Settings Section
     containerEl.createEl('h3', { text: 'Atom Output' });
 
@@ -138,6 +265,35 @@ export class KastenatorSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName('Source atom links')
+      .setDesc('How the source note links to the atoms created from it')
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOption('properties', 'List beside the migration field')
+          .addOption('section', 'Atoms section at the end of the note')
+          .setValue(this.plugin.settings.sourceAtomLinks)
+          .onChange(async (value) => {
+            this.plugin.settings.sourceAtomLinks = value as SourceAtomLinkStyle;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      );
+
+    if (this.plugin.settings.sourceAtomLinks === 'section') {
+      new Setting(containerEl)
+        .setName('Link evidence passages')
+        .setDesc('Add block references from each atom entry to the passage its evidence came from')
+        .addToggle((toggle) =>
+          toggle
+            .setValue(this.plugin.settings.linkEvidenceBlocks)
+            .onChange(async (value) => {
+              this.plugin.settings.linkEvidenceBlocks = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     // Template variables info
     const templateInfo = containerEl.createDiv({ cls: 'kastenator-template-info' });
     templateInfo.createEl('p', {
@@ -182,10 +338,9 @@ export class KastenatorSettingTab extends PluginSettingTab {
       .setName('LLM Provider')
       .setDesc('Choose how to access AI for critique')
       .addDropdown((dropdown) => {
-        dropdown.addOption('none', 'None (rule-based only)');
-        dropdown.addOption('smart-connections', 'Smart Connections');
-        dropdown.addOption('claude', 'Claude (direct API)');
-        dropdown.addOption('openrouter', 'OpenRouter');
+        for (const [type, label] of Object.entries(PROVIDER_LABELS)) {
+          dropdown.addOption(type, label);
+        }
         dropdown.setValue(this.plugin.settings.llmProvider ?? 'none');
         dropdown.onChange(async (value) => {
           this.plugin.settings.llmProvider = value as LLMProviderType;
@@ -195,8 +350,43 @@ export class KastenatorSettingTab extends PluginSettingTab {
         });
       });
 
+    if (this.plugin.settings.llmProvider !== 'none') {
+      this.renderFallbackProviders(containerEl);
+
+      new Setting(containerEl)
+        .setName('Request timeout')
+        .setDesc('Seconds to wait for a response before giving up. Local models on slow hardware may need longer.')
+        .addSlider((slider) =>
+          slider
+            .setLimits(10, 300, 10)
+            .setValue(this.plugin.settings.llmTimeoutSeconds)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.llmTimeoutSeconds = value;
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName('Retries')
+        .setDesc('How often to retry an overloaded, rate-limited or failing server before moving on')
+        .addSlider((slider) =>
+          slider
+            .setLimits(0, 5, 1)
+            .setValue(this.plugin.settings.llmMaxRetries)
+            .setDynamicTooltip()
+            .onChange(async (value) => {
+              this.plugin.settings.llmMaxRetries = value;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    // Provider-specific settings for every provider in the chain
+    const chain = getProviderChain(this.plugin.settings);
+
     // Smart Connections info
-    if (this.plugin.settings.llmProvider === 'smart-connections') {
+    if (chain.includes('smart-connections')) {
       const scInfo = containerEl.createDiv({ cls: 'kastenator-provider-info' });
       scInfo.createEl('p', {
         text: 'Uses your existing Smart Connections configuration. Supports local LLMs (Ollama, LM Studio) and cloud providers.',
@@ -205,7 +395,7 @@ export class KastenatorSettingTab extends PluginSettingTab {
     }
 
     // Claude settings
-    if (this.plugin.settings.llmProvider === 'claude') {
+    if (chain.includes('claude')) {
       new Setting(containerEl)
         .setName('Claude API Key')
         .setDesc('Your Anthropic API key')
@@ -237,7 +427,7 @@ export class KastenatorSettingTab extends PluginSettingTab {
     }
 
     // OpenRouter settings
-    if (this.plugin.settings.llmProvider === 'openrouter') {
+    if (chain.includes('openrouter')) {
       new Setting(containerEl)
         .setName('OpenRouter API Key')
         .setDesc('Your OpenRouter API key')
@@ -274,6 +464,86 @@ export class KastenatorSettingTab extends PluginSettingTab {
       });
     }
 
+    // OpenAI-compatible settings
+    if (chain.includes('openai-compatible')) {
+      new Setting(containerEl)
+        .setName('Server URL')
+        .setDesc('Base URL of the OpenAI-compatible API (Ollama, LM Studio, llama.cpp)')
+        .addText((text) =>
+          text
+            .setPlaceholder(DEFAULT_OPENAI_COMPATIBLE_BASE_URL)
+            .setValue(this.plugin.settings.openaiCompatibleBaseUrl ?? '')
+            .onChange(async (value) => {
+              this.plugin.settings.openaiCompatibleBaseUrl = value.trim();
+              this.serverModels = [];
+              await this.plugin.saveSettings();
+            })
+        );
+
+      new Setting(containerEl)
+        .setName('API Key')
+        .setDesc('Only needed if your server requires one')
+        .addText((text) =>
+          text
+            .setValue(this.plugin.settings.openaiCompatibleApiKey ?? '')
+            .onChange(async (value) => {
+              this.plugin.settings.openaiCompatibleApiKey = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+
+      const modelSetting = new Setting(containerEl)
+        .setName('Model')
+        .setDesc('Model name as the server knows it');
+
+      if (this.serverModels.length > 0) {
+        modelSetting.addDropdown((dropdown) => {
+          const current = this.plugin.settings.openaiCompatibleModel ?? '';
+          for (const model of this.serverModels) {
+            dropdown.addOption(model, model);
+          }
+          if (current && !this.serverModels.includes(current)) {
+            dropdown.addOption(current, current);
+          }
+          dropdown.setValue(current);
+          dropdown.onChange(async (value) => {
+            this.plugin.settings.openaiCompatibleModel = value;
+            await this.plugin.saveSettings();
+          });
+        });
+      } else {
+        modelSetting.addText((text) =>
+          text
+            .setPlaceholder('llama3.1')
+            .setValue(this.plugin.settings.openaiCompatibleModel ?? '')
+            .onChange(async (value) => {
+              this.plugin.settings.openaiCompatibleModel = value.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+      }
+
+      modelSetting.addButton((button) =>
+        button.setButtonText('List models').onClick(async () => {
+          await this.listServerModels();
+        })
+      );
+
+      const localInfo = containerEl.createDiv({ cls: 'kastenator-provider-info' });
+      localInfo.createEl('p', {
+        text: 'Runs critique against a server you control. Notes are only sent to the URL above.',
+        cls: 'setting-item-description',
+      });
+    }
+
+    // Prompt Templates Section
+    containerEl.createEl('h3', { text: 'Prompt Templates' });
+    this.renderPromptTemplates(containerEl);
+
+    // Usage Section
+    containerEl.createEl('h3', { text: 'AI Usage' });
+    this.renderUsage(containerEl);
+
     // Actions Section
     containerEl.createEl('h3', { text: 'Actions' });
 
@@ -299,6 +569,409 @@ export class KastenatorSettingTab extends PluginSettingTab {
       );
   }
 
+  /**
+   * Render the notification slots, days, quiet hours and session target
+   */
+  private renderSchedule(containerEl: HTMLElement): void {
+    const { settings } = this.plugin;
+    const slots = getNotificationSlots(settings);
+
+    slots.forEach((slot, index) => {
+      const setting = new Setting(containerEl)
+        .setName(index === 0 ? 'Notification times' : '')
+        .setDesc(index === 0 ? 'Times of day to receive a notification' : '');
+      this.addTimeDropdowns(setting, slot, async (time) => {
+        slots[index] = time;
+        settings.notificationSlots = [...slots];
+        await this.plugin.saveSettings();
+      });
+      if (slots.length > 1) {
+        setting.addExtraButton((button) =>
+          button
+            .setIcon('trash')
+            .setTooltip('Remove this time')
+            .onClick(async () => {
+              settings.notificationSlots = slots.filter((_, i) => i !== index);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
+      }
+    });
+
+    new Setting(containerEl).addButton((button) =>
+      button.setButtonText('Add time').onClick(async () => {
+        const last = slots[slots.length - 1];
+        settings.notificationSlots = [
+          ...slots,
+          { hour: (last.hour + 1) % 24, minute: last.minute },
+        ];
+        await this.plugin.saveSettings();
+        this.display();
+      })
+    );
+
+    const days = new Setting(containerEl)
+      .setName('Notification days')
+      .setDesc('Days of the week to receive notifications on');
+    WEEKDAY_LABELS.forEach((label, day) => {
+      days.addButton((button) => {
+        button.setButtonText(label);
+        if (settings.notificationDays.includes(day)) {
+          button.setCta();
+        }
+        button.onClick(async () => {
+          settings.notificationDays = settings.notificationDays.includes(day)
+            ? settings.notificationDays.filter((d) => d !== day)
+            : [...settings.notificationDays, day].sort((a, b) => a - b);
+          await this.plugin.saveSettings();
+          this.display();
+        });
+      });
+    });
+
+    new Setting(containerEl)
+      .setName('Quiet hours')
+      .setDesc('Hold back notifications and snoozes during these hours')
+      .addToggle((toggle) =>
+        toggle.setValue(settings.quietHours !== null).onChange(async (value) => {
+          settings.quietHours = value ? { ...DEFAULT_QUIET_HOURS } : null;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    const { quietHours } = settings;
+    if (quietHours) {
+      const from = new Setting(containerEl).setName('Quiet from');
+      this.addTimeDropdowns(from, quietHours.start, async (time) => {
+        quietHours.start = time;
+        await this.plugin.saveSettings();
+      });
+      const until = new Setting(containerEl).setName('Quiet until');
+      this.addTimeDropdowns(until, quietHours.end, async (time) => {
+        quietHours.end = time;
+        await this.plugin.saveSettings();
+      });
+    }
+
+    new Setting(containerEl)
+      .setName('Sessions per day')
+      .setDesc(
+        "Skip the day's remaining notifications once this many sessions are finished " +
+          '(0 for no target)'
+      )
+      .addSlider((slider) =>
+        slider
+          .setLimits(0, 10, 1)
+          .setValue(settings.sessionsPerDay)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            settings.sessionsPerDay = value;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  /**
+   * Add hour and minute dropdowns for a time of day to a setting
+   */
+  private addTimeDropdowns(
+    setting: Setting,
+    time: TimeOfDay,
+    onChange: (time: TimeOfDay) => Promise<void>
+  ): void {
+    let { hour, minute } = time;
+
+    setting
+      .addDropdown((dropdown) => {
+        // Hours
+        for (let h = 0; h < 24; h++) {
+          dropdown.addOption(h.toString(), h.toString().padStart(2, '0') + ':00');
+        }
+        dropdown.setValue(hour.toString());
+        dropdown.onChange(async (value) => {
+          hour = parseInt(value, 10);
+          await onChange({ hour, minute });
+        });
+      })
+      .addDropdown((dropdown) => {
+        // Minutes (15-min intervals, plus any other minute already set)
+        for (let m = 0; m < 60; m += 15) {
+          dropdown.addOption(m.toString(), ':' + m.toString().padStart(2, '0'));
+        }
+        if (minute % 15 !== 0) {
+          dropdown.addOption(minute.toString(), ':' + minute.toString().padStart(2, '0'));
+        }
+        dropdown.setValue(minute.toString());
+        dropdown.onChange(async (value) => {
+          minute = parseInt(value, 10);
+          await onChange({ hour, minute });
+        });
+      });
+  }
+
+  /**
+   * Render the prompt template folder, pickers and source budget
+   */
+  private renderPromptTemplates(containerEl: HTMLElement): void {
+    containerEl.createEl('p', {
+      text: 'Prompts can be notes in your vault, using {{concept}}, {{explanation}}, {{evidence}}, {{source}} and {{related_atoms}}. The criteria and response format are always added after the template.',
+      cls: 'setting-item-description',
+    });
+
+    new Setting(containerEl)
+      .setName('Template folder')
+      .setDesc('Folder holding prompt template notes')
+      .addText((text) =>
+        text
+          .setPlaceholder('Prompts')
+          .setValue(this.plugin.settings.promptTemplateFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.promptTemplateFolder = value.trim() || 'Prompts';
+            await this.plugin.saveSettings();
+          })
+      )
+      .addButton((button) =>
+        button
+          .setButtonText('Create from built-in')
+          .setTooltip('Write the built-in prompts to the folder as a starting point')
+          .onClick(async () => {
+            await this.createPromptTemplates();
+          })
+      )
+      .addExtraButton((button) =>
+        button
+          .setIcon('refresh-cw')
+          .setTooltip('Refresh template list')
+          .onClick(() => this.display())
+      );
+
+    const folder = normalizePath(this.plugin.settings.promptTemplateFolder || 'Prompts');
+    const templates = this.app.vault
+      .getMarkdownFiles()
+      .filter((file) => file.path.startsWith(`${folder}/`))
+      .map((file) => file.path)
+      .sort();
+
+    const pickers: Array<{
+      key: 'critiquePromptPath' | 'conceptPromptPath';
+      name: string;
+      desc: string;
+    }> = [
+      { key: 'critiquePromptPath', name: 'Critique prompt', desc: 'Template for critiquing a candidate atom' },
+      { key: 'conceptPromptPath', name: 'Concept suggestion prompt', desc: 'Template for suggesting concepts in a note' },
+    ];
+
+    for (const { key, name, desc } of pickers) {
+      new Setting(containerEl)
+        .setName(name)
+        .setDesc(desc)
+        .addDropdown((dropdown) => {
+          const current = this.plugin.settings[key];
+          dropdown.addOption('', 'Built-in');
+          for (const path of templates) {
+            dropdown.addOption(path, path.slice(folder.length + 1).replace(/\.md$/, ''));
+          }
+          if (current && !templates.includes(current)) {
+            dropdown.addOption(current, `${current} (missing)`);
+          }
+          dropdown.setValue(current);
+          dropdown.onChange(async (value) => {
+            this.plugin.settings[key] = value;
+            await this.plugin.saveSettings();
+          });
+        });
+    }
+
+    new Setting(containerEl)
+      .setName('Source context')
+      .setDesc('Approximate tokens of the source note to include. Longer notes keep the paragraphs most relevant to the concept.')
+      .addSlider((slider) =>
+        slider
+          .setLimits(250, 4000, 250)
+          .setValue(this.plugin.settings.promptSourceTokens ?? DEFAULT_SOURCE_TOKENS)
+          .setDynamicTooltip()
+          .onChange(async (value) => {
+            this.plugin.settings.promptSourceTokens = value;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  /**
+   * Write the built-in prompts into the template folder, keeping existing notes
+   */
+  private async createPromptTemplates(): Promise<void> {
+    const folder = normalizePath(this.plugin.settings.promptTemplateFolder || 'Prompts');
+    const { vault } = this.app;
+
+    try {
+      if (!vault.getAbstractFileByPath(folder)) {
+        await vault.createFolder(folder);
+      }
+
+      const created: string[] = [];
+      for (const [name, template] of [
+        ['Critique', DEFAULT_CRITIQUE_TEMPLATE],
+        ['Concept suggestions', DEFAULT_CONCEPT_TEMPLATE],
+      ]) {
+        const path = normalizePath(`${folder}/${name}.md`);
+        if (vault.getAbstractFileByPath(path)) continue;
+        await vault.create(path, `${template}\n`);
+        created.push(name);
+      }
+
+      new Notice(
+        created.length > 0
+          ? `Created ${created.join(' and ')} in ${folder}.`
+          : `The templates already exist in ${folder}.`
+      );
+      this.display();
+    } catch (error) {
+      new Notice(`Could not create templates: ${describeError(error)}`);
+    }
+  }
+
+  /**
+   * Render usage totals and the monthly budget
+   */
+  private renderUsage(containerEl: HTMLElement): void {
+    const ledger = this.plugin.usageLedger;
+    const describe = (totals: UsageTotals): string => {
+      const tokens = (totals.inputTokens + totals.outputTokens).toLocaleString();
+      const unpriced = totals.unpricedCalls > 0 ? ` (${totals.unpricedCalls} unpriced)` : '';
+      return `${formatCost(totals.cost)} from ${totals.calls} calls, ${tokens} tokens${unpriced}`;
+    };
+
+    new Setting(containerEl).setName('Today').setDesc(describe(ledger.getDailyTotals()));
+    new Setting(containerEl).setName('This month').setDesc(describe(ledger.getMonthlyTotals()));
+
+    if (ledger.isOverBudget()) {
+      containerEl.createEl('p', {
+        text: 'The monthly budget has been reached. AI critique and suggestions are paused until next month.',
+        cls: 'kastenator-error',
+      });
+    }
+
+    new Setting(containerEl)
+      .setName('Monthly budget (USD)')
+      .setDesc('Stop using AI once estimated spend this month reaches this amount. 0 for no cap.')
+      .addText((text) =>
+        text
+          .setPlaceholder('0')
+          .setValue(String(this.plugin.settings.monthlyBudget ?? 0))
+          .onChange(async (value) => {
+            const budget = parseFloat(value);
+            this.plugin.settings.monthlyBudget = Number.isFinite(budget) && budget > 0 ? budget : 0;
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName('Clear usage history')
+      .setDesc('Costs are estimated from list prices, except OpenRouter, which reports them')
+      .addButton((button) =>
+        button.setButtonText('Clear').onClick(async () => {
+          await ledger.clear();
+          this.display();
+        })
+      );
+  }
+
+  /**
+   * Render the ordered list of fallback providers
+   */
+  private renderFallbackProviders(containerEl: HTMLElement): void {
+    const settings = this.plugin.settings;
+    const fallbacks = settings.llmFallbackProviders ?? [];
+
+    const save = async (next: LLMProviderType[]): Promise<void> => {
+      settings.llmFallbackProviders = next;
+      await this.plugin.saveSettings();
+      this.display();
+    };
+
+    new Setting(containerEl)
+      .setName('Fallback providers')
+      .setDesc(
+        'Tried in order when the provider above is unavailable, times out or is overloaded'
+      );
+
+    fallbacks.forEach((type, index) => {
+      new Setting(containerEl)
+        .setName(`${index + 1}. ${PROVIDER_LABELS[type]}`)
+        .addExtraButton((button) =>
+          button
+            .setIcon('arrow-up')
+            .setTooltip('Try earlier')
+            .setDisabled(index === 0)
+            .onClick(async () => {
+              const next = [...fallbacks];
+              [next[index - 1], next[index]] = [next[index], next[index - 1]];
+              await save(next);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('arrow-down')
+            .setTooltip('Try later')
+            .setDisabled(index === fallbacks.length - 1)
+            .onClick(async () => {
+              const next = [...fallbacks];
+              [next[index], next[index + 1]] = [next[index + 1], next[index]];
+              await save(next);
+            })
+        )
+        .addExtraButton((button) =>
+          button
+            .setIcon('x')
+            .setTooltip('Remove')
+            .onClick(async () => {
+              await save(fallbacks.filter((t) => t !== type));
+            })
+        );
+    });
+
+    const remaining = (Object.keys(PROVIDER_LABELS) as LLMProviderType[]).filter(
+      (type) => type !== 'none' && type !== settings.llmProvider && !fallbacks.includes(type)
+    );
+    if (remaining.length === 0) return;
+
+    new Setting(containerEl).setName('Add fallback').addDropdown((dropdown) => {
+      dropdown.addOption('', 'Choose a provider...');
+      for (const type of remaining) {
+        dropdown.addOption(type, PROVIDER_LABELS[type]);
+      }
+      dropdown.onChange(async (value) => {
+        if (!value) return;
+        await save([...fallbacks, value as LLMProviderType]);
+      });
+    });
+  }
+
+  /**
+   * Fetch the model list from the OpenAI-compatible server
+   */
+  private async listServerModels(): Promise<void> {
+    const { openaiCompatibleBaseUrl, openaiCompatibleApiKey } = this.plugin.settings;
+    const provider = new OpenAICompatibleProvider(
+      openaiCompatibleBaseUrl || DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+      '',
+      openaiCompatibleApiKey
+    );
+
+    try {
+      this.serverModels = await provider.listModels();
+      if (this.serverModels.length === 0) {
+        new Notice('The server did not report any models.');
+      }
+      this.display();
+    } catch (error) {
+      new Notice(describeError(error));
+    }
+  }
+
   /**
    * Test the quarry query and show results
    */
@@ -311,7 +984,7 @@ export class KastenatorSettingTab extends PluginSettingTab {
       // Use the command to get stats
       await this.plugin.showQuarryStats();
     } catch (error) {
-      new Notice(`Query failed: ${error}`);
+      new Notice(`Query failed: ${describeError(error)}`);
     }
   }
 }
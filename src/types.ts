@@ -6,32 +6,174 @@ import { TFile } from 'obsidian';
 /**
  * Available LLM provider types
  */
-export type LLMProviderType = 'none' | 'smart-connections' | 'claude' | 'openrouter';
+export type LLMProviderType =
+  | 'none'
+  | 'smart-connections'
+  | 'claude'
+  | 'openrouter'
+  | 'openai-compatible';
+
+/**
+ * Identifiers for the quarry selection strategies
+ */
+export type SelectionStrategyId = 'age' | 'staleness' | 'length' | 'backlinks' | 'skips';
+
+/**
+ * Relative weight of each selection strategy (0 disables a strategy)
+ */
+export type SelectionWeights = Record<SelectionStrategyId, number>;
+
+/**
+ * Session events that can move a source note through its lifecycle
+ */
+export type MigrationEvent = 'start' | 'abandon' | 'partial' | 'complete';
+
+/**
+ * Configurable state machine of migration field values
+ */
+export interface MigrationLifecycle {
+  /** Allowed next values for each known value */
+  transitions: Record<string, string[]>;
+  /** Value to set on each session event (empty string leaves the note unchanged) */
+  events: Record<MigrationEvent, string>;
+}
+
+/**
+ * Where a source note lists the atoms created from it
+ */
+export type SourceAtomLinkStyle = 'properties' | 'section';
+
+/**
+ * A time of day, in local time
+ */
+export interface TimeOfDay {
+  /** Hour of day (0-23) */
+  hour: number;
+  /** Minute of hour (0-59) */
+  minute: number;
+}
+
+/**
+ * Hours during which no notification is shown; may span midnight
+ */
+export interface QuietHours {
+  start: TimeOfDay;
+  end: TimeOfDay;
+}
+
+/**
+ * What happened to a session, as recorded in the session ledger
+ */
+export type SessionLedgerEvent = 'started' | 'completed' | 'abandoned';
+
+/**
+ * One line of the session ledger shared between devices
+ */
+export interface SessionLedgerEntry {
+  /** Unique ID of the entry, so a line duplicated by a merge counts once */
+  id: string;
+  /** ID of the atomisation session */
+  session: string;
+  event: SessionLedgerEvent;
+  /** ID of the device the event happened on */
+  device: string;
+  deviceName: string;
+  /** When the event happened (ISO string) */
+  time: string;
+  /** Local day the event happened on (YYYY-MM-DD) */
+  date: string;
+  /** Path of the source note */
+  source: string;
+  /** Paths of the atoms created, on completion */
+  atoms?: string[];
+  /** Number of quarry notes when the session started */
+  quarrySize?: number;
+  /** Milliseconds spent in each phase, when the session ends */
+  phaseTimes?: PhaseTimes;
+}
+
+/**
+ * State kept for this device only, outside the synced plugin data
+ */
+export interface DeviceState {
+  /** Name shown to other devices in the session ledger */
+  name: string;
+  /** Date of this device's last notification (YYYY-MM-DD) */
+  lastNotificationDate: string;
+  /** Time of this device's last notification in milliseconds */
+  lastNotificationAt?: number;
+}
 
 export interface KastenatorSettings {
   /** Hour of day to show notification (0-23) */
   notificationHour: number;
   /** Minute of hour to show notification (0-59) */
   notificationMinute: number;
+  /** Times of day to notify; empty to use notificationHour and notificationMinute */
+  notificationSlots: TimeOfDay[];
+  /** Days of the week to notify on (0 is Sunday) */
+  notificationDays: number[];
+  /** Hours during which notifications wait, or null for none */
+  quietHours: QuietHours | null;
+  /** Sessions to finish each day, after which the day's remaining slots are skipped (0 for no target) */
+  sessionsPerDay: number;
+  /** Note recording the sessions of every device, one JSON entry per line */
+  sessionLedgerPath: string;
   /** Folders to search for quarry notes */
   quarryFolders: string[];
   /** Dataview field name for migration status */
   migrationField: string;
   /** Value indicating note is in quarry */
   quarryValue: string;
+  /** Lifecycle of migration values and the transitions between them */
+  migrationLifecycle: MigrationLifecycle;
+  /** Weights applied to each selection strategy when picking a quarry note */
+  selectionWeights: SelectionWeights;
+  /** Number of times each note (by path) has been skipped */
+  skipCounts: Record<string, number>;
   /** Folder to create atom notes in */
   atomFolder: string;
   /** Template file path for new atoms */
   atomTemplatePath: string;
-  /** Last notification date (ISO string) */
+  /** How the source note links to atoms created from it */
+  sourceAtomLinks: SourceAtomLinkStyle;
+  /** Whether source "Atoms" entries link to evidence passages by block reference */
+  linkEvidenceBlocks: boolean;
+  /** Last notification date on this device (YYYY-MM-DD); loaded from the device state */
   lastNotificationDate: string;
+  /** Time of the last notification on this device in milliseconds, so each slot fires once */
+  lastNotificationAt?: number;
   /** Whether daily notification is enabled */
   notificationEnabled: boolean;
+  /** Minutes to wait before reminding again after "Remind Me Later" */
+  snoozeMinutes: number;
+  /** Unfinished atomisation session, saved so it survives reloads */
+  savedSession: SerializedSession | null;
+  /** Spaced-repetition state for each created atom */
+  reviewCards: ReviewCard[];
+  /** Token usage and estimated cost of each LLM call */
+  usageLedger: UsageRecord[];
+  /** Monthly LLM spend in US dollars above which LLM calls stop (0 for no cap) */
+  monthlyBudget: number;
 
   /** LLM provider for AI-powered critique */
   llmProvider: LLMProviderType;
+  /** Providers to try in order when the primary one fails */
+  llmFallbackProviders: LLMProviderType[];
+  /** Seconds to wait for an LLM response before giving up on an attempt */
+  llmTimeoutSeconds: number;
+  /** Retries for overloaded, rate-limited or failing LLM servers */
+  llmMaxRetries: number;
   /** Whether to use LLM critique when available */
   useLLMCritique: boolean;
+  /** Folder holding prompt template notes */
+  promptTemplateFolder: string;
+  /** Critique prompt template note ('' for the built-in prompt) */
+  critiquePromptPath: string;
+  /** Concept suggestion prompt template note ('' for the built-in prompt) */
+  conceptPromptPath: string;
+  /** Estimated tokens of source note text to include in prompts */
+  promptSourceTokens: number;
   /** Claude API key (direct) */
   claudeApiKey?: string;
   /** Claude model ID */
@@ -40,6 +182,12 @@ export interface KastenatorSettings {
   openrouterApiKey?: string;
   /** OpenRouter model ID */
   openrouterModel?: string;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 */
+  openaiCompatibleBaseUrl?: string;
+  /** Model name on the OpenAI-compatible server */
+  openaiCompatibleModel?: string;
+  /** API key for the OpenAI-compatible server, if it needs one */
+  openaiCompatibleApiKey?: string;
 }
 
 /**
@@ -73,14 +221,92 @@ export interface AtomCandidate {
   relatedAtoms: string[];
   /** Critique feedback from the quiz */
   critique: string;
+  /** Per-criterion assessment behind the critique, if one was made */
+  scorecard?: CritiqueScorecard;
+  /** Replies to the critique and the LLM's answers, oldest first */
+  critiqueThread?: CritiqueMessage[];
+  /** Each critique of a distinct version of the candidate, oldest first */
+  critiqueRounds?: CritiqueRound[];
   /** Whether this candidate is approved for creation */
   approved: boolean;
+  /** Path of the atom note, once created */
+  atomPath?: string;
+  /** Exact source passage the evidence was selected from, if any */
+  evidenceRange?: EvidenceRange;
+  /** What to do about an existing atom this candidate duplicates */
+  duplicateResolution?: DuplicateResolution;
+}
+
+/**
+ * How to handle a candidate that duplicates an existing atom
+ *
+ * - merge: add the candidate's explanation and evidence to the existing atom
+ * - link: create the atom and link it to the existing one as related
+ * - create: create the atom as if there were no duplicate
+ */
+export type DuplicateAction = 'merge' | 'link' | 'create';
+
+/**
+ * The chosen handling of a duplicate, with the existing atom it applies to
+ */
+export interface DuplicateResolution {
+  action: DuplicateAction;
+  /** Path of the existing atom */
+  path: string;
+}
+
+/**
+ * A turn in a conversation with the LLM
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A message in a candidate's critique thread
+ */
+export interface CritiqueMessage extends ChatMessage {
+  /** When the message was sent (ISO string) */
+  timestamp: string;
+  /** Provider type that wrote an assistant message */
+  provider?: string;
+}
+
+/**
+ * A concept proposed by the LLM during identification
+ *
+ * Suggestions are only turned into candidates when the user accepts them.
+ */
+export interface ConceptSuggestion {
+  /** The concept or claim, in a sentence */
+  concept: string;
+  /** Proposed title for the atom note */
+  title: string;
+  /** Verbatim source excerpt supporting the concept */
+  excerpt: string;
+}
+
+/**
+ * A passage of the source note selected as evidence
+ */
+export interface EvidenceRange {
+  /** Start offset in the source note content */
+  start: number;
+  /** End offset (exclusive) in the source note content */
+  end: number;
+  /** Source text between the offsets when selected */
+  text: string;
+  /** Block ID added to the source so the atom can embed the passage */
+  blockId?: string;
 }
 
 /**
  * State of an atomisation session
  */
 export interface AtomisationSession {
+  /** Unique ID for this session */
+  id: string;
   /** The source note being atomised */
   sourceNote: QuarryNote;
   /** Candidates identified so far */
@@ -89,10 +315,34 @@ export interface AtomisationSession {
   phase: AtomisationPhase;
   /** Session start time */
   startedAt: Date;
+  /** Milliseconds spent in each phase before the current one was entered */
+  phaseTimes: PhaseTimes;
+  /** When the current phase was entered, or the session resumed in it */
+  phaseStartedAt: Date;
   /** Whether session is complete */
   completed: boolean;
 }
 
+/**
+ * Persisted form of an atomisation session
+ */
+export interface SerializedSession {
+  id: string;
+  /** Vault path of the source note */
+  sourcePath: string;
+  candidates: AtomCandidate[];
+  phase: AtomisationPhase;
+  /** Session start time (ISO string) */
+  startedAt: string;
+  /** Milliseconds spent in each phase; absent in sessions saved before it was tracked */
+  phaseTimes?: PhaseTimes;
+}
+
+/**
+ * Milliseconds spent in each phase of a session
+ */
+export type PhaseTimes = Partial<Record<AtomisationPhase, number>>;
+
 /**
  * Phases of the atomisation quiz workflow
  */
@@ -106,6 +356,51 @@ export type AtomisationPhase =
   | 'creation'          // Creating the atom files
   | 'complete';         // Session finished
 
+/**
+ * Spaced-repetition state for a created atom (SM-2)
+ */
+export interface ReviewCard {
+  /** Vault path of the atom note */
+  atomPath: string;
+  title: string;
+  /** Explanation saved at creation, used to grade recall */
+  explanation: string;
+  /** SM-2 ease factor (minimum 1.3) */
+  ease: number;
+  /** Current interval in days */
+  interval: number;
+  /** Consecutive successful reviews */
+  repetitions: number;
+  /** Next review date (YYYY-MM-DD, local) */
+  due: string;
+  /** Last review date (YYYY-MM-DD, local) */
+  lastReviewed?: string;
+}
+
+/**
+ * One LLM call in the usage ledger
+ */
+export interface UsageRecord {
+  /** When the call completed (ISO string) */
+  timestamp: string;
+  /** Provider type that answered */
+  provider: LLMProviderType;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Cost in US dollars, null when the model's price is unknown */
+  cost: number | null;
+  /** Atomisation session the call was made for, if any */
+  sessionId?: string;
+  /** Vault path of the source note the call was about, if any */
+  sourcePath?: string;
+}
+
+/**
+ * Self-assessed recall quality for a review
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
 /**
  * Quiz question structure
  */
@@ -124,6 +419,55 @@ export interface ValidationResult {
   valid: boolean;
   feedback: string;
   suggestions?: string[];
+  /** Critique criterion the failure belongs to */
+  criterion?: CritiqueCriterion;
+}
+
+/**
+ * Criteria every critique assesses
+ */
+export type CritiqueCriterion = 'atomicity' | 'clarity' | 'substance' | 'evidence' | 'accuracy';
+
+/**
+ * Verdict on one criterion; `unchecked` when the critic cannot judge it
+ */
+export type CritiqueVerdict = 'pass' | 'weak' | 'fail' | 'unchecked';
+
+/**
+ * Assessment of a candidate against one criterion
+ */
+export interface CriterionAssessment {
+  /** Score from 1 (poor) to 5 (excellent), null when unchecked */
+  score: number | null;
+  verdict: CritiqueVerdict;
+  /** One-sentence reason for the verdict */
+  reason: string;
+}
+
+/**
+ * Structured critique of a candidate, from the LLM or the rules
+ */
+export interface CritiqueScorecard {
+  criteria: Record<CritiqueCriterion, CriterionAssessment>;
+  /** Overall remarks */
+  summary: string;
+  /** Who produced the critique: `rules` or the LLM provider type */
+  source: string;
+  /** Why the LLM critique failed, when the rules stood in for it */
+  error?: string;
+}
+
+/**
+ * One critique of a candidate, with the text it judged
+ */
+export interface CritiqueRound {
+  /** Explanation as it was critiqued */
+  explanation: string;
+  /** Evidence as it was critiqued */
+  evidence: string;
+  scorecard: CritiqueScorecard;
+  /** When the critique finished (ISO string) */
+  timestamp: string;
 }
 
 /**
@@ -1,34 +1,53 @@
-import { Modal, App, TFile } from 'obsidian';
+import { Modal, App, Notice } from 'obsidian';
 import { QuarryNote } from '../types';
+import { describeError } from '../services/llm/errors';
+
+/**
+ * What the modal's buttons do, each given the note on show
+ */
+export interface AtomisationModalActions {
+  onStart: (note: QuarryNote) => void;
+  onDefer: (note: QuarryNote) => void;
+  onSkip: (note: QuarryNote) => void;
+  /** Another quarry note to offer instead, or null if there is none */
+  onPickAnother: () => Promise<QuarryNote | null>;
+}
 
 /**
  * Quick modal for showing atomisation notifications
  *
  * This modal provides a quick-action interface when the daily
  * notification fires. Users can choose to start the full
- * atomisation flow or defer.
+ * atomisation flow, defer, skip the note or pick another one.
  */
 export class AtomisationModal extends Modal {
   private note: QuarryNote;
-  private onStart: () => void;
-  private onDefer: () => void;
+  private actions: AtomisationModalActions;
+  private dueReviews: number;
 
   constructor(
     app: App,
     note: QuarryNote,
-    onStart: () => void,
-    onDefer: () => void
+    actions: AtomisationModalActions,
+    dueReviews = 0
   ) {
     super(app);
     this.note = note;
-    this.onStart = onStart;
-    this.onDefer = onDefer;
+    this.actions = actions;
+    this.dueReviews = dueReviews;
   }
 
   onOpen(): void {
-    const { contentEl } = this;
+    this.contentEl.addClass('kastenator-modal');
+    this.render();
+  }
 
-    contentEl.addClass('kastenator-modal');
+  /**
+   * Render the modal for the current note
+   */
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
 
     // Header
     contentEl.createEl('h2', { text: 'Time to Atomise' });
@@ -46,6 +65,11 @@ export class AtomisationModal extends Modal {
     meta.createEl('span', {
       text: `Folder: ${this.note.file.parent?.path ?? 'Root'}`,
     });
+    if (this.dueReviews > 0) {
+      meta.createEl('span', {
+        text: `${this.dueReviews} atom review${this.dueReviews === 1 ? '' : 's'} due`,
+      });
+    }
 
     // Actions
     const actions = contentEl.createDiv({ cls: 'kastenator-modal-actions' });
@@ -56,7 +80,7 @@ export class AtomisationModal extends Modal {
     });
     startBtn.addEventListener('click', () => {
       this.close();
-      this.onStart();
+      this.actions.onStart(this.note);
     });
 
     const deferBtn = actions.createEl('button', {
@@ -65,7 +89,7 @@ export class AtomisationModal extends Modal {
     });
     deferBtn.addEventListener('click', () => {
       this.close();
-      this.onDefer();
+      this.actions.onDefer(this.note);
     });
 
     const skipBtn = actions.createEl('button', {
@@ -73,6 +97,29 @@ export class AtomisationModal extends Modal {
     });
     skipBtn.addEventListener('click', () => {
       this.close();
+      this.actions.onSkip(this.note);
+    });
+
+    const anotherBtn = actions.createEl('button', {
+      text: 'Pick Another Note',
+    });
+    anotherBtn.addEventListener('click', async () => {
+      anotherBtn.disabled = true;
+      let next: QuarryNote | null;
+      try {
+        next = await this.actions.onPickAnother();
+      } catch (error) {
+        new Notice(`Could not pick another note: ${describeError(error)}`);
+        anotherBtn.disabled = false;
+        return;
+      }
+
+      if (next) {
+        this.note = next;
+        this.render();
+      } else {
+        anotherBtn.setText('No Other Notes');
+      }
     });
   }
 
@@ -3,17 +3,36 @@ import {
   WorkspaceLeaf,
   TFile,
   MarkdownRenderer,
+  MarkdownView,
+  Notice,
   setIcon,
 } from 'obsidian';
 import DailyKastenatorPlugin from '../main';
-import { AtomisationService } from '../services/atomisation';
+import { AtomisationService, CreatedAtoms } from '../services/atomisation';
 import { QuarryService } from '../services/quarry';
 import {
   QuarryNote,
   AtomCandidate,
   AtomisationPhase,
   AtomisationSession,
+  ReviewCard,
+  ReviewGrade,
+  ConceptSuggestion,
+  CritiqueScorecard,
+  CritiqueMessage,
+  DuplicateAction,
 } from '../types';
+import {
+  CRITIQUE_CRITERIA,
+  countRoundsToPass,
+  formatScorecard,
+  getFailingCriteria,
+} from '../services/critique';
+import { diffWords, hasChanges } from '../services/diff';
+import { DuplicateMatch } from '../services/duplicates';
+import { CANCELLED_ERROR } from '../services/llm';
+import { describeError } from '../services/llm/errors';
+import { formatCost } from '../services/usage';
 
 export const ATOMISATION_VIEW_TYPE = 'kastenator-atomisation-view';
 
@@ -28,15 +47,23 @@ export class AtomisationView extends ItemView {
   private atomisationService: AtomisationService;
   private quarryService: QuarryService;
   private currentNote: QuarryNote | null = null;
+  private conceptSuggestions: ConceptSuggestion[] = [];
+  /** Provider type that produced the current suggestions */
+  private suggestionProvider = '';
+  private critiqueRequests: AbortController[] = [];
 
   constructor(leaf: WorkspaceLeaf, plugin: DailyKastenatorPlugin) {
     super(leaf);
     this.plugin = plugin;
     this.atomisationService = new AtomisationService(
       this.app,
-      this.plugin.settings
+      this.plugin.settings,
+      this.plugin.sessionStore,
+      this.plugin.reviewService,
+      this.plugin.usageLedger,
+      this.plugin.sessionLedger
     );
-    this.quarryService = new QuarryService(this.app, this.plugin.settings);
+    this.quarryService = this.plugin.quarryService;
   }
 
   getViewType(): string {
@@ -59,7 +86,17 @@ export class AtomisationView extends ItemView {
   }
 
   async onClose(): Promise<void> {
-    this.atomisationService.endSession();
+    this.cancelCritiques();
+    // Keep the saved copy so the session can be resumed later
+    this.atomisationService.suspendSession();
+  }
+
+  /**
+   * Show the welcome screen, including any resumable session
+   */
+  showWelcome(): void {
+    if (this.atomisationService.getSession()) return;
+    this.renderWelcome();
   }
 
   /**
@@ -77,7 +114,10 @@ export class AtomisationView extends ItemView {
       migrationStatus: this.plugin.settings.quarryValue,
     };
 
-    this.atomisationService.startSession(this.currentNote);
+    this.conceptSuggestions = [];
+    const quarrySize = (await this.quarryService.getQuarryFiles()).length;
+    this.atomisationService.startSession(this.currentNote, quarrySize);
+    await this.quarryService.applyLifecycleEvent(file, 'start');
     this.renderPhase('introduction');
   }
 
@@ -94,6 +134,8 @@ export class AtomisationView extends ItemView {
       text: 'Transform your quarry notes into atomic knowledge.',
     });
 
+    this.renderResumeOffer(container);
+
     const button = container.createEl('button', {
       text: 'Start Random Session',
       cls: 'mod-cta',
@@ -102,12 +144,171 @@ export class AtomisationView extends ItemView {
     button.addEventListener('click', () => {
       this.plugin.triggerDailyNotification();
     });
+
+    const dueCount = this.plugin.reviewService.getDueCount();
+    if (dueCount > 0) {
+      const reviewBtn = container.createEl('button', {
+        text: `Review Due Atoms (${dueCount})`,
+      });
+      reviewBtn.addEventListener('click', () => {
+        this.startReview();
+      });
+    }
+  }
+
+  /**
+   * Start reviewing all atoms that are due today
+   */
+  startReview(): void {
+    const cards = this.plugin.reviewService.getDueCards();
+    this.renderReview(cards, 0);
+  }
+
+  /**
+   * Review: recall a due atom from its title alone, then self-grade
+   */
+  private renderReview(cards: ReviewCard[], index: number): void {
+    this.contentEl.empty();
+
+    const card = cards[index];
+    if (!card) {
+      this.renderReviewComplete(cards.length);
+      return;
+    }
+
+    const header = this.contentEl.createDiv({ cls: 'kastenator-header' });
+    header.createEl('h3', { text: 'Review Due Atoms' });
+    header.createEl('p', {
+      text: `${index + 1} of ${cards.length}`,
+      cls: 'kastenator-hint',
+    });
+
+    const container = this.contentEl.createDiv({ cls: 'kastenator-phase' });
+    container.createEl('h4', { text: card.title });
+    container.createEl('p', {
+      text: 'Explain this concept from memory before revealing your saved explanation.',
+    });
+
+    const recallGroup = container.createDiv({ cls: 'kastenator-field-group' });
+    recallGroup.createEl('label', { text: 'Your recall' });
+    const recallInput = recallGroup.createEl('textarea', {
+      placeholder: 'Explain the concept in your own words...',
+    });
+
+    const answer = container.createDiv({ cls: 'kastenator-review-answer' });
+
+    const nav = container.createDiv({ cls: 'kastenator-nav' });
+    this.renderActionButton(nav, 'Reveal', () => {
+      nav.empty();
+      recallInput.disabled = true;
+
+      answer.createEl('strong', { text: 'Saved explanation:' });
+      answer.createEl('p', { text: card.explanation });
+
+      const grades: Array<{ grade: ReviewGrade; label: string }> = [
+        { grade: 'again', label: 'Again' },
+        { grade: 'hard', label: 'Hard' },
+        { grade: 'good', label: 'Good' },
+        { grade: 'easy', label: 'Easy' },
+      ];
+      for (const { grade, label } of grades) {
+        const gradeBtn = nav.createEl('button', {
+          text: label,
+          cls: grade === 'good' ? 'mod-cta' : '',
+        });
+        gradeBtn.addEventListener('click', async () => {
+          await this.plugin.reviewService.grade(card.atomPath, grade);
+          this.renderReview(cards, index + 1);
+        });
+      }
+    });
+
+    const openAtom = container.createEl('a', {
+      text: `Open ${card.title}`,
+      cls: 'kastenator-review-open',
+    });
+    openAtom.addEventListener('click', () => {
+      const file = this.app.vault.getAbstractFileByPath(card.atomPath);
+      if (file instanceof TFile) {
+        this.app.workspace.getLeaf().openFile(file);
+      }
+    });
+  }
+
+  /**
+   * Review finished: return to the active session or the welcome screen
+   */
+  private renderReviewComplete(reviewedCount: number): void {
+    const container = this.contentEl.createDiv({ cls: 'kastenator-phase' });
+
+    container.createEl('h4', { text: 'Review Complete' });
+    container.createEl('p', {
+      text: `Reviewed ${reviewedCount} atom${reviewedCount === 1 ? '' : 's'}.`,
+    });
+
+    const session = this.atomisationService.getSession();
+    if (session) {
+      this.renderActionButton(container, 'Back to Session', () => {
+        this.renderPhase(session.phase);
+      });
+    } else {
+      this.renderActionButton(container, 'Done', () => {
+        this.renderWelcome();
+      });
+    }
+  }
+
+  /**
+   * Offer to resume or discard an unfinished session
+   */
+  private renderResumeOffer(container: HTMLElement): void {
+    const saved = this.plugin.sessionStore.load();
+    if (!saved) return;
+
+    const title = saved.sourcePath.split('/').pop()?.replace(/\.md$/, '') ?? saved.sourcePath;
+    const startedAt = new Date(saved.startedAt).toLocaleString();
+
+    const resume = container.createDiv({ cls: 'kastenator-resume' });
+    resume.createEl('h4', { text: 'Unfinished Session' });
+    resume.createEl('p', {
+      text: `"${title}" was left in the ${saved.phase} phase with ${saved.candidates.length} concept${saved.candidates.length === 1 ? '' : 's'} (started ${startedAt}).`,
+    });
+
+    const actions = resume.createDiv({ cls: 'kastenator-nav' });
+
+    this.renderActionButton(actions, 'Resume Session', async () => {
+      const session = await this.atomisationService.resumeSession();
+      if (!session) {
+        this.renderWelcome();
+        return;
+      }
+      this.currentNote = session.sourceNote;
+      this.conceptSuggestions = [];
+      this.renderPhase(session.phase);
+    });
+
+    const discardBtn = actions.createEl('button', {
+      text: 'Discard',
+      cls: 'mod-secondary',
+    });
+    discardBtn.addEventListener('click', async () => {
+      await this.plugin.sessionStore.clear();
+      this.plugin.sessionLedger
+        .record('abandoned', saved.id, saved.sourcePath)
+        .catch((error) => console.error('Failed to record the session in the ledger', error));
+      const file = this.app.vault.getAbstractFileByPath(saved.sourcePath);
+      if (file instanceof TFile) {
+        await this.quarryService.applyLifecycleEvent(file, 'abandon');
+      }
+      this.renderWelcome();
+    });
   }
 
   /**
    * Render the current phase of the atomisation workflow
    */
   private renderPhase(phase: AtomisationPhase): void {
+    this.cancelCritiques();
     this.contentEl.empty();
 
     const session = this.atomisationService.getSession();
@@ -143,7 +344,7 @@ export class AtomisationView extends ItemView {
         this.renderCreation(session);
         break;
       case 'complete':
-        this.renderComplete(session);
+        this.renderComplete();
         break;
     }
   }
@@ -247,6 +448,8 @@ export class AtomisationView extends ItemView {
       }
     });
 
+    this.renderConceptSuggestions(container);
+
     // List of added concepts
     if (session.candidates.length > 0) {
       const list = container.createDiv({ cls: 'kastenator-candidate-list' });
@@ -286,6 +489,101 @@ export class AtomisationView extends ItemView {
     }
   }
 
+  /**
+   * Render LLM concept suggestions for the user to accept, edit or reject
+   *
+   * Only shown when an LLM is available. Nothing is added to the session
+   * until the user accepts a suggestion.
+   */
+  private renderConceptSuggestions(container: HTMLElement): void {
+    const section = container.createDiv({ cls: 'kastenator-concept-suggestions' });
+
+    if (this.conceptSuggestions.length === 0) {
+      this.atomisationService
+        .isLLMAvailable()
+        .then((available) => {
+          if (!available) return;
+
+          const suggestBtn = section.createEl('button', { text: 'Suggest concepts' });
+          suggestBtn.addEventListener('click', async () => {
+            suggestBtn.disabled = true;
+            suggestBtn.setText('Suggesting...');
+
+            try {
+              const { suggestions, error, provider } =
+                await this.atomisationService.suggestConcepts();
+              // The view may have moved on while the LLM was answering
+              if (
+                !section.isConnected ||
+                this.atomisationService.getSession()?.phase !== 'identification'
+              ) {
+                return;
+              }
+              if (error) {
+                new Notice(`Could not suggest concepts: ${error}`);
+              }
+              this.conceptSuggestions = suggestions;
+              this.suggestionProvider = provider ?? '';
+              this.renderPhase('identification');
+            } catch (error) {
+              new Notice(`Could not suggest concepts: ${describeError(error)}`);
+              suggestBtn.disabled = false;
+              suggestBtn.setText('Suggest concepts');
+            }
+          });
+        })
+        .catch((error) => console.error('Failed to check for an LLM provider', error));
+      return;
+    }
+
+    section.createEl('h5', { text: 'Suggested Concepts' });
+    section.createEl('p', {
+      text: 'Decide for yourself whether each is a genuine atomic concept. Edit before accepting.',
+      cls: 'kastenator-hint',
+    });
+    if (this.suggestionProvider) {
+      section.createEl('p', {
+        text: `Suggested by ${this.atomisationService.describeLLMProvider(this.suggestionProvider)}`,
+        cls: 'kastenator-hint',
+      });
+    }
+
+    const dismiss = (suggestion: ConceptSuggestion): void => {
+      this.conceptSuggestions = this.conceptSuggestions.filter((s) => s !== suggestion);
+      this.renderPhase('identification');
+    };
+
+    for (const suggestion of this.conceptSuggestions) {
+      const card = section.createDiv({ cls: 'kastenator-suggestion-card' });
+
+      const conceptInput = card.createEl('textarea', { cls: 'kastenator-concept-input' });
+      conceptInput.value = suggestion.concept;
+
+      const titleInput = card.createEl('input', { type: 'text', value: suggestion.title });
+
+      if (suggestion.excerpt) {
+        card.createEl('blockquote', { text: suggestion.excerpt });
+      }
+
+      const actions = card.createDiv({ cls: 'kastenator-nav' });
+      const acceptBtn = actions.createEl('button', { text: 'Accept', cls: 'mod-cta' });
+      acceptBtn.addEventListener('click', () => {
+        const concept = conceptInput.value.trim();
+        if (!concept) return;
+
+        this.atomisationService.acceptSuggestion({
+          ...suggestion,
+          concept,
+          title: titleInput.value,
+        });
+        dismiss(suggestion);
+      });
+
+      const rejectBtn = actions.createEl('button', { text: 'Reject', cls: 'mod-secondary' });
+      rejectBtn.addEventListener('click', () => dismiss(suggestion));
+    }
+  }
+
   /**
    * Phase: Explanation
    * User explains each identified concept
@@ -338,12 +636,37 @@ export class AtomisationView extends ItemView {
       });
       evidenceInput.value = candidate.evidence;
       evidenceInput.addEventListener('change', () => {
+        // Typed evidence is no longer an exact source passage
         this.atomisationService.updateCandidate(candidate.id, {
           evidence: evidenceInput.value,
+          evidenceRange: undefined,
         });
       });
+
+      const evidenceActions = evidenceGroup.createDiv({ cls: 'kastenator-evidence-actions' });
+      const selectBtn = evidenceActions.createEl('button', { text: 'Use selected passage' });
+      // Keep the selection alive when the button is pressed
+      selectBtn.addEventListener('mousedown', (event) => event.preventDefault());
+      selectBtn.addEventListener('click', () => this.captureEvidence(candidate));
+
+      if (candidate.evidenceRange) {
+        evidenceActions.createSpan({
+          text: 'Linked to source passage',
+          cls: 'kastenator-evidence-linked',
+        });
+        const unlinkBtn = evidenceActions.createEl('button', { text: 'Unlink' });
+        unlinkBtn.addEventListener('click', () => {
+          this.atomisationService.updateCandidate(candidate.id, { evidenceRange: undefined });
+          this.renderPhase('explanation');
+        });
+      }
     }
 
+    container.createEl('p', {
+      text: 'Select a passage in the source below or in the note itself, then press "Use selected passage" to attach it exactly. The atom will embed the passage instead of quoting it.',
+      cls: 'kastenator-hint',
+    });
+
     // Source reference
     this.renderSourceReference(container, session);
 
@@ -368,35 +691,66 @@ export class AtomisationView extends ItemView {
 
     // Generate and display critique for each candidate
     for (const candidate of session.candidates) {
-      const critique = this.atomisationService.generateCritique(candidate);
-      this.atomisationService.updateCandidate(candidate.id, { critique });
-
       const card = container.createDiv({ cls: 'kastenator-critique-card' });
       card.createEl('h5', { text: candidate.suggestedTitle });
 
-      const validation = this.atomisationService.validateExplanation(candidate);
-
-      // Status indicator
-      const status = card.createDiv({
-        cls: `kastenator-status ${validation.valid ? 'valid' : 'needs-work'}`,
-      });
-      status.createSpan({
-        text: validation.valid ? 'Acceptable' : 'Needs refinement',
-      });
-
-      // Critique content
-      const critiqueEl = card.createDiv({ cls: 'kastenator-critique-content' });
-      critiqueEl.createEl('p', { text: critique });
-
-      // Suggestions if any
-      if (validation.suggestions && validation.suggestions.length > 0) {
-        const suggestionsEl = card.createDiv({ cls: 'kastenator-suggestions' });
-        suggestionsEl.createEl('strong', { text: 'Consider:' });
-        const list = suggestionsEl.createEl('ul');
-        for (const suggestion of validation.suggestions) {
-          list.createEl('li', { text: suggestion });
-        }
+      // Reuse the last critique, e.g. on resume, if nothing has changed since
+      const current = this.atomisationService.getCurrentScorecard(candidate);
+      if (current) {
+        this.renderScorecard(card, candidate, current);
+        continue;
       }
+
+      const progress = card.createDiv({ cls: 'kastenator-critique-progress' });
+      const pending = progress.createEl('p', { text: 'Assessing...', cls: 'kastenator-hint' });
+      const streamEl = progress.createEl('pre', { cls: 'kastenator-critique-stream' });
+
+      const controller = new AbortController();
+      this.critiqueRequests.push(controller);
+      const cancelBtn = progress.createEl('button', { text: 'Cancel', cls: 'mod-secondary' });
+      cancelBtn.addEventListener('click', () => controller.abort());
+
+      this.atomisationService
+        .generateCritiqueAsync(candidate, {
+          onProgress: (text) => {
+            pending.setText(text ? 'Receiving critique...' : 'Assessing...');
+            streamEl.setText(text);
+          },
+          onWaiting: (elapsedMs) => {
+            pending.setText(`Waiting for response... ${Math.round(elapsedMs / 1000)}s`);
+          },
+          signal: controller.signal,
+        })
+        .then((scorecard) => {
+          this.critiqueRequests = this.critiqueRequests.filter((c) => c !== controller);
+          // The view may have moved on while the critique was running
+          if (!card.isConnected) return;
+
+          progress.remove();
+          if (controller.signal.aborted) {
+            card.createEl('p', {
+              text: 'Cancelled. Showing the rule-based critique instead.',
+              cls: 'kastenator-hint',
+            });
+          }
+          this.renderScorecard(card, candidate, scorecard);
+        })
+        .catch((error) => {
+          this.critiqueRequests = this.critiqueRequests.filter((c) => c !== controller);
+          console.error('Failed to generate critique', error);
+          if (!card.isConnected) return;
+
+          progress.remove();
+          card.createEl('p', {
+            text: `AI critique failed: ${describeError(error)}. Showing the rule-based critique instead.`,
+            cls: 'kastenator-hint',
+          });
+          this.renderScorecard(
+            card,
+            candidate,
+            this.atomisationService.generateRuleBasedScorecard(candidate)
+          );
+        });
     }
 
     // Navigation
@@ -418,6 +772,174 @@ export class AtomisationView extends ItemView {
     });
   }
 
+  /**
+   * Cancel critiques still being generated
+   */
+  private cancelCritiques(): void {
+    for (const controller of this.critiqueRequests) {
+      controller.abort();
+    }
+    this.critiqueRequests = [];
+  }
+
+  /**
+   * Render a critique scorecard with one row per criterion
+   */
+  private renderScorecard(
+    card: HTMLElement,
+    candidate: AtomCandidate,
+    scorecard: CritiqueScorecard
+  ): void {
+    const validation = this.atomisationService.validateExplanation(candidate);
+    const acceptable = getFailingCriteria(scorecard).length === 0;
+
+    // Status indicator
+    const status = card.createDiv({
+      cls: `kastenator-status ${acceptable ? 'valid' : 'needs-work'}`,
+    });
+    status.createSpan({
+      text: acceptable ? 'Acceptable' : 'Needs refinement',
+    });
+
+    const table = card.createEl('table', { cls: 'kastenator-scorecard' });
+    for (const { id, name } of CRITIQUE_CRITERIA) {
+      const assessment = scorecard.criteria[id];
+      const row = table.createEl('tr', { cls: `kastenator-verdict-${assessment.verdict}` });
+      row.createEl('th', { text: name });
+      row.createEl('td', {
+        text: assessment.score === null ? '–' : `${assessment.score}/5`,
+        cls: 'kastenator-score',
+      });
+      row.createEl('td', { text: assessment.verdict, cls: 'kastenator-verdict' });
+      row.createEl('td', { text: assessment.reason });
+    }
+
+    if (scorecard.summary) {
+      const critiqueEl = card.createDiv({ cls: 'kastenator-critique-content' });
+      critiqueEl.createEl('p', { text: scorecard.summary });
+    }
+
+    // Suggestions if any
+    if (validation.suggestions && validation.suggestions.length > 0) {
+      const suggestionsEl = card.createDiv({ cls: 'kastenator-suggestions' });
+      suggestionsEl.createEl('strong', { text: 'Consider:' });
+      const list = suggestionsEl.createEl('ul');
+      for (const suggestion of validation.suggestions) {
+        list.createEl('li', { text: suggestion });
+      }
+    }
+
+    card.createEl('p', {
+      text:
+        scorecard.source === 'rules'
+          ? 'Rule-based critique'
+          : `Critique by ${this.atomisationService.describeLLMProvider(scorecard.source)}`,
+      cls: 'kastenator-hint',
+    });
+    if (scorecard.error) {
+      card.createEl('p', {
+        text: `AI critique unavailable: ${scorecard.error}`,
+        cls: 'kastenator-error',
+      });
+    }
+
+    this.renderCritiqueThread(card, candidate);
+  }
+
+  /**
+   * Render a candidate's critique thread with a box to reply
+   */
+  private renderCritiqueThread(card: HTMLElement, candidate: AtomCandidate): void {
+    const threadEl = card.createDiv({ cls: 'kastenator-critique-thread' });
+    const messagesEl = threadEl.createDiv({ cls: 'kastenator-chat-messages' });
+    const renderMessage = (message: CritiqueMessage): void => {
+      const messageEl = messagesEl.createDiv({ cls: `kastenator-chat-${message.role}` });
+      messageEl.createEl('strong', {
+        text:
+          message.role === 'user'
+            ? 'You'
+            : this.atomisationService.describeLLMProvider(message.provider ?? ''),
+      });
+      messageEl.createEl('p', { text: message.content });
+    };
+    for (const message of candidate.critiqueThread ?? []) {
+      renderMessage(message);
+    }
+
+    this.atomisationService.canDiscussCritique().then((available) => {
+      if (!available || !threadEl.isConnected) return;
+
+      const form = threadEl.createDiv({ cls: 'kastenator-chat-form' });
+      const input = form.createEl('textarea', {
+        attr: { placeholder: 'Reply to the critique, e.g. "the evidence is in paragraph 3"' },
+      });
+      const sendBtn = form.createEl('button', { text: 'Reply', cls: 'mod-cta' });
+      const status = threadEl.createEl('p', { cls: 'kastenator-hint' });
+
+      let controller: AbortController | null = null;
+
+      sendBtn.addEventListener('click', async () => {
+        // While an answer is on its way the button cancels it
+        if (controller) {
+          controller.abort();
+          return;
+        }
+
+        const text = input.value.trim();
+        if (!text) return;
+
+        const pending = messagesEl.createDiv({ cls: 'kastenator-chat-user' });
+        pending.createEl('strong', { text: 'You' });
+        pending.createEl('p', { text });
+        const answer = messagesEl.createDiv({ cls: 'kastenator-chat-assistant' });
+        const answerEl = answer.createEl('p', { text: 'Thinking...', cls: 'kastenator-hint' });
+
+        const request = new AbortController();
+        controller = request;
+        this.critiqueRequests.push(request);
+        input.disabled = true;
+        sendBtn.setText('Cancel');
+        status.setText('');
+
+        let reply: CritiqueMessage | undefined;
+        let error: string | undefined;
+        try {
+          ({ reply, error } = await this.atomisationService.replyToCritique(
+            candidate.id,
+            text,
+            {
+              onProgress: (partial) => {
+                answerEl.setText(partial || 'Thinking...');
+              },
+              onWaiting: (elapsedMs) => {
+                answerEl.setText(`Waiting for response... ${Math.round(elapsedMs / 1000)}s`);
+              },
+              signal: request.signal,
+            }
+          ));
+        } catch (failure) {
+          error = describeError(failure);
+        } finally {
+          controller = null;
+          this.critiqueRequests = this.critiqueRequests.filter((c) => c !== request);
+          pending.remove();
+          answer.remove();
+          input.disabled = false;
+          sendBtn.setText('Reply');
+        }
+        if (!threadEl.isConnected) return;
+
+        if (reply) {
+          renderMessage({ role: 'user', content: text, timestamp: reply.timestamp });
+          renderMessage(reply);
+          input.value = '';
+        } else if (error !== CANCELLED_ERROR) {
+          status.setText(`No answer: ${error}`);
+        }
+      });
+    });
+  }
+
   /**
    * Phase: Refinement
    * User refines explanations based on critique
@@ -432,37 +954,7 @@ export class AtomisationView extends ItemView {
 
     for (const candidate of session.candidates) {
       const card = container.createDiv({ cls: 'kastenator-refinement-card' });
-
-      // Show critique
-      if (candidate.critique) {
-        const critiqueEl = card.createDiv({ cls: 'kastenator-previous-critique' });
-        critiqueEl.createEl('strong', { text: 'Previous critique:' });
-        critiqueEl.createEl('p', { text: candidate.critique });
-      }
-
-      card.createEl('h5', { text: candidate.suggestedTitle });
-
-      // Editable explanation
-      const explainGroup = card.createDiv({ cls: 'kastenator-field-group' });
-      explainGroup.createEl('label', { text: 'Explanation' });
-      const explainInput = explainGroup.createEl('textarea');
-      explainInput.value = candidate.explanation;
-      explainInput.addEventListener('change', () => {
-        this.atomisationService.updateCandidate(candidate.id, {
-          explanation: explainInput.value,
-        });
-      });
-
-      // Evidence
-      const evidenceGroup = card.createDiv({ cls: 'kastenator-field-group' });
-      evidenceGroup.createEl('label', { text: 'Evidence' });
-      const evidenceInput = evidenceGroup.createEl('textarea');
-      evidenceInput.value = candidate.evidence;
-      evidenceInput.addEventListener('change', () => {
-        this.atomisationService.updateCandidate(candidate.id, {
-          evidence: evidenceInput.value,
-        });
-      });
+      this.renderRefinementCard(card, candidate);
     }
 
     // Source reference
@@ -475,6 +967,147 @@ export class AtomisationView extends ItemView {
     });
   }
 
+  /**
+   * Render one candidate's refinement card, with its critique rounds
+   */
+  private renderRefinementCard(card: HTMLElement, candidate: AtomCandidate): void {
+    // Show critique
+    if (candidate.critique) {
+      const critiqueEl = card.createDiv({ cls: 'kastenator-previous-critique' });
+      critiqueEl.createEl('strong', { text: 'Previous critique:' });
+      critiqueEl.createEl('p', { text: candidate.critique });
+      this.renderCritiqueThread(critiqueEl, candidate);
+    }
+
+    card.createEl('h5', { text: candidate.suggestedTitle });
+
+    const rounds = candidate.critiqueRounds ?? [];
+    if (rounds.length > 0) {
+      const passedAfter = countRoundsToPass(rounds);
+      card.createEl('p', {
+        text:
+          passedAfter === null
+            ? `Critiqued ${rounds.length} ${rounds.length === 1 ? 'time' : 'times'}, not passed yet`
+            : `Passed after ${passedAfter} ${passedAfter === 1 ? 'round' : 'rounds'}`,
+        cls: 'kastenator-hint',
+      });
+    }
+
+    // Editable explanation
+    const explainGroup = card.createDiv({ cls: 'kastenator-field-group' });
+    explainGroup.createEl('label', { text: 'Explanation' });
+    const explainInput = explainGroup.createEl('textarea');
+    explainInput.value = candidate.explanation;
+    explainInput.addEventListener('change', () => {
+      this.atomisationService.updateCandidate(candidate.id, {
+        explanation: explainInput.value,
+      });
+    });
+
+    // Changes since the last critique, or made for it
+    const diffEl = card.createDiv({ cls: 'kastenator-diff' });
+    const renderDiff = (): void => {
+      diffEl.empty();
+      const previous = this.atomisationService.getLastCritiquedExplanation(candidate);
+      let label = 'Changes since the last critique:';
+      let parts = previous === null ? [] : diffWords(previous, explainInput.value);
+      if (!hasChanges(parts) && rounds.length > 1) {
+        label = `Changes made for round ${rounds.length}:`;
+        parts = diffWords(rounds[rounds.length - 2].explanation, rounds[rounds.length - 1].explanation);
+      }
+      if (!hasChanges(parts)) return;
+
+      diffEl.createEl('strong', { text: label });
+      const textEl = diffEl.createEl('p');
+      for (const part of parts) {
+        if (part.type === 'same') {
+          textEl.appendText(part.text);
+        } else {
+          textEl.createEl(part.type === 'added' ? 'ins' : 'del', { text: part.text });
+        }
+      }
+    };
+    explainInput.addEventListener('input', renderDiff);
+    renderDiff();
+
+    // Evidence
+    const evidenceGroup = card.createDiv({ cls: 'kastenator-field-group' });
+    evidenceGroup.createEl('label', { text: 'Evidence' });
+    const evidenceInput = evidenceGroup.createEl('textarea');
+    evidenceInput.value = candidate.evidence;
+    evidenceInput.addEventListener('change', () => {
+      // Typed evidence is no longer an exact source passage
+      this.atomisationService.updateCandidate(candidate.id, {
+        evidence: evidenceInput.value,
+        evidenceRange: undefined,
+      });
+    });
+
+    // Re-critique the refined text
+    const actions = card.createDiv({ cls: 'kastenator-critique-progress' });
+    const recritiqueBtn = actions.createEl('button', { text: 'Re-critique' });
+    recritiqueBtn.addEventListener('click', async () => {
+      const evidenceEdited = evidenceInput.value !== candidate.evidence;
+      this.atomisationService.updateCandidate(candidate.id, {
+        explanation: explainInput.value,
+        evidence: evidenceInput.value,
+        ...(evidenceEdited ? { evidenceRange: undefined } : {}),
+      });
+
+      recritiqueBtn.disabled = true;
+      const pending = actions.createEl('p', { text: 'Assessing...', cls: 'kastenator-hint' });
+      const streamEl = actions.createEl('pre', { cls: 'kastenator-critique-stream' });
+      const controller = new AbortController();
+      this.critiqueRequests.push(controller);
+      const cancelBtn = actions.createEl('button', { text: 'Cancel', cls: 'mod-secondary' });
+      cancelBtn.addEventListener('click', () => controller.abort());
+
+      let failure: string | null = null;
+      try {
+        await this.atomisationService.generateCritiqueAsync(candidate, {
+          onProgress: (text) => {
+            pending.setText(text ? 'Receiving critique...' : 'Assessing...');
+            streamEl.setText(text);
+          },
+          onWaiting: (elapsedMs) => {
+            pending.setText(`Waiting for response... ${Math.round(elapsedMs / 1000)}s`);
+          },
+          signal: controller.signal,
+        });
+      } catch (error) {
+        console.error('Failed to generate critique', error);
+        failure = describeError(error);
+      } finally {
+        this.critiqueRequests = this.critiqueRequests.filter((c) => c !== controller);
+        pending.remove();
+        streamEl.remove();
+        cancelBtn.remove();
+        recritiqueBtn.disabled = false;
+      }
+      // The view may have moved on while the critique was running
+      if (!card.isConnected) return;
+
+      card.empty();
+      this.renderRefinementCard(card, candidate);
+      if (failure !== null) {
+        const scorecard = this.atomisationService.generateRuleBasedScorecard(candidate);
+        const fallback = card.createDiv({ cls: 'kastenator-previous-critique', prepend: true });
+        fallback.createEl('p', {
+          text: `AI critique failed: ${failure}. Showing the rule-based critique instead.`,
+          cls: 'kastenator-hint',
+        });
+        fallback.createEl('strong', { text: 'Rule-based critique:' });
+        fallback.createEl('p', { text: formatScorecard(scorecard) });
+      } else if (controller.signal.aborted) {
+        card.createEl('p', {
+          text: 'Cancelled. Showing the rule-based critique instead.',
+          cls: 'kastenator-hint',
+          prepend: true,
+        });
+      }
+    });
+  }
+
   /**
    * Phase: Confirmation
    * Final review before creating atoms
@@ -487,8 +1120,10 @@ export class AtomisationView extends ItemView {
       text: 'Select which atoms to create. Unselected items will be discarded.',
     });
 
+    const cards = new Map<string, HTMLElement>();
     for (const candidate of session.candidates) {
       const card = container.createDiv({ cls: 'kastenator-confirm-card' });
+      cards.set(candidate.id, card);
 
       // Checkbox for approval
       const checkGroup = card.createDiv({ cls: 'kastenator-check-group' });
@@ -511,8 +1146,49 @@ export class AtomisationView extends ItemView {
       if (candidate.evidence) {
         summary.createEl('blockquote', { text: candidate.evidence });
       }
+
+      // Flag candidates that still fail
+      const issues = this.atomisationService.getOutstandingIssues(candidate);
+      if (issues.length > 0) {
+        card.addClass('kastenator-needs-work');
+        const warning = card.createDiv({ cls: 'kastenator-status needs-work' });
+        warning.createSpan({ text: 'Still needs work' });
+        const list = card.createEl('ul', { cls: 'kastenator-outstanding-issues' });
+        for (const issue of issues) {
+          list.createEl('li', { text: issue });
+        }
+      }
+
+      const lastCritiqued = this.atomisationService.getLastCritiquedExplanation(candidate);
+      if (lastCritiqued !== null && lastCritiqued !== candidate.explanation) {
+        card.createEl('p', {
+          text: 'Edited since the last critique.',
+          cls: 'kastenator-hint',
+        });
+      }
     }
 
+    // Check for existing atoms the candidates duplicate
+    const checking = container.createEl('p', {
+      text: 'Checking for duplicate atoms...',
+      cls: 'kastenator-hint',
+    });
+    this.atomisationService
+      .findDuplicates()
+      .then((duplicates) => {
+        checking.remove();
+        for (const candidate of session.candidates) {
+          const card = cards.get(candidate.id);
+          const matches = duplicates.get(candidate.id);
+          if (card?.isConnected && matches) {
+            this.renderDuplicates(card, candidate, matches);
+          }
+        }
+      })
+      .catch((error) => {
+        checking.setText(`Could not check for duplicates: ${describeError(error)}`);
+      });
+
     // Count selected
     const selectedCount = session.candidates.filter((c) => c.approved).length;
     container.createEl('p', {
@@ -534,12 +1210,63 @@ export class AtomisationView extends ItemView {
       text: 'Cancel',
       cls: 'mod-secondary',
     });
-    cancelBtn.addEventListener('click', () => {
+    cancelBtn.addEventListener('click', async () => {
       this.atomisationService.endSession();
+      await this.quarryService.applyLifecycleEvent(session.sourceNote.file, 'abandon');
       this.renderWelcome();
     });
   }
 
+  /**
+   * Render the existing atoms a candidate may duplicate, with a choice of
+   * merging, linking or creating anyway
+   */
+  private renderDuplicates(
+    card: HTMLElement,
+    candidate: AtomCandidate,
+    matches: DuplicateMatch[]
+  ): void {
+    const section = card.createDiv({ cls: 'kastenator-duplicates' });
+    section.createEl('strong', { text: 'Possible duplicates:' });
+
+    const list = section.createEl('ul');
+    for (const match of matches) {
+      const item = list.createEl('li');
+      const link = item.createEl('a', { text: match.title });
+      link.addEventListener('click', () => {
+        this.app.workspace.openLinkText(match.path, '', true);
+      });
+
+      const reasons = [
+        match.titleScore > 0 ? `title ${Math.round(match.titleScore * 100)}%` : '',
+        match.contentScore > 0 ? `content ${Math.round(match.contentScore * 100)}%` : '',
+        match.semanticScore !== null ? `meaning ${Math.round(match.semanticScore * 100)}%` : '',
+      ].filter((r) => r);
+      item.createSpan({ text: ` (${reasons.join(', ')})`, cls: 'kastenator-hint' });
+    }
+
+    const select = section.createEl('select', { cls: 'dropdown' });
+    select.createEl('option', { text: 'Create anyway', value: '' });
+    for (const match of matches) {
+      select.createEl('option', { text: `Merge into "${match.title}"`, value: `merge:${match.path}` });
+      select.createEl('option', {
+        text: `Create and link to "${match.title}"`,
+        value: `link:${match.path}`,
+      });
+    }
+
+    const current = candidate.duplicateResolution;
+    select.value = current && current.action !== 'create' ? `${current.action}:${current.path}` : '';
+    select.addEventListener('change', () => {
+      const [action, ...path] = select.value.split(':');
+      this.atomisationService.updateCandidate(candidate.id, {
+        duplicateResolution: select.value
+          ? { action: action as DuplicateAction, path: path.join(':') }
+          : { action: 'create', path: matches[0].path },
+      });
+    });
+  }
+
   /**
    * Phase: Creation
    * Actually create the atom files
@@ -553,20 +1280,40 @@ export class AtomisationView extends ItemView {
     progress.createEl('p', { text: 'Creating atom files...' });
 
     try {
-      const createdFiles = await this.atomisationService.createAtoms();
+      const atoms = await this.atomisationService.createAtoms();
 
-      // Mark source as atomised
+      // Move the source on: fully atomised only if every concept became an atom
+      let sourceStatus: string | undefined;
       if (this.currentNote) {
-        await this.quarryService.markAsAtomised(this.currentNote.file);
+        const { file } = this.currentNote;
+        const evidence: Record<string, string> = {};
+        for (const candidate of session.candidates) {
+          if (candidate.atomPath) {
+            evidence[candidate.atomPath] = candidate.evidence;
+          }
+        }
+
+        const linked = [...atoms.created, ...atoms.merged];
+        const event = session.candidates.some((c) => !c.atomPath) ? 'partial' : 'complete';
+        const updated =
+          event === 'complete'
+            ? await this.quarryService.markAsAtomised(file, linked, evidence)
+            : await this.quarryService.applyLifecycleEvent(file, event);
+        if (event === 'partial') {
+          await this.quarryService.recordAtoms(file, linked, evidence);
+        }
+        if (updated) {
+          sourceStatus = this.plugin.settings.migrationLifecycle.events[event];
+        }
       }
 
       // Show completion
       this.atomisationService.advancePhase();
-      this.renderComplete(session, createdFiles);
+      this.renderComplete(atoms, sourceStatus);
     } catch (error) {
       progress.empty();
       progress.createEl('p', {
-        text: `Error creating atoms: ${error}`,
+        text: `Error creating atoms: ${describeError(error)}`,
         cls: 'kastenator-error',
       });
     }
@@ -576,30 +1323,39 @@ export class AtomisationView extends ItemView {
    * Phase: Complete
    * Show summary and links to created atoms
    */
-  private renderComplete(session: AtomisationSession, createdFiles?: TFile[]): void {
+  private renderComplete(atoms?: CreatedAtoms, sourceStatus?: string): void {
     const container = this.contentEl.createDiv({ cls: 'kastenator-phase' });
 
     container.createEl('h4', { text: 'Atomisation Complete' });
 
-    if (createdFiles && createdFiles.length > 0) {
+    if (atoms && atoms.created.length > 0) {
+      const count = atoms.created.length;
+      container.createEl('p', { text: `Created ${count} atom${count > 1 ? 's' : ''}:` });
+      this.renderAtomList(container, atoms.created);
+    }
+
+    if (atoms && atoms.merged.length > 0) {
+      const count = atoms.merged.length;
       container.createEl('p', {
-        text: `Created ${createdFiles.length} atom${createdFiles.length > 1 ? 's' : ''}:`,
+        text: `Merged into ${count} existing atom${count > 1 ? 's' : ''}:`,
       });
+      this.renderAtomList(container, atoms.merged);
+    }
 
-      const list = container.createEl('ul', { cls: 'kastenator-created-list' });
-      for (const file of createdFiles) {
-        const item = list.createEl('li');
-        const link = item.createEl('a', { text: file.basename });
-        link.addEventListener('click', () => {
-          this.app.workspace.getLeaf().openFile(file);
-        });
-      }
+    const usage = this.atomisationService.getSessionUsage();
+    if (usage && usage.calls > 0) {
+      container.createEl('p', {
+        text: `AI usage this session: ${usage.calls} call${usage.calls > 1 ? 's' : ''}, ${formatCost(usage.cost)}`,
+        cls: 'kastenator-hint',
+      });
     }
 
     // Source note link
     if (this.currentNote) {
       const sourceSection = container.createDiv({ cls: 'kastenator-source-link' });
-      sourceSection.createEl('p', { text: 'Source note has been marked as atomised.' });
+      if (sourceStatus) {
+        sourceSection.createEl('p', { text: `Source note has been marked as ${sourceStatus}.` });
+      }
 
       const openSource = sourceSection.createEl('a', {
         text: `Open ${this.currentNote.title}`,
@@ -630,6 +1386,83 @@ export class AtomisationView extends ItemView {
     });
   }
 
+  /**
+   * List atom files as links that open them
+   */
+  private renderAtomList(container: HTMLElement, files: TFile[]): void {
+    const list = container.createEl('ul', { cls: 'kastenator-created-list' });
+    for (const file of files) {
+      const link = list.createEl('li').createEl('a', { text: file.basename });
+      link.addEventListener('click', () => {
+        this.app.workspace.getLeaf().openFile(file);
+      });
+    }
+  }
+
+  /**
+   * Attach the passage currently selected in the source as a candidate's evidence
+   */
+  private captureEvidence(candidate: AtomCandidate): void {
+    const range = this.getEditorSelection() ?? this.getRenderedSelection();
+    if (!range) {
+      new Notice('Select a passage of the source note first.');
+      return;
+    }
+
+    if (!this.atomisationService.attachEvidence(candidate.id, range.start, range.end)) {
+      new Notice('Could not attach the selected passage.');
+      return;
+    }
+    this.renderPhase('explanation');
+  }
+
+  /**
+   * Get the selection in an open editor on the source note
+   */
+  private getEditorSelection(): { start: number; end: number } | null {
+    const session = this.atomisationService.getSession();
+    if (!session) return null;
+
+    for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+      const view = leaf.view;
+      if (!(view instanceof MarkdownView) || view.file?.path !== session.sourceNote.file.path) {
+        continue;
+      }
+
+      const { editor } = view;
+      if (!editor.somethingSelected()) continue;
+
+      const start = editor.posToOffset(editor.getCursor('from'));
+      const end = editor.posToOffset(editor.getCursor('to'));
+      const text = editor.getSelection();
+
+      // The note may have been edited since the session started
+      if (session.sourceNote.content.slice(start, end) === text) {
+        return { start, end };
+      }
+      return this.atomisationService.locateEvidence(text);
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the selection in one of this view's rendered source panels
+   *
+   * Rendered text is matched back to the markdown, ignoring markup.
+   */
+  private getRenderedSelection(): { start: number; end: number } | null {
+    const selection = this.contentEl.win.getSelection();
+    if (!selection || selection.isCollapsed || !selection.anchorNode) return null;
+
+    const anchor = selection.anchorNode;
+    const element = anchor instanceof Element ? anchor : anchor.parentElement;
+    if (!element?.closest('.kastenator-source-content, .kastenator-preview')) return null;
+    if (!this.contentEl.contains(element)) return null;
+
+    return this.atomisationService.locateEvidence(selection.toString());
+  }
+
   /**
    * Render a collapsible source reference
    */
@@ -0,0 +1,158 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import DailyKastenatorPlugin from '../main';
+import {
+  DayCount,
+  PHASE_ORDER,
+  ProgressStats,
+  computeProgress,
+  formatDuration,
+} from '../services/progress';
+
+export const DASHBOARD_VIEW_TYPE = 'kastenator-dashboard-view';
+
+/**
+ * Dashboard of streaks and progress
+ *
+ * Figures are worked out from the session ledger, so they cover the
+ * sessions of every device syncing the vault.
+ */
+export class DashboardView extends ItemView {
+  private plugin: DailyKastenatorPlugin;
+
+  constructor(leaf: WorkspaceLeaf, plugin: DailyKastenatorPlugin) {
+    super(leaf);
+    this.plugin = plugin;
+  }
+
+  getViewType(): string {
+    return DASHBOARD_VIEW_TYPE;
+  }
+
+  getDisplayText(): string {
+    return 'Kastenator Dashboard';
+  }
+
+  getIcon(): string {
+    return 'bar-chart-2';
+  }
+
+  async onOpen(): Promise<void> {
+    this.contentEl = this.containerEl.children[1] as HTMLElement;
+    this.contentEl.addClass('kastenator-view');
+    await this.refresh();
+  }
+
+  /**
+   * Read the ledger again and redraw the dashboard
+   */
+  async refresh(): Promise<void> {
+    await this.plugin.sessionLedger.load();
+    const quarrySize = (await this.plugin.quarryService.getQuarryFiles()).length;
+    const stats = computeProgress(this.plugin.sessionLedger.getSessions(), quarrySize);
+    this.render(stats);
+  }
+
+  private render(stats: ProgressStats): void {
+    const container = this.contentEl;
+    container.empty();
+
+    const header = container.createDiv({ cls: 'kastenator-header kastenator-dashboard-header' });
+    header.createEl('h3', { text: 'Progress' });
+    const refreshBtn = header.createEl('button', { text: 'Refresh', cls: 'mod-secondary' });
+    refreshBtn.addEventListener('click', () => this.refresh());
+
+    if (stats.completedSessions + stats.abandonedSessions === 0) {
+      container.createEl('p', {
+        text: 'No sessions recorded yet. Figures appear here once you finish your first session.',
+        cls: 'kastenator-hint',
+      });
+    }
+
+    const tiles = container.createDiv({ cls: 'kastenator-dashboard-tiles' });
+    const days = (count: number) => `${count} day${count === 1 ? '' : 's'}`;
+    const finished = stats.completedSessions + stats.abandonedSessions;
+    this.renderTile(tiles, 'Current streak', days(stats.streaks.current));
+    this.renderTile(tiles, 'Longest streak', days(stats.streaks.longest));
+    this.renderTile(tiles, 'Atoms created', stats.totalAtoms.toString());
+    this.renderTile(tiles, 'Atoms per source note', stats.averageAtomsPerSource.toFixed(1));
+    this.renderTile(
+      tiles,
+      'Sessions completed',
+      stats.completionRate === null
+        ? '–'
+        : `${Math.round(stats.completionRate * 100)}% (${stats.completedSessions} of ${finished})`
+    );
+
+    this.renderChart(container, 'Atoms per day', stats.atomsPerDay, (date) => date.slice(8));
+    this.renderChart(container, 'Atoms per week', stats.atomsPerWeek, (date) => date.slice(5));
+    this.renderChart(container, 'Quarry size', stats.quarrySizes, (date) => date.slice(5));
+    this.renderPhaseTimes(container, stats);
+  }
+
+  private renderTile(container: HTMLElement, label: string, value: string): void {
+    const tile = container.createDiv({ cls: 'kastenator-dashboard-tile' });
+    tile.createDiv({ text: value, cls: 'kastenator-dashboard-value' });
+    tile.createDiv({ text: label, cls: 'kastenator-dashboard-label' });
+  }
+
+  /**
+   * Draw counts as a bar chart, labelling each bar by its date
+   */
+  private renderChart(
+    container: HTMLElement,
+    title: string,
+    counts: DayCount[],
+    formatDate: (date: string) => string
+  ): void {
+    const section = container.createDiv({ cls: 'kastenator-dashboard-section' });
+    section.createEl('h4', { text: title });
+
+    if (counts.length === 0) {
+      section.createEl('p', { text: 'Nothing recorded yet.', cls: 'kastenator-hint' });
+      return;
+    }
+
+    const max = Math.max(1, ...counts.map((day) => day.count));
+    const chart = section.createDiv({ cls: 'kastenator-chart' });
+    for (const day of counts) {
+      const column = chart.createDiv({ cls: 'kastenator-chart-column' });
+      column.setAttribute('aria-label', `${day.date}: ${day.count}`);
+      column.createDiv({ text: day.count.toString(), cls: 'kastenator-chart-count' });
+      const bar = column.createDiv({ cls: 'kastenator-chart-bar' });
+      bar.setCssStyles({ height: `${(day.count / max) * 100}%` });
+      column.createDiv({ text: formatDate(day.date), cls: 'kastenator-chart-label' });
+    }
+  }
+
+  /**
+   * List the average time per session spent in each phase
+   */
+  private renderPhaseTimes(container: HTMLElement, stats: ProgressStats): void {
+    const section = container.createDiv({ cls: 'kastenator-dashboard-section' });
+    section.createEl('h4', { text: 'Time per phase' });
+
+    const phases = PHASE_ORDER.filter((phase) => stats.averagePhaseTimes[phase]);
+    if (phases.length === 0) {
+      section.createEl('p', { text: 'Nothing recorded yet.', cls: 'kastenator-hint' });
+      return;
+    }
+
+    const max = Math.max(...phases.map((phase) => stats.averagePhaseTimes[phase] ?? 0));
+    for (const phase of phases) {
+      const time = stats.averagePhaseTimes[phase] ?? 0;
+      const row = section.createDiv({ cls: 'kastenator-phase-time' });
+      row.createSpan({
+        text: phase.charAt(0).toUpperCase() + phase.slice(1),
+        cls: 'kastenator-phase-time-name',
+      });
+      const track = row.createDiv({ cls: 'kastenator-phase-time-track' });
+      const bar = track.createDiv({ cls: 'kastenator-phase-time-bar' });
+      bar.setCssStyles({ width: `${(time / max) * 100}%` });
+      row.createSpan({ text: formatDuration(time), cls: 'kastenator-phase-time-value' });
+    }
+    section.createEl('p', {
+      text: 'Average per finished session.',
+      cls: 'kastenator-hint',
+    });
+  }
+}
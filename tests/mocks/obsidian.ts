@@ -4,17 +4,25 @@
 
 import { vi } from 'vitest';
 
+export interface FileStats {
+  ctime: number;
+  mtime: number;
+  size: number;
+}
+
 export class TFile {
   path: string;
   basename: string;
   extension: string;
   parent: TFolder | null;
+  stat: FileStats;
 
-  constructor(path: string) {
+  constructor(path: string, stat?: Partial<FileStats>) {
     this.path = path;
     this.basename = path.split('/').pop()?.replace(/\.md$/, '') ?? '';
     this.extension = 'md';
     this.parent = null;
+    this.stat = { ctime: 0, mtime: 0, size: 0, ...stat };
   }
 }
 
@@ -41,9 +49,52 @@ export interface CachedMetadata {
   sections?: Array<{ type: string; position: { start: { line: number } } }>;
 }
 
-export class Vault {
+type EventCallback = (...args: any[]) => unknown;
+
+export class Events {
+  private handlers: Map<string, EventCallback[]> = new Map();
+
+  on(name: string, callback: EventCallback): { name: string; callback: EventCallback } {
+    this.handlers.set(name, [...(this.handlers.get(name) ?? []), callback]);
+    return { name, callback };
+  }
+
+  trigger(name: string, ...args: unknown[]): void {
+    for (const callback of this.handlers.get(name) ?? []) {
+      callback(...args);
+    }
+  }
+}
+
+export class DataAdapter {
+  private files: Map<string, string> = new Map();
+  private folders: Set<string> = new Set();
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(path) || this.folders.has(path);
+  }
+
+  async read(path: string): Promise<string> {
+    const content = this.files.get(path);
+    if (content === undefined) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return content;
+  }
+
+  async write(path: string, data: string): Promise<void> {
+    this.files.set(path, data);
+  }
+
+  async mkdir(path: string): Promise<void> {
+    this.folders.add(path);
+  }
+}
+
+export class Vault extends Events {
   private files: Map<string, string> = new Map();
   private folders: Set<string> = new Set();
+  private stats: Map<string, Partial<FileStats>> = new Map();
 
   async read(file: TFile): Promise<string> {
     return this.files.get(file.path) ?? '';
@@ -66,9 +117,17 @@ export class Vault {
     this.folders.add(path);
   }
 
+  async process(file: TFile, fn: (data: string) => string): Promise<string> {
+    const content = fn(this.files.get(file.path) ?? '');
+    this.files.set(file.path, content);
+    return content;
+  }
+
+  adapter = new DataAdapter();
+
   getAbstractFileByPath(path: string): TAbstractFile | null {
     if (this.files.has(path)) {
-      return new TFile(path);
+      return this.fileFor(path);
     }
     if (this.folders.has(path)) {
       return new TFolder(path);
@@ -79,12 +138,20 @@ export class Vault {
   getMarkdownFiles(): TFile[] {
     return Array.from(this.files.keys())
       .filter((path) => path.endsWith('.md'))
-      .map((path) => new TFile(path));
+      .map((path) => this.fileFor(path));
+  }
+
+  private fileFor(path: string): TFile {
+    const size = this.files.get(path)?.length ?? 0;
+    return new TFile(path, { size, ...this.stats.get(path) });
   }
 
   // Test helpers
-  _setFile(path: string, content: string): void {
+  _setFile(path: string, content: string, stat?: Partial<FileStats>): void {
     this.files.set(path, content);
+    if (stat) {
+      this.stats.set(path, stat);
+    }
   }
 
   _setFolder(path: string): void {
@@ -92,13 +159,16 @@ export class Vault {
   }
 
   _clear(): void {
+    this.adapter = new DataAdapter();
     this.files.clear();
     this.folders.clear();
+    this.stats.clear();
   }
 }
 
-export class MetadataCache {
+export class MetadataCache extends Events {
   private cache: Map<string, CachedMetadata> = new Map();
+  resolvedLinks: Record<string, Record<string, number>> = {};
 
   getFileCache(file: TFile): CachedMetadata | null {
     return this.cache.get(file.path) ?? null;
@@ -111,19 +181,40 @@ export class MetadataCache {
 
   _clear(): void {
     this.cache.clear();
+    this.resolvedLinks = {};
   }
 }
 
+export class FileManager {
+  private metadataCache: MetadataCache;
+
+  constructor(metadataCache: MetadataCache) {
+    this.metadataCache = metadataCache;
+  }
+
+  // Edits the cached frontmatter; tests assert on the metadata cache
+  processFrontMatter = vi.fn(
+    async (file: TFile, fn: (frontmatter: Record<string, unknown>) => void): Promise<void> => {
+      const cache = this.metadataCache.getFileCache(file) ?? {};
+      const frontmatter = { ...(cache.frontmatter ?? {}) };
+      fn(frontmatter);
+      this.metadataCache._setCache(file.path, { ...cache, frontmatter });
+    }
+  );
+}
+
 export class App {
   vault: Vault;
   metadataCache: MetadataCache;
   workspace: Workspace;
+  fileManager: FileManager;
   plugins: { plugins: Record<string, unknown> };
 
   constructor() {
     this.vault = new Vault();
     this.metadataCache = new MetadataCache();
     this.workspace = new Workspace();
+    this.fileManager = new FileManager(this.metadataCache);
     this.plugins = { plugins: {} };
   }
 }
@@ -135,6 +226,7 @@ export class Workspace {
   revealLeaf = vi.fn();
   detachLeavesOfType = vi.fn();
   on = vi.fn();
+  onLayoutReady = vi.fn((callback: () => void) => callback());
 }
 
 export class Plugin {
@@ -206,8 +298,10 @@ export class Setting {
   setName = vi.fn().mockReturnThis();
   setDesc = vi.fn().mockReturnThis();
   addText = vi.fn().mockReturnThis();
+  addTextArea = vi.fn().mockReturnThis();
   addToggle = vi.fn().mockReturnThis();
   addDropdown = vi.fn().mockReturnThis();
+  addSlider = vi.fn().mockReturnThis();
   addButton = vi.fn().mockReturnThis();
 }
 
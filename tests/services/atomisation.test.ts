@@ -1,5 +1,9 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { AtomisationService } from '../../src/services/atomisation';
+import { SessionStore } from '../../src/services/session-store';
+import { ReviewService } from '../../src/services/review';
+import { CANCELLED_ERROR } from '../../src/services/llm/index';
+import { countRoundsToPass } from '../../src/services/critique';
 import { App, TFile } from '../mocks/obsidian';
 import { KastenatorSettings, QuarryNote, AtomCandidate } from '../../src/types';
 
@@ -13,6 +17,8 @@ const createDefaultSettings = (): KastenatorSettings => ({
   atomTemplatePath: '',
   lastNotificationDate: '',
   notificationEnabled: true,
+  savedSession: null,
+  reviewCards: [],
   llmProvider: 'none',
   useLLMCritique: false,
 });
@@ -72,6 +78,169 @@ describe('AtomisationService', () => {
     });
   });
 
+  describe('session ledger', () => {
+    let record: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      record = vi.fn().mockResolvedValue(undefined);
+      service = new AtomisationService(
+        app as any,
+        settings,
+        undefined,
+        undefined,
+        undefined,
+        { record } as any
+      );
+    });
+
+    it('records the session starting with the size of the quarry', () => {
+      const session = service.startSession(createQuarryNote(), 12);
+
+      expect(record).toHaveBeenCalledWith(
+        'started',
+        session.id,
+        'Fleeting notes/test-note.md',
+        { quarrySize: 12 }
+      );
+    });
+
+    it('records the atoms created when the session completes', async () => {
+      const session = service.startSession(createQuarryNote());
+      const candidate = service.addCandidate('A concept');
+      service.updateCandidate(candidate.id, { explanation: 'Detailed explanation', approved: true });
+
+      const { created } = await service.createAtoms();
+
+      expect(record).toHaveBeenLastCalledWith(
+        'completed',
+        session.id,
+        'Fleeting notes/test-note.md',
+        expect.objectContaining({ atoms: created.map((file) => file.path) })
+      );
+    });
+
+    it('records an unfinished session as abandoned when it ends', () => {
+      const session = service.startSession(createQuarryNote());
+      service.endSession();
+
+      expect(record).toHaveBeenLastCalledWith(
+        'abandoned',
+        session.id,
+        'Fleeting notes/test-note.md',
+        { phaseTimes: expect.any(Object) }
+      );
+    });
+
+    it('does not record a completed session as abandoned', async () => {
+      service.startSession(createQuarryNote());
+      const candidate = service.addCandidate('A concept');
+      service.updateCandidate(candidate.id, { explanation: 'Detailed explanation', approved: true });
+      await service.createAtoms();
+
+      service.endSession();
+
+      expect(record).not.toHaveBeenCalledWith(
+        'abandoned',
+        expect.anything(),
+        expect.anything(),
+        expect.anything()
+      );
+    });
+
+    it('carries on when the ledger cannot be written', async () => {
+      const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+      record.mockRejectedValue(new Error('Disk full'));
+
+      expect(() => service.startSession(createQuarryNote())).not.toThrow();
+      await Promise.resolve();
+      await Promise.resolve();
+
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+  });
+
+  describe('session persistence', () => {
+    let store: SessionStore;
+    let persist: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      persist = vi.fn().mockResolvedValue(undefined);
+      store = new SessionStore(settings, persist);
+      service = new AtomisationService(app as any, settings, store);
+    });
+
+    it('saves the session when it starts', () => {
+      service.startSession(createQuarryNote());
+
+      expect(settings.savedSession?.sourcePath).toBe('Fleeting notes/test-note.md');
+      expect(settings.savedSession?.phase).toBe('introduction');
+    });
+
+    it('saves candidate and phase changes', () => {
+      service.startSession(createQuarryNote());
+      service.advancePhase();
+      const candidate = service.addCandidate('A concept');
+      service.updateCandidate(candidate.id, { explanation: 'Detailed explanation' });
+
+      expect(settings.savedSession?.phase).toBe('identification');
+      expect(settings.savedSession?.candidates[0].explanation).toBe('Detailed explanation');
+    });
+
+    it('clears the saved session when ended', () => {
+      service.startSession(createQuarryNote());
+      service.endSession();
+
+      expect(settings.savedSession).toBeNull();
+    });
+
+    it('keeps the saved session when suspended', () => {
+      service.startSession(createQuarryNote());
+      service.suspendSession();
+
+      expect(service.getSession()).toBeNull();
+      expect(settings.savedSession).not.toBeNull();
+    });
+
+    it('resumes a saved session with fresh source content', async () => {
+      app.vault._setFile('Fleeting notes/test-note.md', '# Updated content');
+      service.startSession(createQuarryNote());
+      service.setPhase('explanation');
+      service.addCandidate('A concept');
+
+      const restored = new AtomisationService(app as any, settings, store);
+      const session = await restored.resumeSession();
+
+      expect(session?.phase).toBe('explanation');
+      expect(session?.candidates).toHaveLength(1);
+      expect(session?.sourceNote.content).toBe('# Updated content');
+      expect(session?.startedAt).toBeInstanceOf(Date);
+    });
+
+    it('resumes an interrupted creation at confirmation', async () => {
+      app.vault._setFile('Fleeting notes/test-note.md', '# Note');
+      service.startSession(createQuarryNote());
+      service.setPhase('creation');
+
+      const session = await service.resumeSession();
+
+      expect(session?.phase).toBe('confirmation');
+    });
+
+    it('discards a saved session whose source note is gone', async () => {
+      service.startSession(createQuarryNote());
+
+      const session = await service.resumeSession();
+
+      expect(session).toBeNull();
+      expect(settings.savedSession).toBeNull();
+    });
+
+    it('returns null when nothing is saved', async () => {
+      expect(await service.resumeSession()).toBeNull();
+    });
+  });
+
   describe('phase management', () => {
     beforeEach(() => {
       const note = createQuarryNote();
@@ -116,6 +285,51 @@ describe('AtomisationService', () => {
 
       expect(() => service.setPhase('explanation')).toThrow('No active session');
     });
+
+    describe('phase times', () => {
+      beforeEach(() => {
+        vi.useFakeTimers();
+        service.startSession(createQuarryNote());
+      });
+
+      afterEach(() => {
+        vi.useRealTimers();
+      });
+
+      it('adds up the time spent in each phase', () => {
+        vi.advanceTimersByTime(60 * 1000);
+        service.advancePhase();
+        vi.advanceTimersByTime(5 * 60 * 1000);
+        service.setPhase('introduction');
+        vi.advanceTimersByTime(30 * 1000);
+        service.advancePhase();
+
+        expect(service.getSession()?.phaseTimes).toEqual({
+          introduction: 90 * 1000,
+          identification: 5 * 60 * 1000,
+        });
+      });
+
+      it('does not count time away from a suspended session', async () => {
+        const store = new SessionStore(settings, vi.fn().mockResolvedValue(undefined));
+        service = new AtomisationService(app as any, settings, store);
+        app.vault._setFile('Fleeting notes/test-note.md', '# Note');
+        service.startSession(createQuarryNote());
+        vi.advanceTimersByTime(60 * 1000);
+        service.advancePhase();
+        service.suspendSession();
+
+        vi.advanceTimersByTime(60 * 60 * 1000);
+        const session = await service.resumeSession();
+        vi.advanceTimersByTime(2 * 60 * 1000);
+        service.advancePhase();
+
+        expect(session?.phaseTimes).toEqual({
+          introduction: 60 * 1000,
+          identification: 2 * 60 * 1000,
+        });
+      });
+    });
   });
 
   describe('candidate management', () => {
@@ -350,6 +564,585 @@ describe('AtomisationService', () => {
     });
   });
 
+  describe('critique scorecards', () => {
+    const validResponse = JSON.stringify({
+      criteria: {
+        atomicity: { score: 5, verdict: 'pass', reason: 'One idea.' },
+        clarity: { score: 4, verdict: 'pass', reason: 'Clear.' },
+        substance: { score: 2, verdict: 'fail', reason: 'Restates the concept.' },
+        evidence: { score: 4, verdict: 'pass', reason: 'Quoted.' },
+        accuracy: { score: 5, verdict: 'pass', reason: 'Faithful.' },
+      },
+      summary: '',
+    });
+    let llm: any;
+    let candidate: AtomCandidate;
+
+    beforeEach(() => {
+      service.startSession(createQuarryNote());
+      candidate = service.addCandidate('Spacing beats cramming');
+      service.updateCandidate(candidate.id, {
+        explanation: 'Distributing practice over time produces more durable memories.',
+        evidence: 'Spaced practice outperformed massed practice in every trial.',
+      });
+      settings.useLLMCritique = true;
+      llm = (service as any).llmService;
+      vi.spyOn(llm, 'isAvailable').mockResolvedValue(true);
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('scores every criterion with the rules', () => {
+      const scorecard = service.generateRuleBasedScorecard(candidate);
+
+      expect(scorecard.source).toBe('rules');
+      expect(scorecard.criteria.atomicity.verdict).toBe('pass');
+      expect(scorecard.criteria.evidence.verdict).toBe('pass');
+      expect(scorecard.criteria.accuracy).toMatchObject({ score: null, verdict: 'unchecked' });
+    });
+
+    it('fails the criterion the rule check belongs to', () => {
+      service.updateCandidate(candidate.id, {
+        explanation: 'It is basically about spacing things out somehow.',
+        evidence: '',
+      });
+
+      const scorecard = service.generateRuleBasedScorecard(candidate);
+
+      expect(scorecard.criteria.clarity.verdict).toBe('fail');
+      expect(scorecard.criteria.evidence.verdict).toBe('fail');
+      expect(scorecard.criteria.substance.verdict).toBe('pass');
+    });
+
+    it('stores a valid LLM scorecard on the candidate', async () => {
+      vi.spyOn(llm, 'complete').mockResolvedValue({
+        success: true,
+        provider: 'claude',
+        content: validResponse,
+      });
+
+      const scorecard = await service.generateCritiqueAsync(candidate);
+
+      expect(scorecard.source).toBe('claude');
+      const stored = service.getSession()!.candidates[0];
+      expect(stored.scorecard).toEqual(scorecard);
+      expect(stored.critique).toBe('Substance: Restates the concept.');
+    });
+
+    it('retries once when the output is malformed', async () => {
+      const complete = vi
+        .spyOn(llm, 'complete')
+        .mockResolvedValueOnce({ success: true, provider: 'claude', content: 'Looks good!' })
+        .mockResolvedValueOnce({ success: true, provider: 'claude', content: validResponse });
+
+      const scorecard = await service.generateCritiqueAsync(candidate);
+
+      expect(complete).toHaveBeenCalledTimes(2);
+      expect(complete.mock.calls[1][0]).toContain('Looks good!');
+      expect(scorecard.source).toBe('claude');
+    });
+
+    it('falls back to the rules after repeated malformed output', async () => {
+      vi.spyOn(llm, 'complete').mockResolvedValue({
+        success: true,
+        provider: 'claude',
+        content: '{"criteria": {}}',
+      });
+
+      const scorecard = await service.generateCritiqueAsync(candidate);
+
+      expect(llm.complete).toHaveBeenCalledTimes(2);
+      expect(scorecard.source).toBe('rules');
+    });
+
+    it('records why the LLM critique failed', async () => {
+      vi.spyOn(llm, 'complete').mockResolvedValue({
+        success: false,
+        provider: 'claude',
+        content: '',
+        error: 'Claude is overloaded. Try again shortly, or add a fallback provider.',
+      });
+
+      const scorecard = await service.generateCritiqueAsync(candidate);
+
+      expect(scorecard.source).toBe('rules');
+      expect(scorecard.error).toContain('Claude is overloaded');
+    });
+
+    it('critiques with the chosen prompt template note', async () => {
+      app.vault._setFile('Prompts/Kritik.md', '---\nlang: de\n---\nBewerte: {{concept}}');
+      settings.critiquePromptPath = 'Prompts/Kritik.md';
+      vi.spyOn(llm, 'complete').mockResolvedValue({
+        success: true,
+        provider: 'claude',
+        content: validResponse,
+      });
+
+      await service.generateCritiqueAsync(candidate);
+
+      expect(llm.complete.mock.calls[0][0].startsWith('Bewerte: Spacing beats cramming')).toBe(true);
+    });
+
+    it('uses the built-in prompt when the template note is missing', async () => {
+      settings.critiquePromptPath = 'Prompts/Gone.md';
+      vi.spyOn(llm, 'complete').mockResolvedValue({
+        success: true,
+        provider: 'claude',
+        content: validResponse,
+      });
+
+      await service.generateCritiqueAsync(candidate);
+
+      expect(llm.complete.mock.calls[0][0]).toContain('## Candidate Atom');
+    });
+
+    it('streams progress and restarts it on a retry', async () => {
+      const progress: string[] = [];
+      vi.spyOn(llm, 'stream')
+        .mockImplementationOnce(async (_prompt: string, { onToken }: any) => {
+          onToken('Not ');
+          onToken('JSON');
+          return { success: true, provider: 'claude', content: 'Not JSON' };
+        })
+        .mockImplementationOnce(async (_prompt: string, { onToken }: any) => {
+          onToken(validResponse);
+          return { success: true, provider: 'claude', content: validResponse };
+        });
+
+      const scorecard = await service.generateCritiqueAsync(candidate, {
+        onProgress: (text) => progress.push(text),
+      });
+
+      expect(scorecard.source).toBe('claude');
+      expect(progress).toEqual(['', 'Not ', 'Not JSON', '', validResponse]);
+    });
+
+    it('falls back to the rules without retrying when cancelled', async () => {
+      const stream = vi.spyOn(llm, 'stream').mockResolvedValue({
+        success: false,
+        provider: 'claude',
+        content: '',
+        error: CANCELLED_ERROR,
+      });
+
+      const scorecard = await service.generateCritiqueAsync(candidate, { onProgress: () => {} });
+
+      expect(stream).toHaveBeenCalledTimes(1);
+      expect(scorecard.source).toBe('rules');
+      expect(scorecard.error).toBeUndefined();
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it('uses the rules when LLM critique is disabled', async () => {
+      settings.useLLMCritique = false;
+      service.updateSettings(settings);
+      const complete = vi.spyOn(llm, 'complete');
+
+      const scorecard = await service.generateCritiqueAsync(candidate);
+
+      expect(complete).not.toHaveBeenCalled();
+      expect(scorecard.source).toBe('rules');
+    });
+  });
+
+  describe('critique rounds', () => {
+    let candidate: AtomCandidate;
+
+    beforeEach(() => {
+      service.startSession(createQuarryNote());
+      candidate = service.addCandidate('Spacing beats cramming');
+      service.updateCandidate(candidate.id, {
+        explanation: 'Basically, spacing helps.',
+        evidence: 'Spaced practice outperformed massed practice.',
+      });
+      settings.useLLMCritique = false;
+    });
+
+    it('records each critique with the text it judged', async () => {
+      await service.generateCritiqueAsync(candidate);
+
+      const rounds = service.getSession()!.candidates[0].critiqueRounds!;
+      expect(rounds).toHaveLength(1);
+      expect(rounds[0].explanation).toBe('Basically, spacing helps.');
+      expect(rounds[0].scorecard.criteria.clarity.verdict).toBe('fail');
+    });
+
+    it('adds a round for each refined version', async () => {
+      await service.generateCritiqueAsync(candidate);
+      service.updateCandidate(candidate.id, {
+        explanation: 'Distributing practice over time produces more durable memories.',
+      });
+      await service.generateCritiqueAsync(candidate);
+
+      const rounds = service.getSession()!.candidates[0].critiqueRounds!;
+      expect(rounds).toHaveLength(2);
+      expect(countRoundsToPass(rounds)).toBe(2);
+    });
+
+    it('replaces the last round when the text is unchanged', async () => {
+      await service.generateCritiqueAsync(candidate);
+      await service.generateCritiqueAsync(candidate);
+
+      expect(service.getSession()!.candidates[0].critiqueRounds).toHaveLength(1);
+    });
+
+    it('remembers the last critiqued explanation', async () => {
+      expect(service.getLastCritiquedExplanation(candidate)).toBeNull();
+
+      await service.generateCritiqueAsync(candidate);
+      service.updateCandidate(candidate.id, { explanation: 'Edited' });
+
+      expect(service.getLastCritiquedExplanation(candidate)).toBe('Basically, spacing helps.');
+    });
+
+    it('reuses the latest scorecard until the text changes', async () => {
+      expect(service.getCurrentScorecard(candidate)).toBeNull();
+
+      const scorecard = await service.generateCritiqueAsync(candidate);
+      expect(service.getCurrentScorecard(candidate)).toEqual(scorecard);
+
+      service.updateCandidate(candidate.id, { evidence: 'Other evidence entirely, at length.' });
+      expect(service.getCurrentScorecard(candidate)).toBeNull();
+    });
+
+    it('lists outstanding issues from validation and the latest critique', async () => {
+      const scorecard = await service.generateCritiqueAsync(candidate);
+      service.updateCandidate(candidate.id, {
+        scorecard: {
+          ...scorecard,
+          criteria: {
+            ...scorecard.criteria,
+            accuracy: { score: 2, verdict: 'fail', reason: 'Overstates the finding.' },
+          },
+        },
+      });
+
+      const issues = service.getOutstandingIssues(candidate);
+
+      expect(issues).toEqual([
+        'The explanation contains hedging language. Be precise.',
+        'Accuracy: Overstates the finding.',
+      ]);
+    });
+
+    it('has no outstanding issues once the candidate passes', async () => {
+      service.updateCandidate(candidate.id, {
+        explanation: 'Distributing practice over time produces more durable memories.',
+      });
+      await service.generateCritiqueAsync(candidate);
+
+      expect(service.getOutstandingIssues(candidate)).toEqual([]);
+    });
+  });
+
+  describe('critique replies', () => {
+    let llm: any;
+    let candidate: AtomCandidate;
+
+    beforeEach(() => {
+      service.startSession(createQuarryNote());
+      candidate = service.addCandidate('Spacing beats cramming');
+      service.updateCandidate(candidate.id, {
+        explanation: 'Distributing practice over time produces more durable memories.',
+        critique: 'Evidence: fail - No evidence given.',
+      });
+      settings.useLLMCritique = true;
+      llm = (service as any).llmService;
+      vi.spyOn(llm, 'isAvailable').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('sends the critique and reply as a conversation and keeps the thread', async () => {
+      const complete = vi.spyOn(llm, 'complete').mockResolvedValue({
+        success: true,
+        provider: 'claude',
+        content: ' You are right; evidence now passes. ',
+      });
+
+      const { reply, error } = await service.replyToCritique(
+        candidate.id,
+        'The evidence is in paragraph 3'
+      );
+
+      expect(error).toBeUndefined();
+      expect(reply).toMatchObject({
+        role: 'assistant',
+        content: 'You are right; evidence now passes.',
+        provider: 'claude',
+      });
+      const messages = complete.mock.calls[0][0] as any[];
+      expect(messages[1]).toEqual({ role: 'assistant', content: 'Evidence: fail - No evidence given.' });
+      expect(messages[2].content).toContain('The evidence is in paragraph 3');
+
+      const thread = service.getSession()!.candidates[0].critiqueThread!;
+      expect(thread.map((m) => m.role)).toEqual(['user', 'assistant']);
+      expect(thread[0].content).toBe('The evidence is in paragraph 3');
+    });
+
+    it('continues an existing thread', async () => {
+      const complete = vi
+        .spyOn(llm, 'complete')
+        .mockResolvedValue({ success: true, provider: 'claude', content: 'Answer' });
+
+      await service.replyToCritique(candidate.id, 'First');
+      await service.replyToCritique(candidate.id, 'Second');
+
+      expect((complete.mock.calls[1][0] as any[]).map((m) => m.content.split('\n')[0])).toEqual([
+        expect.any(String),
+        'Evidence: fail - No evidence given.',
+        'First',
+        'Answer',
+        'Second',
+      ]);
+      expect(service.getSession()!.candidates[0].critiqueThread).toHaveLength(4);
+    });
+
+    it('leaves the thread alone when the LLM fails', async () => {
+      vi.spyOn(llm, 'complete').mockResolvedValue({
+        success: false,
+        provider: 'claude',
+        content: '',
+        error: 'Claude is overloaded.',
+      });
+
+      const { reply, error } = await service.replyToCritique(candidate.id, 'Really?');
+
+      expect(reply).toBeUndefined();
+      expect(error).toBe('Claude is overloaded.');
+      expect(service.getSession()!.candidates[0].critiqueThread).toBeUndefined();
+    });
+
+    it('clears the thread when a new critique is made', async () => {
+      vi.spyOn(llm, 'complete').mockResolvedValue({ success: true, provider: 'claude', content: 'Answer' });
+      await service.replyToCritique(candidate.id, 'First');
+      settings.useLLMCritique = false;
+
+      await service.generateCritiqueAsync(candidate);
+
+      expect(service.getSession()!.candidates[0].critiqueThread).toEqual([]);
+    });
+
+    it('drops an answer about a critique that has since been replaced', async () => {
+      vi.spyOn(llm, 'complete').mockImplementation(async () => {
+        service.updateCandidate(candidate.id, { critique: 'A newer critique', critiqueThread: [] });
+        return { success: true, provider: 'claude', content: 'Answer' };
+      });
+
+      const { reply, error } = await service.replyToCritique(candidate.id, 'First');
+
+      expect(reply).toBeUndefined();
+      expect(error).toContain('critique changed');
+      expect(service.getSession()!.candidates[0].critiqueThread).toEqual([]);
+    });
+
+    it('needs an LLM', async () => {
+      settings.useLLMCritique = false;
+      service.updateSettings(settings);
+
+      expect(await service.canDiscussCritique()).toBe(false);
+      expect((await service.replyToCritique(candidate.id, 'Really?')).error).toBe(
+        'No LLM provider available'
+      );
+    });
+
+    it('ignores an empty reply', async () => {
+      const complete = vi.spyOn(llm, 'complete');
+
+      const { error } = await service.replyToCritique(candidate.id, '   ');
+
+      expect(error).toBe('Write a reply first');
+      expect(complete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('concept suggestions', () => {
+    const source = '# Test Note\n\nSpaced practice beats cramming.\n\nSleep consolidates memory.';
+    let llm: any;
+
+    beforeEach(() => {
+      service.startSession(createQuarryNote({ content: source }));
+      llm = (service as any).llmService;
+      vi.spyOn(llm, 'isAvailable').mockResolvedValue(true);
+    });
+
+    it('returns suggestions without adding candidates', async () => {
+      vi.spyOn(llm, 'complete').mockResolvedValue({
+        success: true,
+        provider: 'claude',
+        content: JSON.stringify([
+          { concept: 'Spacing beats cramming', title: 'Spacing effect', excerpt: 'Spaced practice beats cramming.' },
+        ]),
+      });
+
+      const { suggestions, error } = await service.suggestConcepts();
+
+      expect(error).toBeUndefined();
+      expect(suggestions).toHaveLength(1);
+      expect(service.getSession()!.candidates).toHaveLength(0);
+    });
+
+    it('leaves out concepts already identified', async () => {
+      service.addCandidate('Spacing beats cramming');
+      vi.spyOn(llm, 'complete').mockResolvedValue({
+        success: true,
+        provider: 'claude',
+        content: '[{"concept": "spacing beats cramming"}, {"concept": "Sleep consolidates memory"}]',
+      });
+
+      const { suggestions } = await service.suggestConcepts();
+
+      expect(suggestions.map((s) => s.concept)).toEqual(['Sleep consolidates memory']);
+    });
+
+    it('does not fail when the session ends while waiting for the LLM', async () => {
+      vi.spyOn(llm, 'complete').mockImplementation(async () => {
+        service.suspendSession();
+        return { success: true, provider: 'claude', content: '[{"concept": "Sleep consolidates memory"}]' };
+      });
+
+      const { suggestions } = await service.suggestConcepts();
+
+      expect(suggestions).toHaveLength(1);
+    });
+
+    it('reports errors from the LLM', async () => {
+      vi.spyOn(llm, 'complete').mockResolvedValue({
+        success: false,
+        provider: 'claude',
+        content: '',
+        error: 'Rate limited',
+      });
+
+      expect(await service.suggestConcepts()).toEqual({ suggestions: [], error: 'Rate limited' });
+    });
+
+    it('reports when no LLM is available', async () => {
+      llm.isAvailable.mockResolvedValue(false);
+
+      const { suggestions, error } = await service.suggestConcepts();
+
+      expect(suggestions).toEqual([]);
+      expect(error).toBeDefined();
+    });
+
+    it('accepts an edited suggestion as a candidate with linked evidence', () => {
+      const candidate = service.acceptSuggestion({
+        concept: 'Sleep helps memory',
+        title: 'Sleep and memory',
+        excerpt: 'Sleep consolidates memory.',
+      });
+
+      expect(candidate.concept).toBe('Sleep helps memory');
+      expect(candidate.suggestedTitle).toBe('Sleep and memory');
+      expect(candidate.approved).toBe(false);
+      expect(candidate.evidence).toBe('Sleep consolidates memory.');
+      expect(candidate.evidenceRange?.start).toBe(source.indexOf('Sleep'));
+    });
+
+    it('keeps an excerpt that is not in the source as plain evidence', () => {
+      const candidate = service.acceptSuggestion({
+        concept: 'Concept',
+        title: '',
+        excerpt: 'Paraphrased passage',
+      });
+
+      expect(candidate.suggestedTitle).toBe('Concept');
+      expect(candidate.evidence).toBe('Paraphrased passage');
+      expect(candidate.evidenceRange).toBeUndefined();
+    });
+  });
+
+  describe('evidence selection', () => {
+    const source = '# Test Note\n\nFirst **key** claim here.\n\nSecond claim.';
+
+    beforeEach(() => {
+      app.vault._setFile('Fleeting notes/test-note.md', source);
+      app.vault._setFolder('Atoms');
+      service.startSession(createQuarryNote({ content: source }));
+    });
+
+    it('locates rendered text in the markdown source', () => {
+      const range = service.locateEvidence('key claim');
+
+      expect(source.slice(range!.start, range!.end)).toBe('key** claim');
+    });
+
+    it('attaches an exact passage with its range', () => {
+      const candidate = service.addCandidate('Concept');
+      const start = source.indexOf('Second');
+
+      const updated = service.attachEvidence(candidate.id, start, start + 'Second claim.'.length);
+
+      expect(updated?.evidence).toBe('Second claim.');
+      expect(updated?.evidenceRange).toEqual({
+        start,
+        end: start + 13,
+        text: 'Second claim.',
+      });
+    });
+
+    it('rejects empty ranges', () => {
+      const candidate = service.addCandidate('Concept');
+
+      expect(service.attachEvidence(candidate.id, 5, 5)).toBeNull();
+      expect(service.attachEvidence(candidate.id, 0, 1)).not.toBeNull();
+      expect(service.attachEvidence(candidate.id, 11, 13)).toBeNull();
+    });
+
+    it('adds a block ID to the source and embeds it in the atom', async () => {
+      const candidate = service.addCandidate('Concept');
+      const start = source.indexOf('Second');
+      service.attachEvidence(candidate.id, start, start + 13);
+      service.updateCandidate(candidate.id, { explanation: 'Explanation', approved: true });
+
+      const [file] = (await service.createAtoms()).created;
+
+      const blockId = service.getSession()!.candidates[0].evidenceRange!.blockId;
+      expect(blockId).toMatch(/^[a-z0-9]{6}$/);
+      expect(await app.vault.read(new TFile('Fleeting notes/test-note.md') as any)).toBe(
+        `# Test Note\n\nFirst **key** claim here.\n\nSecond claim. ^${blockId}`
+      );
+      const atom = await app.vault.read(file);
+      expect(atom).toContain(`![[Test Note#^${blockId}]]`);
+      expect(atom).not.toContain('> Second claim.');
+    });
+
+    it('finds the passage again if the source changed since selection', async () => {
+      const candidate = service.addCandidate('Concept');
+      const start = source.indexOf('First');
+      service.attachEvidence(candidate.id, start, start + 'First **key** claim here.'.length);
+      service.updateCandidate(candidate.id, { explanation: 'Explanation', approved: true });
+      app.vault._setFile('Fleeting notes/test-note.md', `Preface.\n\n${source}`);
+
+      await service.createAtoms();
+
+      const blockId = service.getSession()!.candidates[0].evidenceRange!.blockId;
+      const updated = await app.vault.read(new TFile('Fleeting notes/test-note.md') as any);
+      expect(updated).toContain(`First **key** claim here. ^${blockId}\n`);
+    });
+
+    it('quotes evidence whose passage has disappeared', async () => {
+      const candidate = service.addCandidate('Concept');
+      const start = source.indexOf('Second');
+      service.attachEvidence(candidate.id, start, start + 13);
+      service.updateCandidate(candidate.id, { explanation: 'Explanation', approved: true });
+      app.vault._setFile('Fleeting notes/test-note.md', '# Rewritten');
+
+      const [file] = (await service.createAtoms()).created;
+
+      expect(await app.vault.read(file)).toContain('> Second claim.');
+      expect(await app.vault.read(new TFile('Fleeting notes/test-note.md') as any)).toBe(
+        '# Rewritten'
+      );
+    });
+  });
+
   describe('createAtoms', () => {
     beforeEach(() => {
       const note = createQuarryNote();
@@ -368,12 +1161,21 @@ describe('AtomisationService', () => {
       });
       // Second candidate remains unapproved
 
-      const files = await service.createAtoms();
+      const { created: files } = await service.createAtoms();
 
       expect(files).toHaveLength(1);
       expect(files[0].basename).toBe('Approved concept');
     });
 
+    it('records the created atom path on the candidate', async () => {
+      const candidate = service.addCandidate('Test concept');
+      service.updateCandidate(candidate.id, { explanation: 'Explanation', approved: true });
+
+      const { created: files } = await service.createAtoms();
+
+      expect(service.getSession()!.candidates[0].atomPath).toBe(files[0].path);
+    });
+
     it('creates atom folder if it does not exist', async () => {
       app.vault._clear();
       // Folder does not exist
@@ -402,7 +1204,7 @@ describe('AtomisationService', () => {
         approved: true,
       });
 
-      const files = await service.createAtoms();
+      const { created: files } = await service.createAtoms();
       const content = await app.vault.read(files[0] as any);
 
       expect(content).toContain('# Knowledge atoms');
@@ -420,7 +1222,7 @@ describe('AtomisationService', () => {
         approved: true,
       });
 
-      const files = await service.createAtoms();
+      const { created: files } = await service.createAtoms();
       const content = await app.vault.read(files[0] as any);
 
       expect(content).toContain('source: "[[Test Note]]"');
@@ -436,7 +1238,7 @@ describe('AtomisationService', () => {
         approved: true,
       });
 
-      const files = await service.createAtoms();
+      const { created: files } = await service.createAtoms();
 
       expect(files[0].path).toMatch(/Atoms\/Duplicate name-\d+\.md/);
     });
@@ -448,7 +1250,7 @@ describe('AtomisationService', () => {
         approved: true,
       });
 
-      const files = await service.createAtoms();
+      const { created: files } = await service.createAtoms();
 
       expect(files[0].path).not.toContain(':');
       expect(files[0].path).not.toContain('<');
@@ -468,6 +1270,130 @@ describe('AtomisationService', () => {
       expect(service.getSession()?.completed).toBe(true);
     });
 
+    it('tracks created atoms for review', async () => {
+      const reviews = new ReviewService(settings, vi.fn().mockResolvedValue(undefined));
+      service = new AtomisationService(app as any, settings, undefined, reviews);
+      service.startSession(createQuarryNote());
+
+      const candidate = service.addCandidate('Reviewed concept');
+      service.updateCandidate(candidate.id, {
+        explanation: 'Explanation to recall later',
+        approved: true,
+      });
+
+      await service.createAtoms();
+
+      expect(settings.reviewCards).toHaveLength(1);
+      expect(settings.reviewCards[0].atomPath).toBe('Atoms/Reviewed concept.md');
+      expect(settings.reviewCards[0].explanation).toBe('Explanation to recall later');
+    });
+
+    it('merges into an existing atom instead of creating one', async () => {
+      const reviews = new ReviewService(settings, vi.fn().mockResolvedValue(undefined));
+      service = new AtomisationService(app as any, settings, undefined, reviews);
+      service.startSession(createQuarryNote());
+      app.vault._setFile('Atoms/Spacing.md', '# Spacing\n\nExisting explanation.\n');
+
+      const candidate = service.addCandidate('Spaced repetition');
+      service.updateCandidate(candidate.id, {
+        explanation: 'Review at growing intervals',
+        evidence: 'Intervals matter',
+        approved: true,
+        duplicateResolution: { action: 'merge', path: 'Atoms/Spacing.md' },
+      });
+
+      const { created, merged } = await service.createAtoms();
+      const content = await app.vault.read(merged[0] as any);
+
+      expect(created).toHaveLength(0);
+      expect(merged.map((f) => f.path)).toEqual(['Atoms/Spacing.md']);
+      expect(app.vault.getAbstractFileByPath('Atoms/Spaced repetition.md')).toBeNull();
+      expect(content).toContain('Existing explanation.');
+      expect(content).toContain('## Spaced repetition');
+      expect(content).toContain('Review at growing intervals');
+      expect(content).toContain('> Intervals matter');
+      expect(content).toContain('Merged from [[Test Note]]');
+      expect(service.getSession()!.candidates[0].atomPath).toBe('Atoms/Spacing.md');
+      expect(settings.reviewCards).toHaveLength(0);
+    });
+
+    it('lists an atom merged into twice once, apart from new atoms', async () => {
+      const record = vi.fn().mockResolvedValue(undefined);
+      service = new AtomisationService(
+        app as any,
+        settings,
+        undefined,
+        undefined,
+        undefined,
+        { record } as any
+      );
+      service.startSession(createQuarryNote());
+      app.vault._setFile('Atoms/Spacing.md', '# Spacing');
+
+      for (const title of ['Spaced repetition', 'Expanding intervals']) {
+        const candidate = service.addCandidate(title);
+        service.updateCandidate(candidate.id, {
+          explanation: 'Review at growing intervals',
+          approved: true,
+          duplicateResolution: { action: 'merge', path: 'Atoms/Spacing.md' },
+        });
+      }
+      const candidate = service.addCandidate('Forgetting curve');
+      service.updateCandidate(candidate.id, { explanation: 'Memory decays', approved: true });
+
+      const { created, merged } = await service.createAtoms();
+
+      expect(created.map((f) => f.path)).toEqual(['Atoms/Forgetting curve.md']);
+      expect(merged.map((f) => f.path)).toEqual(['Atoms/Spacing.md']);
+      expect(record).toHaveBeenLastCalledWith(
+        'completed',
+        expect.any(String),
+        expect.any(String),
+        expect.objectContaining({ atoms: ['Atoms/Forgetting curve.md'] })
+      );
+    });
+
+    it('creates the atom when the one to merge into is gone', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const candidate = service.addCandidate('Spaced repetition');
+      service.updateCandidate(candidate.id, {
+        explanation: 'Review at growing intervals',
+        approved: true,
+        duplicateResolution: { action: 'merge', path: 'Atoms/Deleted.md' },
+      });
+
+      const { created: files } = await service.createAtoms();
+
+      expect(files[0].path).toBe('Atoms/Spaced repetition.md');
+      warn.mockRestore();
+    });
+
+    it('links a new atom to the duplicate it was linked with', async () => {
+      app.vault._setFile('Atoms/Spacing.md', '# Spacing');
+
+      const candidate = service.addCandidate('Spaced repetition');
+      service.updateCandidate(candidate.id, {
+        explanation: 'Review at growing intervals',
+        approved: true,
+        duplicateResolution: { action: 'link', path: 'Atoms/Spacing.md' },
+      });
+
+      const { created: files } = await service.createAtoms();
+      const content = await app.vault.read(files[0] as any);
+
+      expect(files[0].path).toBe('Atoms/Spaced repetition.md');
+      expect(content).toContain('[[Spacing]]');
+    });
+
+    it('finds existing atoms the candidates duplicate', async () => {
+      app.vault._setFile('Atoms/Spaced repetition.md', '# Spaced repetition');
+      const candidate = service.addCandidate('Spaced repetition');
+
+      const duplicates = await service.findDuplicates();
+
+      expect(duplicates.get(candidate.id)?.[0].path).toBe('Atoms/Spaced repetition.md');
+    });
+
     it('throws when no session is active', async () => {
       service.endSession();
 
@@ -477,7 +1403,7 @@ describe('AtomisationService', () => {
     it('returns empty array when no candidates approved', async () => {
       service.addCandidate('Unapproved');
 
-      const files = await service.createAtoms();
+      const { created: files } = await service.createAtoms();
 
       expect(files).toHaveLength(0);
     });
@@ -516,7 +1442,7 @@ created: {{date}}
         approved: true,
       });
 
-      const files = await service.createAtoms();
+      const { created: files } = await service.createAtoms();
       const content = await app.vault.read(files[0] as any);
 
       expect(content).toContain('## Summary');
@@ -535,7 +1461,7 @@ created: {{date}}
         approved: true,
       });
 
-      const files = await service.createAtoms();
+      const { created: files } = await service.createAtoms();
       const content = await app.vault.read(files[0] as any);
 
       // Should have default structure
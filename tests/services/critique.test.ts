@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CRITIQUE_CRITERIA,
+  validateScorecard,
+  getFailingCriteria,
+  formatScorecard,
+  countRoundsToPass,
+} from '../../src/services/critique';
+import { CritiqueScorecard } from '../../src/types';
+
+const createResponse = (overrides: Record<string, unknown> = {}) => ({
+  criteria: Object.fromEntries(
+    CRITIQUE_CRITERIA.map(({ id }) => [id, { score: 4, verdict: 'pass', reason: `${id} ok` }])
+  ),
+  summary: 'Solid.',
+  ...overrides,
+});
+
+const createScorecard = (): CritiqueScorecard =>
+  validateScorecard(createResponse(), 'claude') as CritiqueScorecard;
+
+describe('validateScorecard', () => {
+  it('accepts a complete response', () => {
+    const scorecard = validateScorecard(createResponse(), 'claude');
+
+    expect(scorecard?.source).toBe('claude');
+    expect(scorecard?.summary).toBe('Solid.');
+    expect(scorecard?.criteria.accuracy).toEqual({
+      score: 4,
+      verdict: 'pass',
+      reason: 'accuracy ok',
+    });
+  });
+
+  it('rejects a response missing a criterion', () => {
+    const response = createResponse();
+    delete (response.criteria as Record<string, unknown>).evidence;
+
+    expect(validateScorecard(response, 'claude')).toBeNull();
+  });
+
+  it.each([
+    ['score out of range', { score: 6, verdict: 'pass', reason: 'x' }],
+    ['non-integer score', { score: 3.5, verdict: 'pass', reason: 'x' }],
+    ['string score', { score: '4', verdict: 'pass', reason: 'x' }],
+    ['unknown verdict', { score: 4, verdict: 'great', reason: 'x' }],
+    ['unchecked verdict', { score: 4, verdict: 'unchecked', reason: 'x' }],
+    ['empty reason', { score: 4, verdict: 'pass', reason: ' ' }],
+  ])('rejects %s', (_label, entry) => {
+    const response = createResponse();
+    (response.criteria as Record<string, unknown>).clarity = entry;
+
+    expect(validateScorecard(response, 'claude')).toBeNull();
+  });
+
+  it('rejects non-objects and tolerates a missing summary', () => {
+    expect(validateScorecard(null, 'claude')).toBeNull();
+    expect(validateScorecard([], 'claude')).toBeNull();
+    expect(validateScorecard(createResponse({ summary: undefined }), 'claude')?.summary).toBe('');
+  });
+});
+
+describe('getFailingCriteria', () => {
+  it('lists criteria with a fail verdict', () => {
+    const scorecard = createScorecard();
+    scorecard.criteria.atomicity.verdict = 'fail';
+    scorecard.criteria.clarity.verdict = 'weak';
+
+    expect(getFailingCriteria(scorecard)).toEqual(['atomicity']);
+  });
+});
+
+describe('formatScorecard', () => {
+  it('lists the summary and criteria that did not pass', () => {
+    const scorecard = createScorecard();
+    scorecard.criteria.evidence = { score: 2, verdict: 'fail', reason: 'No quote.' };
+    scorecard.criteria.clarity = { score: 3, verdict: 'weak', reason: 'Jargon.' };
+
+    expect(formatScorecard(scorecard)).toBe('Solid.\n\nClarity: Jargon.\n\nEvidence: No quote.');
+  });
+
+  it('reports no issues when everything passes', () => {
+    const scorecard = createScorecard();
+    scorecard.summary = '';
+
+    expect(formatScorecard(scorecard)).toBe('No significant issues identified.');
+  });
+});
+
+describe('countRoundsToPass', () => {
+  const round = (failing: boolean) => {
+    const scorecard = createScorecard();
+    if (failing) scorecard.criteria.evidence.verdict = 'fail';
+    return { explanation: '', evidence: '', scorecard, timestamp: '' };
+  };
+
+  it('counts up to the first passing round', () => {
+    expect(countRoundsToPass([round(true), round(true), round(false)])).toBe(3);
+  });
+
+  it('is null until a round passes', () => {
+    expect(countRoundsToPass([round(true)])).toBeNull();
+    expect(countRoundsToPass([])).toBeNull();
+  });
+});
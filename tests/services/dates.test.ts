@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { addDays, atTimeOfDay, startOfDay, startOfWeek, toDateKey } from '../../src/services/dates';
+
+const originalTimeZone = process.env.TZ;
+
+/** Run the rest of a test in a time zone */
+const useTimeZone = (timeZone: string): void => {
+  process.env.TZ = timeZone;
+};
+
+describe('dates', () => {
+  afterEach(() => {
+    if (originalTimeZone === undefined) {
+      delete process.env.TZ;
+    } else {
+      process.env.TZ = originalTimeZone;
+    }
+  });
+
+  describe('toDateKey', () => {
+    it('formats the local date with padding', () => {
+      expect(toDateKey(new Date(2026, 0, 5, 12))).toBe('2026-01-05');
+    });
+
+    it('uses the local date east of UTC just after midnight', () => {
+      useTimeZone('Pacific/Auckland');
+      const date = new Date(2026, 5, 11, 0, 30);
+
+      expect(toDateKey(date)).toBe('2026-06-11');
+      expect(date.toISOString().startsWith('2026-06-10')).toBe(true);
+    });
+
+    it('uses the local date west of UTC in the evening', () => {
+      useTimeZone('America/Los_Angeles');
+      const date = new Date(2026, 5, 10, 18, 0);
+
+      expect(toDateKey(date)).toBe('2026-06-10');
+      expect(date.toISOString().startsWith('2026-06-11')).toBe(true);
+    });
+  });
+
+  describe('addDays', () => {
+    it('moves across months and years', () => {
+      expect(toDateKey(addDays(new Date(2026, 11, 31, 12), 1))).toBe('2027-01-01');
+      expect(toDateKey(addDays(new Date(2026, 2, 1, 12), -1))).toBe('2026-02-28');
+    });
+
+    it('keeps the time of day when clocks go forward', () => {
+      useTimeZone('Europe/London');
+      const before = new Date(2026, 2, 28, 9, 0);
+
+      const after = addDays(before, 1);
+
+      expect(after.getHours()).toBe(9);
+      expect(after.getTime() - before.getTime()).toBe(23 * 60 * 60 * 1000);
+    });
+
+    it('keeps the time of day when clocks go back', () => {
+      useTimeZone('Europe/London');
+      const before = new Date(2026, 9, 24, 9, 0);
+
+      const after = addDays(before, 1);
+
+      expect(after.getHours()).toBe(9);
+      expect(after.getTime() - before.getTime()).toBe(25 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('startOfDay', () => {
+    it('returns local midnight', () => {
+      useTimeZone('America/Los_Angeles');
+      const start = startOfDay(new Date(2026, 5, 10, 18, 45));
+
+      expect(start.getDate()).toBe(10);
+      expect(start.getHours()).toBe(0);
+      expect(start.getMinutes()).toBe(0);
+    });
+  });
+
+  describe('startOfWeek', () => {
+    it('returns midnight on the Monday of the week', () => {
+      // Thursday 11 June 2026
+      const start = startOfWeek(new Date(2026, 5, 11, 18, 45));
+
+      expect(toDateKey(start)).toBe('2026-06-08');
+      expect(start.getHours()).toBe(0);
+    });
+
+    it('puts Sunday at the end of the week', () => {
+      expect(toDateKey(startOfWeek(new Date(2026, 5, 14, 9)))).toBe('2026-06-08');
+    });
+
+    it('keeps a Monday', () => {
+      expect(toDateKey(startOfWeek(new Date(2026, 5, 8, 9)))).toBe('2026-06-08');
+    });
+  });
+
+  describe('atTimeOfDay', () => {
+    it('sets the local time on the same day', () => {
+      const time = atTimeOfDay(new Date(2026, 5, 10, 18, 45, 30), { hour: 9, minute: 15 });
+
+      expect(toDateKey(time)).toBe('2026-06-10');
+      expect(time.getHours()).toBe(9);
+      expect(time.getMinutes()).toBe(15);
+      expect(time.getSeconds()).toBe(0);
+    });
+
+    it('moves a time skipped by clocks going forward an hour later', () => {
+      useTimeZone('Europe/London');
+      const time = atTimeOfDay(new Date(2026, 2, 29, 12), { hour: 1, minute: 30 });
+
+      expect(time.getHours()).toBe(2);
+      expect(time.getMinutes()).toBe(30);
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DeviceStore } from '../../src/services/device-state';
+import { App } from '../mocks/obsidian';
+
+const FOLDER = '.obsidian/plugins/daily-kastenator';
+
+/** In-memory stand-in for local storage */
+const createStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    clear: () => items.clear(),
+    key: (index: number) => [...items.keys()][index] ?? null,
+    get length() {
+      return items.size;
+    },
+  };
+};
+
+describe('DeviceStore', () => {
+  let app: App;
+  let storage: Storage;
+
+  beforeEach(() => {
+    app = new App();
+    storage = createStorage();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the same ID on the same device', () => {
+    const first = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+    const second = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+
+    expect(second.id).toBe(first.id);
+  });
+
+  it('gives another device a different ID', () => {
+    const first = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+    const other = new DeviceStore(app as any, FOLDER, 'Desktop', createStorage());
+
+    expect(other.id).not.toBe(first.id);
+  });
+
+  it('uses defaults before anything is saved', async () => {
+    const store = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+
+    expect(await store.load()).toEqual({ name: 'Desktop', lastNotificationDate: '' });
+  });
+
+  it('saves its state to a file of its own', async () => {
+    const store = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+
+    await store.update({ lastNotificationDate: '2026-10-19', lastNotificationAt: 1 });
+
+    const path = `${FOLDER}/devices/${store.id}.json`;
+    expect(JSON.parse(await app.vault.adapter.read(path))).toEqual({
+      name: 'Desktop',
+      lastNotificationDate: '2026-10-19',
+      lastNotificationAt: 1,
+    });
+  });
+
+  it('reads back the saved state', async () => {
+    const store = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+    await store.update({ name: 'Laptop', lastNotificationDate: '2026-10-19' });
+
+    const reloaded = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+
+    expect(await reloaded.load()).toMatchObject({
+      name: 'Laptop',
+      lastNotificationDate: '2026-10-19',
+    });
+  });
+
+  it('seeds a missing state file from the values given', async () => {
+    const store = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+
+    const state = await store.load({ lastNotificationDate: '2026-10-18', lastNotificationAt: 1 });
+
+    const path = `${FOLDER}/devices/${store.id}.json`;
+    expect(state).toMatchObject({ lastNotificationDate: '2026-10-18', lastNotificationAt: 1 });
+    expect(JSON.parse(await app.vault.adapter.read(path))).toEqual(state);
+  });
+
+  it('prefers the saved state to the values given', async () => {
+    const store = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+    await store.update({ lastNotificationDate: '2026-10-19' });
+
+    const reloaded = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+
+    const state = await reloaded.load({ lastNotificationDate: '2026-10-18' });
+
+    expect(state.lastNotificationDate).toBe('2026-10-19');
+  });
+
+  it('keeps defaults when the state file is unreadable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = new DeviceStore(app as any, FOLDER, 'Desktop', storage);
+    await app.vault.adapter.write(`${FOLDER}/devices/${store.id}.json`, '{not json');
+
+    expect((await store.load()).name).toBe('Desktop');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, hasChanges } from '../../src/services/diff';
+
+describe('diffWords', () => {
+  it('marks identical text as unchanged', () => {
+    expect(diffWords('Spacing beats cramming', 'Spacing beats cramming')).toEqual([
+      { type: 'same', text: 'Spacing beats cramming' },
+    ]);
+  });
+
+  it('marks added and removed words', () => {
+    expect(diffWords('Spacing beats cramming', 'Spacing reliably beats massed cramming')).toEqual([
+      { type: 'same', text: 'Spacing ' },
+      { type: 'added', text: 'reliably ' },
+      { type: 'same', text: 'beats ' },
+      { type: 'added', text: 'massed ' },
+      { type: 'same', text: 'cramming' },
+    ]);
+  });
+
+  it('shows a replaced word as removed then added', () => {
+    expect(diffWords('memory lasts longer', 'memory persists longer')).toEqual([
+      { type: 'same', text: 'memory ' },
+      { type: 'removed', text: 'lasts' },
+      { type: 'added', text: 'persists' },
+      { type: 'same', text: ' longer' },
+    ]);
+  });
+
+  it('handles empty text on either side', () => {
+    expect(diffWords('', 'New text')).toEqual([{ type: 'added', text: 'New text' }]);
+    expect(diffWords('Old text', '')).toEqual([{ type: 'removed', text: 'Old text' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('reassembles both versions', () => {
+    const before = 'Practice spread over days\nbeats one long session.';
+    const after = 'Practice spread over several days beats one session.';
+    const parts = diffWords(before, after);
+
+    const rebuild = (skip: string) =>
+      parts.filter((p) => p.type !== skip).map((p) => p.text).join('');
+    expect(rebuild('added')).toBe(before);
+    expect(rebuild('removed')).toBe(after);
+  });
+});
+
+describe('hasChanges', () => {
+  it('is false for unchanged text', () => {
+    expect(hasChanges(diffWords('a b', 'a b'))).toBe(false);
+  });
+
+  it('is true when anything changed', () => {
+    expect(hasChanges(diffWords('a b', 'a c'))).toBe(true);
+  });
+});
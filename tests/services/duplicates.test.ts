@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  DuplicateDetector,
+  TfIdfIndex,
+  getMatchScore,
+  titleSimilarity,
+} from '../../src/services/duplicates';
+import { App } from '../mocks/obsidian';
+import { AtomCandidate, KastenatorSettings } from '../../src/types';
+
+const createDefaultSettings = (): KastenatorSettings => ({
+  notificationHour: 9,
+  notificationMinute: 0,
+  quarryFolders: ['Fleeting notes'],
+  migrationField: 'Migration',
+  quarryValue: 'quarry',
+  atomFolder: 'Atoms',
+  atomTemplatePath: '',
+  lastNotificationDate: '',
+  notificationEnabled: true,
+  savedSession: null,
+  reviewCards: [],
+  llmProvider: 'none',
+  useLLMCritique: false,
+});
+
+const createCandidate = (overrides: Partial<AtomCandidate> = {}): AtomCandidate => ({
+  id: 'candidate-1',
+  concept: 'Spaced repetition',
+  suggestedTitle: 'Spaced repetition',
+  explanation: '',
+  evidence: '',
+  tags: [],
+  relatedAtoms: [],
+  approved: true,
+  ...overrides,
+});
+
+describe('titleSimilarity', () => {
+  it('scores identical titles as 1 regardless of case and punctuation', () => {
+    expect(titleSimilarity('Spaced repetition!', 'spaced  repetition')).toBe(1);
+  });
+
+  it('scores slightly reworded titles highly', () => {
+    expect(titleSimilarity('Spaced repetition', 'Spaced repetitions')).toBeGreaterThan(0.75);
+  });
+
+  it('scores unrelated titles low', () => {
+    expect(titleSimilarity('Spaced repetition', 'Photosynthesis')).toBeLessThan(0.3);
+  });
+
+  it('scores empty titles as 0', () => {
+    expect(titleSimilarity('', 'Anything')).toBe(0);
+  });
+});
+
+describe('TfIdfIndex', () => {
+  it('scores a text most similar to the document sharing its words', () => {
+    const index = new TfIdfIndex([
+      'Reviewing material at growing intervals improves retention.',
+      'Plants convert sunlight into chemical energy.',
+    ]);
+
+    const [spacing, plants] = index.similarities('Growing review intervals improve retention.');
+
+    expect(spacing).toBeGreaterThan(plants);
+    expect(plants).toBe(0);
+  });
+
+  it('scores an identical document as 1', () => {
+    const index = new TfIdfIndex(['Chunking groups items into meaningful units.', 'Other text here.']);
+
+    expect(index.similarities('Chunking groups items into meaningful units.')[0]).toBeCloseTo(1);
+  });
+
+  it('scores texts without content words as 0', () => {
+    const index = new TfIdfIndex(['Some document text.']);
+
+    expect(index.similarities('the and of')).toEqual([0]);
+  });
+});
+
+describe('getMatchScore', () => {
+  it('returns the highest score', () => {
+    expect(
+      getMatchScore({ path: 'a', title: 'a', titleScore: 0.2, contentScore: 0.5, semanticScore: 0.9 })
+    ).toBe(0.9);
+    expect(
+      getMatchScore({ path: 'a', title: 'a', titleScore: 0.8, contentScore: 0.5, semanticScore: null })
+    ).toBe(0.8);
+  });
+});
+
+describe('DuplicateDetector', () => {
+  let app: App;
+  let detector: DuplicateDetector;
+
+  beforeEach(() => {
+    app = new App();
+    detector = new DuplicateDetector(app as any, createDefaultSettings());
+    app.vault._setFile(
+      'Atoms/Spaced repetition.md',
+      '---\ntype: atom\n---\n# Spaced repetition\n\nReviewing at growing intervals.'
+    );
+    app.vault._setFile(
+      'Atoms/Photosynthesis.md',
+      '# Photosynthesis\n\nPlants convert sunlight into chemical energy using chlorophyll.'
+    );
+    app.vault._setFile('Fleeting notes/Spaced repetition.md', 'Not an atom');
+  });
+
+  it('flags atoms with a similar title', async () => {
+    const duplicates = await detector.findDuplicates([
+      createCandidate({ suggestedTitle: 'Spaced repetitions' }),
+    ]);
+
+    const matches = duplicates.get('candidate-1');
+    expect(matches).toHaveLength(1);
+    expect(matches![0].path).toBe('Atoms/Spaced repetition.md');
+    expect(matches![0].title).toBe('Spaced repetition');
+    expect(matches![0].semanticScore).toBeNull();
+  });
+
+  it('flags atoms with similar content under a different title', async () => {
+    const duplicates = await detector.findDuplicates([
+      createCandidate({
+        suggestedTitle: 'How leaves make food',
+        explanation: 'Plants use chlorophyll to convert sunlight into chemical energy.',
+      }),
+    ]);
+
+    const matches = duplicates.get('candidate-1');
+    expect(matches?.map((m) => m.path)).toEqual(['Atoms/Photosynthesis.md']);
+    expect(matches![0].contentScore).toBeGreaterThanOrEqual(0.4);
+  });
+
+  it('leaves out candidates without duplicates', async () => {
+    const duplicates = await detector.findDuplicates([
+      createCandidate({ suggestedTitle: 'Tectonic plates', explanation: 'Continents drift slowly.' }),
+    ]);
+
+    expect(duplicates.size).toBe(0);
+  });
+
+  it('only compares against the atom folder', async () => {
+    app.vault._clear();
+    app.vault._setFile('Fleeting notes/Spaced repetition.md', 'Reviewing at growing intervals.');
+
+    const duplicates = await detector.findDuplicates([createCandidate()]);
+
+    expect(duplicates.size).toBe(0);
+  });
+
+  it('flags atoms Smart Connections finds semantically close', async () => {
+    const search = vi.fn().mockResolvedValue([
+      { link: 'Atoms/Photosynthesis.md#Summary', score: 0.91 },
+      { link: 'Atoms/Spaced repetition.md', score: 0.3 },
+    ]);
+    (app as any).plugins.plugins['smart-connections'] = { api: { search } };
+
+    const duplicates = await detector.findDuplicates([
+      createCandidate({ suggestedTitle: 'Turning light into sugar', concept: 'Turning light into sugar' }),
+    ]);
+
+    expect(search).toHaveBeenCalledWith(expect.stringContaining('Turning light into sugar'));
+    const matches = duplicates.get('candidate-1');
+    expect(matches?.map((m) => m.path)).toEqual(['Atoms/Photosynthesis.md']);
+    expect(matches![0].semanticScore).toBe(0.91);
+  });
+
+  it('ignores Smart Connections results without a score', async () => {
+    const search = vi.fn().mockResolvedValue([{ link: 'Atoms/Photosynthesis.md' }]);
+    (app as any).plugins.plugins['smart-connections'] = { api: { search } };
+
+    const duplicates = await detector.findDuplicates([
+      createCandidate({ suggestedTitle: 'Turning light into sugar', concept: 'Turning light into sugar' }),
+    ]);
+
+    expect(duplicates.size).toBe(0);
+  });
+
+  it('still compares titles and content when Smart Connections fails', async () => {
+    const search = vi.fn().mockRejectedValue(new Error('index not ready'));
+    (app as any).plugins.plugins['smart-connections'] = { api: { search } };
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const duplicates = await detector.findDuplicates([createCandidate()]);
+
+    expect(duplicates.get('candidate-1')?.[0].path).toBe('Atoms/Spaced repetition.md');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('uses the updated atom folder', async () => {
+    const settings = createDefaultSettings();
+    settings.atomFolder = 'Zettels';
+    detector.updateSettings(settings);
+
+    const duplicates = await detector.findDuplicates([createCandidate()]);
+
+    expect(duplicates.size).toBe(0);
+  });
+});
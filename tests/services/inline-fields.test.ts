@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseInlineFields,
+  splitFieldValue,
+  normaliseFieldKey,
+  getFieldValues,
+  getFrontmatterValues,
+  hasFieldValue,
+} from '../../src/services/inline-fields';
+
+describe('normaliseFieldKey', () => {
+  it('lowercases and hyphenates keys', () => {
+    expect(normaliseFieldKey('Migration Status')).toBe('migration-status');
+  });
+
+  it('strips markdown emphasis', () => {
+    expect(normaliseFieldKey('**Migration**')).toBe('migration');
+  });
+});
+
+describe('splitFieldValue', () => {
+  it('returns a single value', () => {
+    expect(splitFieldValue('quarry')).toEqual(['quarry']);
+  });
+
+  it('splits comma-separated lists', () => {
+    expect(splitFieldValue('quarry, in-progress')).toEqual(['quarry', 'in-progress']);
+  });
+
+  it('does not split inside wiki links or quotes', () => {
+    expect(splitFieldValue('[[A, B]], "x, y"')).toEqual(['[[A, B]]', 'x, y']);
+  });
+
+  it('drops empty items', () => {
+    expect(splitFieldValue(' , ')).toEqual([]);
+  });
+});
+
+describe('parseInlineFields', () => {
+  it('parses line fields', () => {
+    const fields = parseInlineFields('# Note\n\nMigration:: quarry\n');
+    expect(fields).toEqual({ migration: ['quarry'] });
+  });
+
+  it('parses line fields in list items and quotes', () => {
+    const fields = parseInlineFields('- Migration:: quarry\n> Source:: book');
+    expect(fields).toEqual({ migration: ['quarry'], source: ['book'] });
+  });
+
+  it('parses bracketed fields within text', () => {
+    const fields = parseInlineFields('Some text [Migration:: quarry] and [Rating:: 5].');
+    expect(fields).toEqual({ migration: ['quarry'], rating: ['5'] });
+  });
+
+  it('parses parenthesised fields within text', () => {
+    const fields = parseInlineFields('Some text (Migration:: quarry) continues');
+    expect(fields).toEqual({ migration: ['quarry'] });
+  });
+
+  it('parses bold keys', () => {
+    const fields = parseInlineFields('**Migration**:: quarry');
+    expect(fields).toEqual({ migration: ['quarry'] });
+  });
+
+  it('merges repeated keys regardless of case', () => {
+    const fields = parseInlineFields('Migration:: quarry\nmigration:: draft');
+    expect(fields).toEqual({ migration: ['quarry', 'draft'] });
+  });
+
+  it('parses list values', () => {
+    const fields = parseInlineFields('Tags:: one, two, three');
+    expect(fields.tags).toEqual(['one', 'two', 'three']);
+  });
+
+  it('ignores frontmatter', () => {
+    const fields = parseInlineFields('---\nMigration:: quarry\n---\nBody');
+    expect(fields).toEqual({});
+  });
+
+  it('ignores fenced code blocks and inline code', () => {
+    const content = '```\nMigration:: quarry\n```\nUse `Migration:: quarry` syntax';
+    expect(parseInlineFields(content)).toEqual({});
+  });
+
+  it('ignores single-colon text', () => {
+    expect(parseInlineFields('Note: this is not a field')).toEqual({});
+  });
+});
+
+describe('field lookups', () => {
+  it('getFieldValues matches keys case-insensitively', () => {
+    const fields = parseInlineFields('migration:: quarry');
+    expect(getFieldValues(fields, 'Migration')).toEqual(['quarry']);
+  });
+
+  it('getFrontmatterValues handles scalars, lists and key case', () => {
+    expect(getFrontmatterValues({ migration: 'quarry' }, 'Migration')).toEqual(['quarry']);
+    expect(getFrontmatterValues({ Migration: ['quarry', 'draft'] }, 'Migration')).toEqual([
+      'quarry',
+      'draft',
+    ]);
+    expect(getFrontmatterValues(undefined, 'Migration')).toEqual([]);
+  });
+
+  it('hasFieldValue compares case-insensitively', () => {
+    expect(hasFieldValue(['Quarry'], 'quarry')).toBe(true);
+    expect(hasFieldValue(['atomised'], 'quarry')).toBe(false);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MIGRATION_LIFECYCLE,
+  canTransition,
+  getEventTarget,
+  formatTransitions,
+  parseTransitions,
+} from '../../src/services/lifecycle';
+
+describe('canTransition', () => {
+  const lifecycle = DEFAULT_MIGRATION_LIFECYCLE;
+
+  it('allows configured transitions', () => {
+    expect(canTransition(lifecycle, 'quarry', 'in-progress')).toBe(true);
+    expect(canTransition(lifecycle, 'in-progress', 'partially-atomised')).toBe(true);
+    expect(canTransition(lifecycle, 'atomised', 'archived')).toBe(true);
+  });
+
+  it('rejects transitions that are not configured', () => {
+    expect(canTransition(lifecycle, 'atomised', 'quarry')).toBe(false);
+    expect(canTransition(lifecycle, 'archived', 'quarry')).toBe(false);
+  });
+
+  it('rejects transitions to the same value', () => {
+    expect(canTransition(lifecycle, 'quarry', 'quarry')).toBe(false);
+  });
+
+  it('does not restrict values outside the lifecycle', () => {
+    expect(canTransition(lifecycle, 'pending', 'atomised')).toBe(true);
+  });
+});
+
+describe('getEventTarget', () => {
+  it('returns the configured value for an event', () => {
+    expect(getEventTarget(DEFAULT_MIGRATION_LIFECYCLE, 'partial')).toBe('partially-atomised');
+  });
+
+  it('returns null for events configured to leave the note unchanged', () => {
+    const lifecycle = {
+      ...DEFAULT_MIGRATION_LIFECYCLE,
+      events: { ...DEFAULT_MIGRATION_LIFECYCLE.events, start: '  ' },
+    };
+    expect(getEventTarget(lifecycle, 'start')).toBeNull();
+  });
+});
+
+describe('transition text format', () => {
+  it('round-trips the default transitions', () => {
+    const text = formatTransitions(DEFAULT_MIGRATION_LIFECYCLE.transitions);
+
+    expect(parseTransitions(text)).toEqual(DEFAULT_MIGRATION_LIFECYCLE.transitions);
+  });
+
+  it('formats one state per line', () => {
+    expect(formatTransitions({ quarry: ['atomised'], atomised: [] })).toBe(
+      'quarry -> atomised\natomised ->'
+    );
+  });
+
+  it('parses terminal states, blank lines and whitespace', () => {
+    const text = '  quarry ->  draft ,atomised \n\narchived';
+
+    expect(parseTransitions(text)).toEqual({
+      quarry: ['draft', 'atomised'],
+      archived: [],
+    });
+  });
+});
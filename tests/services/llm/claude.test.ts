@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ClaudeProvider, CLAUDE_MODELS, DEFAULT_CLAUDE_MODEL } from '../../../src/services/llm/claude';
 
 // Mock Obsidian's requestUrl
@@ -8,6 +8,17 @@ vi.mock('obsidian', () => ({
 
 import { requestUrl } from 'obsidian';
 
+const streamResponse = (chunks: string[], status = 200): Response => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { status });
+};
+
 describe('ClaudeProvider', () => {
   let provider: ClaudeProvider;
   const mockRequestUrl = vi.mocked(requestUrl);
@@ -72,6 +83,7 @@ describe('ClaudeProvider', () => {
           'anthropic-version': '2023-06-01',
         },
         body: expect.stringContaining('Test prompt'),
+        throw: false,
       });
     });
 
@@ -96,7 +108,11 @@ describe('ClaudeProvider', () => {
         },
       } as any);
 
-      await expect(provider.complete('Test')).rejects.toThrow('Bad request');
+      await expect(provider.complete('Test')).rejects.toMatchObject({
+        message: expect.stringContaining('Bad request'),
+        status: 400,
+        kind: 'bad-request',
+      });
     });
 
     it('throws error on empty response', async () => {
@@ -138,6 +154,123 @@ describe('ClaudeProvider', () => {
       const body = JSON.parse(call.body);
       expect(body.model).toBe('claude-3-opus-20240229');
     });
+
+    it('sends a conversation as its messages', async () => {
+      mockRequestUrl.mockResolvedValueOnce({
+        status: 200,
+        json: { content: [{ type: 'text', text: 'OK' }] },
+      } as any);
+      const messages = [
+        { role: 'user' as const, content: 'Critique this' },
+        { role: 'assistant' as const, content: 'Too broad' },
+        { role: 'user' as const, content: 'It is one idea' },
+      ];
+
+      await provider.complete(messages);
+
+      const body = JSON.parse(mockRequestUrl.mock.calls[0][0].body);
+      expect(body.messages).toEqual(messages);
+    });
+
+    it('reports token usage', async () => {
+      mockRequestUrl.mockResolvedValueOnce({
+        status: 200,
+        json: {
+          content: [{ type: 'text', text: 'OK' }],
+          usage: { input_tokens: 120, output_tokens: 30 },
+        },
+      } as any);
+      const onUsage = vi.fn();
+
+      await provider.complete('Test', onUsage);
+
+      expect(onUsage).toHaveBeenCalledWith({
+        model: 'claude-sonnet-4-20250514',
+        inputTokens: 120,
+        outputTokens: 30,
+      });
+    });
+  });
+
+  describe('stream', () => {
+    const delta = (text: string) =>
+      `event: content_block_delta\ndata: ${JSON.stringify({
+        type: 'content_block_delta',
+        delta: { type: 'text_delta', text },
+      })}\n\n`;
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('streams text deltas and returns the full text', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        streamResponse([
+          'event: message_start\ndata: {"type":"message_start"}\n\n',
+          delta('Hello'),
+          delta(' world'),
+          'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+        ])
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const tokens: string[] = [];
+
+      const text = await provider.stream('Prompt', (token) => tokens.push(token));
+
+      expect(text).toBe('Hello world');
+      expect(tokens).toEqual(['Hello', ' world']);
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.anthropic.com/v1/messages');
+      expect(JSON.parse(init.body).stream).toBe(true);
+      expect(init.headers['anthropic-dangerous-direct-browser-access']).toBe('true');
+    });
+
+    it('throws API errors from a failed response', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          new Response(JSON.stringify({ error: { message: 'Invalid API key' } }), { status: 401 })
+        )
+      );
+
+      await expect(provider.stream('Prompt', () => {})).rejects.toThrow('Invalid API key');
+    });
+
+    it('throws errors sent mid-stream', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          streamResponse([
+            delta('Partial'),
+            'event: error\ndata: {"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}\n\n',
+          ])
+        )
+      );
+
+      await expect(provider.stream('Prompt', () => {})).rejects.toThrow('Overloaded');
+    });
+
+    it('reports token usage from the start and delta events', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          streamResponse([
+            'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":80,"output_tokens":1}}}\n\n',
+            delta('Hi'),
+            'event: message_delta\ndata: {"type":"message_delta","usage":{"output_tokens":12}}\n\n',
+            'event: message_stop\ndata: {"type":"message_stop"}\n\n',
+          ])
+        )
+      );
+      const onUsage = vi.fn();
+
+      await provider.stream('Prompt', () => {}, undefined, onUsage);
+
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ inputTokens: 80, outputTokens: 12 })
+      );
+    });
   });
 
   describe('setModel', () => {
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LLMRequestError,
+  classifyStatus,
+  createRequestError,
+  describeError,
+  getErrorStatus,
+  isRetryableStatus,
+  shouldFallBack,
+} from '../../../src/services/llm/errors';
+
+describe('getErrorStatus', () => {
+  it('reads the status from an LLMRequestError', () => {
+    expect(getErrorStatus(new LLMRequestError('Overloaded', 529))).toBe(529);
+  });
+
+  it('reads the status from a requestUrl error', () => {
+    expect(getErrorStatus(Object.assign(new Error('Request failed'), { status: 503 }))).toBe(503);
+  });
+
+  it('returns undefined without a status', () => {
+    expect(getErrorStatus(new Error('Failed to fetch'))).toBeUndefined();
+    expect(getErrorStatus('oops')).toBeUndefined();
+    expect(getErrorStatus(null)).toBeUndefined();
+  });
+});
+
+describe('isRetryableStatus', () => {
+  it('accepts rate limits, exhausted credit and server errors', () => {
+    for (const status of [402, 408, 429, 500, 502, 503, 529]) {
+      expect(isRetryableStatus(status)).toBe(true);
+    }
+  });
+
+  it('rejects other client errors', () => {
+    for (const status of [400, 401, 404, 413, 422]) {
+      expect(isRetryableStatus(status)).toBe(false);
+    }
+  });
+});
+
+describe('shouldFallBack', () => {
+  it('falls back on errors without a status', () => {
+    expect(shouldFallBack(new Error('Failed to fetch'))).toBe(true);
+    expect(shouldFallBack(new LLMRequestError('Timed out'))).toBe(true);
+  });
+
+  it('falls back on retryable statuses and rejected credentials', () => {
+    expect(shouldFallBack(new LLMRequestError('Overloaded', 529))).toBe(true);
+    expect(shouldFallBack(new LLMRequestError('Invalid key', 401))).toBe(true);
+  });
+
+  it('does not fall back on malformed requests', () => {
+    expect(shouldFallBack(new LLMRequestError('Bad request', 400))).toBe(false);
+    expect(shouldFallBack(new LLMRequestError('Too large', 413))).toBe(false);
+  });
+});
+
+describe('classifyStatus', () => {
+  it('classifies common failures', () => {
+    expect(classifyStatus(401)).toBe('auth');
+    expect(classifyStatus(402)).toBe('quota');
+    expect(classifyStatus(429)).toBe('rate-limit');
+    expect(classifyStatus(529)).toBe('overloaded');
+    expect(classifyStatus(500)).toBe('server');
+    expect(classifyStatus(400)).toBe('bad-request');
+  });
+
+  it('tells an exhausted quota from a rate limit by the message', () => {
+    expect(classifyStatus(429, 'You exceeded your current quota')).toBe('quota');
+    expect(classifyStatus(400, 'Your credit balance is too low')).toBe('quota');
+  });
+});
+
+describe('createRequestError', () => {
+  it('keeps the API message and adds advice', () => {
+    const error = createRequestError('OpenRouter', 529, 'Overloaded');
+
+    expect(error.message).toBe(
+      'OpenRouter is overloaded (Overloaded). Try again shortly, or add a fallback provider.'
+    );
+    expect(error.status).toBe(529);
+    expect(error.kind).toBe('overloaded');
+  });
+});
+
+describe('describeError', () => {
+  it('reads errors, strings and API error objects', () => {
+    expect(describeError(new Error('Boom'))).toBe('Boom');
+    expect(describeError('Boom')).toBe('Boom');
+    expect(describeError({ error: { message: 'Boom' } })).toBe('Boom');
+    expect(describeError({ error: 'Boom' })).toBe('Boom');
+  });
+
+  it('never returns "[object Object]"', () => {
+    expect(describeError({ code: 42 })).toBe('{"code":42}');
+  });
+});
+
+describe('shouldFallBack with classified errors', () => {
+  it('falls back on a quota reported as a bad request', () => {
+    expect(shouldFallBack(createRequestError('Claude', 400, 'Your credit balance is too low'))).toBe(
+      true
+    );
+  });
+});
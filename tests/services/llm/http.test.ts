@@ -0,0 +1,243 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  HttpClient,
+  parseRetryAfter,
+  getBackoffDelay,
+  DEFAULT_HTTP_OPTIONS,
+} from '../../../src/services/llm/http';
+import { LLMRequestError } from '../../../src/services/llm/errors';
+
+// Mock Obsidian's requestUrl
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+}));
+
+import { requestUrl } from 'obsidian';
+
+const ok = { status: 200, headers: {}, json: { answer: 42 } } as any;
+
+const failure = (status: number, message = '', headers: Record<string, string> = {}) =>
+  ({ status, headers, json: message ? { error: { message } } : {} }) as any;
+
+describe('parseRetryAfter', () => {
+  it('reads seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('reads an HTTP date', () => {
+    const now = Date.parse('2024-05-01T10:00:00Z');
+    expect(parseRetryAfter('Wed, 01 May 2024 10:00:05 GMT', now)).toBe(5000);
+  });
+
+  it('returns null when absent or unreadable', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('getBackoffDelay', () => {
+  const options = { baseDelayMs: 1000, maxDelayMs: 30_000 };
+
+  it('doubles the ceiling with each retry', () => {
+    expect(getBackoffDelay(0, options, () => 1)).toBe(1000);
+    expect(getBackoffDelay(2, options, () => 1)).toBe(4000);
+  });
+
+  it('waits at least half the ceiling', () => {
+    expect(getBackoffDelay(1, options, () => 0)).toBe(1000);
+  });
+
+  it('caps the delay', () => {
+    expect(getBackoffDelay(10, options, () => 1)).toBe(30_000);
+  });
+});
+
+describe('HttpClient', () => {
+  const mockRequestUrl = vi.mocked(requestUrl);
+  let client: HttpClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    client = new HttpClient('Claude');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('requestJson', () => {
+    it('returns the JSON body and never lets requestUrl throw', async () => {
+      mockRequestUrl.mockResolvedValueOnce(ok);
+
+      const data = await client.requestJson({ url: 'https://api.test' });
+
+      expect(data).toEqual({ answer: 42 });
+      expect((mockRequestUrl.mock.calls[0][0] as any).throw).toBe(false);
+    });
+
+    it('retries an overloaded server with backoff', async () => {
+      mockRequestUrl.mockResolvedValueOnce(failure(529, 'Overloaded')).mockResolvedValueOnce(ok);
+
+      const pending = client.requestJson({ url: 'https://api.test' });
+      await vi.advanceTimersByTimeAsync(DEFAULT_HTTP_OPTIONS.baseDelayMs);
+
+      expect(await pending).toEqual({ answer: 42 });
+      expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+    });
+
+    it('waits as long as retry-after asks', async () => {
+      mockRequestUrl
+        .mockResolvedValueOnce(failure(429, 'Slow down', { 'Retry-After': '5' }))
+        .mockResolvedValueOnce(ok);
+
+      const pending = client.requestJson({ url: 'https://api.test' });
+      await vi.advanceTimersByTimeAsync(4000);
+      expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await pending).toEqual({ answer: 42 });
+    });
+
+    it('gives up at once when retry-after is longer than the longest delay', async () => {
+      mockRequestUrl.mockResolvedValueOnce(failure(429, 'Slow down', { 'retry-after': '600' }));
+
+      await expect(client.requestJson({ url: 'https://api.test' })).rejects.toMatchObject({
+        kind: 'rate-limit',
+      });
+      expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+    });
+
+    it('stops after the configured retries', async () => {
+      client = new HttpClient('Claude', { maxRetries: 1 });
+      mockRequestUrl.mockResolvedValue(failure(503));
+
+      const pending = client.requestJson({ url: 'https://api.test' });
+      const assertion = expect(pending).rejects.toMatchObject({ status: 503, kind: 'overloaded' });
+      await vi.advanceTimersByTimeAsync(DEFAULT_HTTP_OPTIONS.baseDelayMs);
+      await assertion;
+
+      expect(mockRequestUrl).toHaveBeenCalledTimes(2);
+    });
+
+    it('does not retry an exhausted quota', async () => {
+      mockRequestUrl.mockResolvedValueOnce(failure(429, 'You exceeded your current quota'));
+
+      await expect(client.requestJson({ url: 'https://api.test' })).rejects.toMatchObject({
+        kind: 'quota',
+      });
+      expect(mockRequestUrl).toHaveBeenCalledTimes(1);
+    });
+
+    it('explains rejected keys', async () => {
+      mockRequestUrl.mockResolvedValueOnce(failure(401, 'invalid x-api-key'));
+
+      const error = await client.requestJson({ url: 'https://api.test' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(LLMRequestError);
+      expect(error.kind).toBe('auth');
+      expect(error.message).toBe(
+        'Claude rejected the API key (invalid x-api-key). Check the key in the plugin settings.'
+      );
+    });
+
+    it('times out a request that never answers', async () => {
+      client = new HttpClient('Claude', { timeoutMs: 1000 });
+      mockRequestUrl.mockReturnValueOnce(new Promise(() => {}) as any);
+
+      const pending = client.requestJson({ url: 'https://api.test' });
+      const assertion = expect(pending).rejects.toMatchObject({ kind: 'timeout' });
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+    });
+
+    it('reports network failures readably', async () => {
+      mockRequestUrl.mockRejectedValueOnce({ code: 'ECONNREFUSED' });
+
+      await expect(client.requestJson({ url: 'https://api.test' })).rejects.toMatchObject({
+        kind: 'network',
+        message: expect.stringContaining('ECONNREFUSED'),
+      });
+    });
+  });
+
+  describe('fetchStream', () => {
+    it('retries a failed stream before it starts', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(new Response('{}', { status: 529 }))
+        .mockResolvedValueOnce(new Response('data: ok\n\n', { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const pending = client.fetchStream('https://api.test', { method: 'POST' });
+      await vi.advanceTimersByTimeAsync(DEFAULT_HTTP_OPTIONS.baseDelayMs);
+
+      expect((await pending).status).toBe(200);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('classifies the error of a failed stream', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          new Response(JSON.stringify({ error: { message: 'No credits' } }), { status: 402 })
+        )
+      );
+
+      await expect(client.fetchStream('https://api.test', {})).rejects.toMatchObject({
+        kind: 'quota',
+        message: expect.stringContaining('No credits'),
+      });
+    });
+
+    it('times out a stream that stalls after it starts', async () => {
+      client = new HttpClient('Claude', { timeoutMs: 1000 });
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(stream) {
+          stream.enqueue(encoder.encode('data: first\n\n'));
+          // Then nothing more arrives
+        },
+      });
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(body, { status: 200 })));
+
+      const response = await client.fetchStream('https://api.test', {});
+      const reader = response.body!.getReader();
+      expect((await reader.read()).done).toBe(false);
+
+      const stalled = reader.read();
+      const assertion = expect(stalled).rejects.toMatchObject({ kind: 'timeout' });
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+    });
+
+    it('keeps streaming while data keeps arriving', async () => {
+      client = new HttpClient('Claude', { timeoutMs: 1000 });
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(new Response('data: ok\n\n', { status: 200 }))
+      );
+
+      const response = await client.fetchStream('https://api.test', {});
+
+      expect(await response.text()).toBe('data: ok\n\n');
+    });
+
+    it('stops retrying when aborted', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(new Response('{}', { status: 503 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const controller = new AbortController();
+
+      const pending = client.fetchStream('https://api.test', { signal: controller.signal });
+      const assertion = expect(pending).rejects.toThrow('Aborted');
+      await vi.advanceTimersByTimeAsync(10);
+      controller.abort();
+      await assertion;
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,11 +1,26 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   createLLMProvider,
   getLLMConfigFromSettings,
   LLMService,
   LLMConfig,
+  extractJson,
+  parseConceptSuggestions,
+  parseScorecard,
+  CANCELLED_ERROR,
+  getProviderChain,
 } from '../../../src/services/llm/index';
+import {
+  LLMRequestError,
+  createNetworkError,
+  createTimeoutError,
+} from '../../../src/services/llm/errors';
+import {
+  OpenAICompatibleProvider,
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+} from '../../../src/services/llm/openai-compatible';
 import { App } from '../../mocks/obsidian';
+import { UsageLedger } from '../../../src/services/usage';
 import { KastenatorSettings } from '../../../src/types';
 
 const createDefaultSettings = (): KastenatorSettings => ({
@@ -82,6 +97,33 @@ describe('LLM Provider Factory', () => {
       const provider = createLLMProvider(app as any, config);
       expect(provider).toBeNull();
     });
+
+    it('creates OpenAICompatibleProvider when a model is set', () => {
+      const config: LLMConfig = {
+        provider: 'openai-compatible',
+        openaiCompatibleBaseUrl: 'http://localhost:1234/v1',
+        openaiCompatibleModel: 'llama3.1',
+      };
+      const provider = createLLMProvider(app as any, config) as OpenAICompatibleProvider;
+
+      expect(provider).not.toBeNull();
+      expect(provider.getType()).toBe('openai-compatible');
+      expect(provider.getBaseUrl()).toBe('http://localhost:1234/v1');
+      expect(provider.getModel()).toBe('llama3.1');
+    });
+
+    it('uses the default server URL when none is set', () => {
+      const config: LLMConfig = { provider: 'openai-compatible', openaiCompatibleModel: 'llama3.1' };
+      const provider = createLLMProvider(app as any, config) as OpenAICompatibleProvider;
+
+      expect(provider.getBaseUrl()).toBe(DEFAULT_OPENAI_COMPATIBLE_BASE_URL);
+    });
+
+    it('returns null for OpenAI-compatible without a model', () => {
+      const config: LLMConfig = { provider: 'openai-compatible' };
+      const provider = createLLMProvider(app as any, config);
+      expect(provider).toBeNull();
+    });
   });
 
   describe('getLLMConfigFromSettings', () => {
@@ -100,6 +142,22 @@ describe('LLM Provider Factory', () => {
       expect(config.claudeModel).toBe('claude-3-opus');
     });
 
+    it('extracts OpenAI-compatible server settings', () => {
+      const settings: KastenatorSettings = {
+        ...createDefaultSettings(),
+        llmProvider: 'openai-compatible',
+        openaiCompatibleBaseUrl: 'http://localhost:8080/v1',
+        openaiCompatibleModel: 'qwen2.5',
+        openaiCompatibleApiKey: 'local-key',
+      };
+
+      const config = getLLMConfigFromSettings(settings);
+
+      expect(config.openaiCompatibleBaseUrl).toBe('http://localhost:8080/v1');
+      expect(config.openaiCompatibleModel).toBe('qwen2.5');
+      expect(config.openaiCompatibleApiKey).toBe('local-key');
+    });
+
     it('defaults to "none" when provider not set', () => {
       const settings = createDefaultSettings();
       delete (settings as any).llmProvider;
@@ -109,6 +167,28 @@ describe('LLM Provider Factory', () => {
       expect(config.provider).toBe('none');
     });
   });
+
+  describe('getProviderChain', () => {
+    it('lists the primary first, then fallbacks in order', () => {
+      const settings: KastenatorSettings = {
+        ...createDefaultSettings(),
+        llmProvider: 'claude',
+        llmFallbackProviders: ['openai-compatible', 'openrouter'],
+      };
+
+      expect(getProviderChain(settings)).toEqual(['claude', 'openai-compatible', 'openrouter']);
+    });
+
+    it('drops "none" and duplicates', () => {
+      const settings: KastenatorSettings = {
+        ...createDefaultSettings(),
+        llmProvider: 'none',
+        llmFallbackProviders: ['openrouter', 'none', 'openrouter'],
+      };
+
+      expect(getProviderChain(settings)).toEqual(['openrouter']);
+    });
+  });
 });
 
 describe('LLMService', () => {
@@ -182,6 +262,386 @@ describe('LLMService', () => {
     });
   });
 
+  describe('provider fallback', () => {
+    const createProvider = (type: string, overrides: Record<string, unknown> = {}) => ({
+      isAvailable: vi.fn().mockResolvedValue(true),
+      complete: vi.fn().mockResolvedValue(`Answer from ${type}`),
+      getName: () => type.toUpperCase(),
+      getType: () => type,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('builds providers for the primary and each configured fallback', () => {
+      settings.llmProvider = 'claude';
+      settings.claudeApiKey = 'key';
+      settings.llmFallbackProviders = ['openrouter', 'openai-compatible', 'claude'];
+      settings.openrouterApiKey = 'key';
+      service.updateSettings(settings);
+
+      // openai-compatible has no model and is left out; the duplicate is dropped
+      const types = (service as any).providers.map((p: any) => p.getType());
+      expect(types).toEqual(['claude', 'openrouter']);
+    });
+
+    it('answers from the primary when it succeeds', async () => {
+      const primary = createProvider('claude');
+      const fallback = createProvider('openrouter');
+      (service as any).providers = [primary, fallback];
+
+      const result = await service.complete('Prompt');
+
+      expect(result).toEqual({ success: true, content: 'Answer from claude', provider: 'claude' });
+      expect(fallback.complete).not.toHaveBeenCalled();
+    });
+
+    it('tries the next provider on a retryable status', async () => {
+      const primary = createProvider('claude', {
+        complete: vi.fn().mockRejectedValue(new LLMRequestError('Overloaded', 529)),
+      });
+      const fallback = createProvider('openrouter');
+      (service as any).providers = [primary, fallback];
+
+      const result = await service.complete('Prompt');
+
+      expect(result).toEqual({
+        success: true,
+        content: 'Answer from openrouter',
+        provider: 'openrouter',
+      });
+    });
+
+    it('skips unavailable providers', async () => {
+      const primary = createProvider('smart-connections', {
+        isAvailable: vi.fn().mockResolvedValue(false),
+      });
+      const fallback = createProvider('claude');
+      (service as any).providers = [primary, fallback];
+
+      const result = await service.complete('Prompt');
+
+      expect(result.provider).toBe('claude');
+      expect(primary.complete).not.toHaveBeenCalled();
+    });
+
+    it('tries the next provider when one times out', async () => {
+      vi.useFakeTimers();
+      settings.llmTimeoutSeconds = 5;
+      settings.llmMaxRetries = 0;
+      const primary = createProvider('openai-compatible', {
+        complete: vi.fn(() => new Promise<string>(() => {})),
+      });
+      const fallback = createProvider('claude');
+      (service as any).providers = [primary, fallback];
+
+      const pending = service.complete('Prompt');
+      await vi.advanceTimersByTimeAsync(5000);
+      const result = await pending;
+
+      expect(result.provider).toBe('claude');
+      expect(result.success).toBe(true);
+    });
+
+    it('stops on an error another provider would not fix', async () => {
+      const primary = createProvider('claude', {
+        complete: vi.fn().mockRejectedValue(new LLMRequestError('Prompt is too long', 400)),
+      });
+      const fallback = createProvider('openrouter');
+      (service as any).providers = [primary, fallback];
+
+      const result = await service.complete('Prompt');
+
+      expect(result).toMatchObject({ success: false, provider: 'claude' });
+      expect(result.error).toContain('Prompt is too long');
+      expect(fallback.complete).not.toHaveBeenCalled();
+    });
+
+    it('reports every failure when no provider answers', async () => {
+      const primary = createProvider('claude', {
+        complete: vi.fn().mockRejectedValue(new LLMRequestError('Overloaded', 529)),
+      });
+      const fallback = createProvider('openrouter', {
+        complete: vi.fn().mockRejectedValue(new LLMRequestError('Rate limited', 429)),
+      });
+      (service as any).providers = [primary, fallback];
+
+      const result = await service.complete('Prompt');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('CLAUDE: Overloaded; OPENROUTER: Rate limited');
+    });
+
+    it('streams from the next provider after a retryable failure', async () => {
+      const primary = createProvider('claude', {
+        stream: vi.fn().mockRejectedValue(new LLMRequestError('Overloaded', 529)),
+      });
+      const fallback = createProvider('openrouter', {
+        stream: vi.fn(async (_prompt: string, onToken: (t: string) => void) => {
+          onToken('ok');
+          return 'ok';
+        }),
+      });
+      (service as any).providers = [primary, fallback];
+      const tokens: string[] = [];
+
+      const result = await service.stream('Prompt', { onToken: (t) => tokens.push(t) });
+
+      expect(result).toEqual({ success: true, content: 'ok', provider: 'openrouter' });
+      expect(tokens).toEqual(['ok']);
+      expect(primary.complete).not.toHaveBeenCalled();
+    });
+
+    it('streams from the next provider after a timeout or network failure', async () => {
+      const primary = createProvider('claude', {
+        stream: vi.fn().mockRejectedValue(createTimeoutError('Claude', 60000)),
+      });
+      const second = createProvider('openrouter', {
+        stream: vi.fn().mockRejectedValue(createNetworkError('OpenRouter', 'Failed to fetch')),
+      });
+      const fallback = createProvider('openai-compatible', {
+        stream: vi.fn(async (_prompt: string, onToken: (t: string) => void) => {
+          onToken('ok');
+          return 'ok';
+        }),
+      });
+      (service as any).providers = [primary, second, fallback];
+
+      const result = await service.stream('Prompt', { onToken: () => {} });
+
+      expect(result).toEqual({ success: true, content: 'ok', provider: 'openai-compatible' });
+      expect(primary.complete).not.toHaveBeenCalled();
+      expect(second.complete).not.toHaveBeenCalled();
+    });
+
+    it('polls the chain when a later provider cannot stream', async () => {
+      const primary = createProvider('claude', {
+        stream: vi.fn().mockRejectedValue(new LLMRequestError('Overloaded', 529)),
+      });
+      const fallback = createProvider('smart-connections');
+      (service as any).providers = [primary, fallback];
+      const tokens: string[] = [];
+
+      const result = await service.stream('Prompt', { onToken: (t) => tokens.push(t) });
+
+      expect(result.provider).toBe('smart-connections');
+      expect(tokens).toEqual(['Answer from smart-connections']);
+      expect(primary.complete).not.toHaveBeenCalled();
+    });
+
+    it('describes a fallback answer', () => {
+      (service as any).providers = [createProvider('claude'), createProvider('openrouter')];
+
+      expect(service.describeProvider('claude')).toBe('CLAUDE');
+      expect(service.describeProvider('openrouter')).toBe('OPENROUTER (fallback for CLAUDE)');
+    });
+  });
+
+  describe('usage', () => {
+    const createProvider = (usage: Record<string, unknown>) => ({
+      isAvailable: vi.fn().mockResolvedValue(true),
+      complete: vi.fn(async (_prompt: string, onUsage?: (u: any) => void) => {
+        onUsage?.(usage);
+        return 'Answer';
+      }),
+      stream: vi.fn(
+        async (
+          _prompt: string,
+          onToken: (t: string) => void,
+          _signal?: AbortSignal,
+          onUsage?: (u: any) => void
+        ) => {
+          onToken('Answer');
+          onUsage?.(usage);
+          return 'Answer';
+        }
+      ),
+      getName: () => 'Claude',
+      getType: () => 'claude',
+    });
+
+    let ledger: UsageLedger;
+
+    beforeEach(() => {
+      settings.usageLedger = [];
+      settings.monthlyBudget = 0;
+      ledger = new UsageLedger(settings, vi.fn().mockResolvedValue(undefined));
+      service = new LLMService(app as any, settings, ledger);
+    });
+
+    it('records priced usage with its context', async () => {
+      (service as any).providers = [
+        createProvider({ model: 'claude-sonnet-4-20250514', inputTokens: 1000, outputTokens: 100 }),
+      ];
+
+      await service.complete('Prompt', { sessionId: 's1', sourcePath: 'Fleeting notes/a.md' });
+
+      expect(settings.usageLedger).toEqual([
+        expect.objectContaining({
+          provider: 'claude',
+          model: 'claude-sonnet-4-20250514',
+          inputTokens: 1000,
+          outputTokens: 100,
+          cost: 0.0045,
+          sessionId: 's1',
+          sourcePath: 'Fleeting notes/a.md',
+        }),
+      ]);
+    });
+
+    it('prefers the cost the provider reports', async () => {
+      (service as any).providers = [
+        createProvider({ model: 'unknown', inputTokens: 10, outputTokens: 10, cost: 0.5 }),
+      ];
+
+      await service.complete('Prompt');
+
+      expect(settings.usageLedger[0].cost).toBe(0.5);
+    });
+
+    it('records usage from a stream', async () => {
+      (service as any).providers = [
+        createProvider({ model: 'local', inputTokens: 5, outputTokens: 5 }),
+      ];
+
+      await service.stream('Prompt', { onToken: () => {}, context: { sessionId: 's2' } });
+
+      expect(settings.usageLedger).toEqual([
+        expect.objectContaining({ cost: null, sessionId: 's2' }),
+      ]);
+    });
+
+    it('refuses calls once the monthly budget is spent', async () => {
+      const provider = createProvider({ model: 'm', inputTokens: 1, outputTokens: 1 });
+      (service as any).providers = [provider];
+      settings.monthlyBudget = 1;
+      settings.usageLedger = [
+        {
+          timestamp: new Date().toISOString(),
+          provider: 'claude',
+          model: 'm',
+          inputTokens: 1,
+          outputTokens: 1,
+          cost: 1.25,
+        },
+      ];
+
+      const completion = await service.complete('Prompt');
+      const streamed = await service.stream('Prompt', { onToken: () => {} });
+
+      expect(completion.success).toBe(false);
+      expect(completion.error).toContain('monthly LLM budget of $1.00');
+      expect(streamed.success).toBe(false);
+      expect(provider.complete).not.toHaveBeenCalled();
+      expect(provider.stream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stream', () => {
+    const createProvider = (overrides: Record<string, unknown> = {}) => ({
+      isAvailable: vi.fn().mockResolvedValue(true),
+      complete: vi.fn().mockResolvedValue('Whole response'),
+      getName: () => 'Test',
+      getType: () => 'claude',
+      ...overrides,
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('uses the provider stream when available', async () => {
+      const provider = createProvider({
+        stream: vi.fn(async (_prompt: string, onToken: (t: string) => void) => {
+          onToken('a');
+          onToken('b');
+          return 'ab';
+        }),
+      });
+      (service as any).providers = [provider];
+      const tokens: string[] = [];
+
+      const result = await service.stream('Prompt', { onToken: (t) => tokens.push(t) });
+
+      expect(result).toEqual({ success: true, content: 'ab', provider: 'claude' });
+      expect(tokens).toEqual(['a', 'b']);
+      expect(provider.complete).not.toHaveBeenCalled();
+    });
+
+    it('falls back to a single completion when streaming fails before any text', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const provider = createProvider({
+        stream: vi.fn().mockRejectedValue(new Error('Failed to fetch')),
+      });
+      (service as any).providers = [provider];
+      const tokens: string[] = [];
+
+      const result = await service.stream('Prompt', { onToken: (t) => tokens.push(t) });
+
+      expect(result.success).toBe(true);
+      expect(tokens).toEqual(['Whole response']);
+    });
+
+    it('reports an error when streaming fails part-way', async () => {
+      const provider = createProvider({
+        stream: vi.fn(async (_prompt: string, onToken: (t: string) => void) => {
+          onToken('partial');
+          throw new Error('Connection reset');
+        }),
+      });
+      (service as any).providers = [provider];
+
+      const result = await service.stream('Prompt', { onToken: () => {} });
+
+      expect(result).toMatchObject({ success: false, error: 'Connection reset' });
+      expect(provider.complete).not.toHaveBeenCalled();
+    });
+
+    it('polls a provider that cannot stream, reporting progress', async () => {
+      vi.useFakeTimers();
+      let finish: (value: string) => void = () => {};
+      const provider = createProvider({
+        complete: vi.fn(() => new Promise<string>((resolve) => (finish = resolve))),
+      });
+      (service as any).providers = [provider];
+      const waiting: number[] = [];
+      const tokens: string[] = [];
+
+      const pending = service.stream('Prompt', {
+        onToken: (t) => tokens.push(t),
+        onWaiting: (ms) => waiting.push(ms),
+      });
+      await vi.advanceTimersByTimeAsync(2500);
+      finish('Done');
+      const result = await pending;
+
+      expect(waiting).toEqual([1000, 2000]);
+      expect(tokens).toEqual(['Done']);
+      expect(result.success).toBe(true);
+    });
+
+    it('returns a cancelled result when aborted', async () => {
+      const provider = createProvider({
+        complete: vi.fn(() => new Promise<string>(() => {})),
+      });
+      (service as any).providers = [provider];
+      const controller = new AbortController();
+
+      const pending = service.stream('Prompt', { onToken: () => {}, signal: controller.signal });
+      controller.abort();
+
+      expect(await pending).toMatchObject({ success: false, error: CANCELLED_ERROR });
+    });
+  });
+
   describe('buildCritiquePrompt', () => {
     it('constructs prompt with all parameters', () => {
       const prompt = service.buildCritiquePrompt(
@@ -200,7 +660,7 @@ describe('LLMService', () => {
     });
 
     it('truncates long source content', () => {
-      const longContent = 'A'.repeat(5000);
+      const longContent = 'A'.repeat(10000);
       const prompt = service.buildCritiquePrompt(
         'Concept',
         'Explanation',
@@ -208,8 +668,35 @@ describe('LLMService', () => {
         longContent
       );
 
-      // Source should be truncated to 2000 chars
-      expect(prompt.length).toBeLessThan(longContent.length);
+      // Source should be truncated to the default 1000-token budget
+      expect(prompt).not.toContain('A'.repeat(4001));
+    });
+
+    it('keeps the paragraphs relevant to the concept', () => {
+      const filler = Array.from({ length: 30 }, (_, i) => `Unrelated paragraph ${i} ${'x'.repeat(200)}`);
+      filler.splice(25, 0, 'Spaced repetition strengthens long-term memory retention.');
+      settings.promptSourceTokens = 250;
+      service.updateSettings(settings);
+
+      const prompt = service.buildCritiquePrompt(
+        'Spaced repetition',
+        'Reviewing at growing intervals improves memory retention',
+        '',
+        filler.join('\n\n')
+      );
+
+      expect(prompt).toContain('Spaced repetition strengthens long-term memory retention.');
+      expect(prompt).toContain('[…]');
+    });
+
+    it('fills a custom template', () => {
+      const prompt = service.buildCritiquePrompt('C', 'E', 'V', 'S', {
+        template: 'Bewerte {{concept}} / {{explanation}} / {{evidence}} / {{source}} / {{related_atoms}}',
+        relatedAtoms: ['Memory'],
+      });
+
+      expect(prompt.startsWith('Bewerte C / E / V / S / [[Memory]]')).toBe(true);
+      expect(prompt).toContain('"atomicity"');
     });
 
     it('includes evaluation criteria', () => {
@@ -223,6 +710,84 @@ describe('LLMService', () => {
     });
   });
 
+  describe('buildCritiquePrompt format', () => {
+    it('asks for a JSON scorecard keyed by criterion', () => {
+      const prompt = service.buildCritiquePrompt('C', 'E', 'V', 'S');
+
+      expect(prompt).toContain('JSON object');
+      for (const id of ['atomicity', 'clarity', 'substance', 'evidence', 'accuracy']) {
+        expect(prompt).toContain(`"${id}"`);
+      }
+    });
+
+    it('builds a retry prompt that includes the malformed response', () => {
+      const retry = service.buildCritiquePrompt('C', 'E', 'V', 'S');
+      const prompt = service.buildCritiqueRetryPrompt(retry, 'not json');
+
+      expect(prompt.startsWith(retry)).toBe(true);
+      expect(prompt).toContain('not json');
+      expect(prompt).toContain('not valid JSON');
+    });
+  });
+
+  describe('buildCritiqueChat', () => {
+    it('replays the critique before the thread', () => {
+      const messages = service.buildCritiqueChat('Critique prompt', 'Atomicity: fail', [
+        { role: 'user', content: 'It is one idea' },
+      ]);
+
+      expect(messages.map((m) => m.role)).toEqual(['user', 'assistant', 'user']);
+      expect(messages[0].content).toBe('Critique prompt');
+      expect(messages[1].content).toBe('Atomicity: fail');
+      expect(messages[2].content.startsWith('It is one idea')).toBe(true);
+      expect(messages[2].content).toContain('not JSON');
+    });
+
+    it('only adds the reminder to the latest turn', () => {
+      const messages = service.buildCritiqueChat('P', 'C', [
+        { role: 'user', content: 'First' },
+        { role: 'assistant', content: 'Answer' },
+        { role: 'user', content: 'Second' },
+      ]);
+
+      expect(messages[2].content).toBe('First');
+      expect(messages[4].content).toContain('not JSON');
+    });
+
+    it('drops thread metadata', () => {
+      const messages = service.buildCritiqueChat('P', 'C', [
+        { role: 'user', content: 'Hi', timestamp: '2024-01-01T00:00:00Z' } as any,
+      ]);
+
+      expect(Object.keys(messages[2])).toEqual(['role', 'content']);
+    });
+  });
+
+  describe('buildConceptPrompt', () => {
+    it('includes the source and asks for JSON with the expected fields', () => {
+      const prompt = service.buildConceptPrompt('Full source content here');
+
+      expect(prompt).toContain('Full source content here');
+      expect(prompt).toContain('JSON array');
+      expect(prompt).toContain('"concept"');
+      expect(prompt).toContain('"title"');
+      expect(prompt).toContain('"excerpt"');
+    });
+
+    it('truncates long source content', () => {
+      const prompt = service.buildConceptPrompt('A'.repeat(10000));
+
+      expect(prompt).not.toContain('A'.repeat(4001));
+    });
+
+    it('fills a custom template and keeps the response format', () => {
+      const prompt = service.buildConceptPrompt('Quelle', { template: 'Konzepte in: {{source}}' });
+
+      expect(prompt.startsWith('Konzepte in: Quelle')).toBe(true);
+      expect(prompt).toContain('JSON array');
+    });
+  });
+
   describe('updateSettings', () => {
     it('reinitialises provider when settings change', async () => {
       // Initially no provider
@@ -248,3 +813,71 @@ describe('LLMService', () => {
     });
   });
 });
+
+describe('extractJson', () => {
+  it('parses bare JSON', () => {
+    expect(extractJson('[{"a": 1}]')).toEqual([{ a: 1 }]);
+  });
+
+  it('parses JSON inside a code fence with surrounding prose', () => {
+    expect(extractJson('Here you go:\n```json\n{"a": [1, 2]}\n```\nDone.')).toEqual({
+      a: [1, 2],
+    });
+  });
+
+  it('returns null when there is no valid JSON', () => {
+    expect(extractJson('No JSON here')).toBeNull();
+    expect(extractJson('[{"a": 1,]')).toBeNull();
+  });
+});
+
+describe('parseConceptSuggestions', () => {
+  it('parses a list of concepts', () => {
+    const text = JSON.stringify([
+      { concept: 'Spacing improves recall', title: 'Spacing effect', excerpt: 'Spaced practice…' },
+    ]);
+
+    expect(parseConceptSuggestions(text)).toEqual([
+      { concept: 'Spacing improves recall', title: 'Spacing effect', excerpt: 'Spaced practice…' },
+    ]);
+  });
+
+  it('accepts an object with a concepts array', () => {
+    const text = '{"concepts": [{"concept": "One idea"}]}';
+
+    expect(parseConceptSuggestions(text)).toEqual([
+      { concept: 'One idea', title: 'One idea', excerpt: '' },
+    ]);
+  });
+
+  it('drops malformed entries', () => {
+    const text = '[{"title": "No concept"}, "text", null, {"concept": "  "}, {"concept": "Kept"}]';
+
+    expect(parseConceptSuggestions(text).map((s) => s.concept)).toEqual(['Kept']);
+  });
+
+  it('returns an empty list for unparseable responses', () => {
+    expect(parseConceptSuggestions('I could not find any concepts.')).toEqual([]);
+  });
+});
+
+describe('parseScorecard', () => {
+  it('parses a fenced scorecard', () => {
+    const criteria = Object.fromEntries(
+      ['atomicity', 'clarity', 'substance', 'evidence', 'accuracy'].map((id) => [
+        id,
+        { score: 3, verdict: 'weak', reason: 'Reason.' },
+      ])
+    );
+    const text = '```json\n' + JSON.stringify({ criteria, summary: 'S' }) + '\n```';
+
+    const scorecard = parseScorecard(text, 'openrouter');
+
+    expect(scorecard?.source).toBe('openrouter');
+    expect(scorecard?.criteria.substance.verdict).toBe('weak');
+  });
+
+  it('returns null for prose', () => {
+    expect(parseScorecard('Looks fine to me.', 'claude')).toBeNull();
+  });
+});
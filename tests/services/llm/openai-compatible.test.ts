@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  OpenAICompatibleProvider,
+  DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+} from '../../../src/services/llm/openai-compatible';
+
+// Mock Obsidian's requestUrl
+vi.mock('obsidian', () => ({
+  requestUrl: vi.fn(),
+}));
+
+import { requestUrl } from 'obsidian';
+
+const streamResponse = (chunks: string[], status = 200): Response => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { status });
+};
+
+describe('OpenAICompatibleProvider', () => {
+  let provider: OpenAICompatibleProvider;
+  const mockRequestUrl = vi.mocked(requestUrl);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    provider = new OpenAICompatibleProvider(DEFAULT_OPENAI_COMPATIBLE_BASE_URL, 'llama3.1');
+  });
+
+  describe('constructor', () => {
+    it('trims trailing slashes from the base URL', () => {
+      const p = new OpenAICompatibleProvider('http://localhost:1234/v1/', 'model');
+      expect(p.getBaseUrl()).toBe('http://localhost:1234/v1');
+    });
+  });
+
+  describe('getName', () => {
+    it('returns "OpenAI-compatible"', () => {
+      expect(provider.getName()).toBe('OpenAI-compatible');
+    });
+  });
+
+  describe('getType', () => {
+    it('returns "openai-compatible"', () => {
+      expect(provider.getType()).toBe('openai-compatible');
+    });
+  });
+
+  describe('isAvailable', () => {
+    it('returns true when URL and model are set', async () => {
+      expect(await provider.isAvailable()).toBe(true);
+    });
+
+    it('returns false without a model', async () => {
+      const p = new OpenAICompatibleProvider(DEFAULT_OPENAI_COMPATIBLE_BASE_URL, ' ');
+      expect(await p.isAvailable()).toBe(false);
+    });
+
+    it('returns false without a URL', async () => {
+      const p = new OpenAICompatibleProvider('', 'llama3.1');
+      expect(await p.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('complete', () => {
+    it('sends a chat completion request to the server', async () => {
+      mockRequestUrl.mockResolvedValueOnce({
+        status: 200,
+        json: { choices: [{ message: { content: 'Test response' } }] },
+      } as any);
+
+      const result = await provider.complete('Test prompt');
+
+      expect(result).toBe('Test response');
+      const request = mockRequestUrl.mock.calls[0][0] as any;
+      expect(request.url).toBe('http://localhost:11434/v1/chat/completions');
+      expect(request.throw).toBe(false);
+      const body = JSON.parse(request.body);
+      expect(body.model).toBe('llama3.1');
+      expect(body.stream).toBe(false);
+      expect(body.messages).toEqual([{ role: 'user', content: 'Test prompt' }]);
+    });
+
+    it('omits the Authorization header without an API key', async () => {
+      mockRequestUrl.mockResolvedValueOnce({
+        status: 200,
+        json: { choices: [{ message: { content: 'ok' } }] },
+      } as any);
+
+      await provider.complete('Prompt');
+
+      const request = mockRequestUrl.mock.calls[0][0] as any;
+      expect(request.headers['Authorization']).toBeUndefined();
+    });
+
+    it('sends a bearer token when an API key is set', async () => {
+      const p = new OpenAICompatibleProvider(DEFAULT_OPENAI_COMPATIBLE_BASE_URL, 'm', 'secret');
+      mockRequestUrl.mockResolvedValueOnce({
+        status: 200,
+        json: { choices: [{ message: { content: 'ok' } }] },
+      } as any);
+
+      await p.complete('Prompt');
+
+      const request = mockRequestUrl.mock.calls[0][0] as any;
+      expect(request.headers['Authorization']).toBe('Bearer secret');
+    });
+
+    it('throws the server error message', async () => {
+      mockRequestUrl.mockResolvedValueOnce({
+        status: 404,
+        json: { error: { message: 'model "llama3.1" not found' } },
+      } as any);
+
+      await expect(provider.complete('Prompt')).rejects.toThrow('model "llama3.1" not found');
+    });
+
+    it('throws a status error when the server gives no message', async () => {
+      const p = new OpenAICompatibleProvider(DEFAULT_OPENAI_COMPATIBLE_BASE_URL, 'm', '', {
+        maxRetries: 0,
+      });
+      mockRequestUrl.mockResolvedValueOnce({ status: 500, json: null } as any);
+
+      await expect(p.complete('Prompt')).rejects.toThrow('OpenAI-compatible had a server error (500)');
+    });
+
+    it('throws when the response has no content', async () => {
+      mockRequestUrl.mockResolvedValueOnce({ status: 200, json: { choices: [] } } as any);
+
+      await expect(provider.complete('Prompt')).rejects.toThrow('No content');
+    });
+  });
+
+  describe('stream', () => {
+    const chunk = (content: string) =>
+      `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('streams content deltas until [DONE]', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValue(streamResponse([chunk('Hel'), chunk('lo'), 'data: [DONE]\n\n']));
+      vi.stubGlobal('fetch', fetchMock);
+      const tokens: string[] = [];
+
+      const text = await provider.stream('Prompt', (token) => tokens.push(token));
+
+      expect(text).toBe('Hello');
+      expect(tokens).toEqual(['Hel', 'lo']);
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+    });
+
+    it('throws server errors from a failed response', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          new Response(JSON.stringify({ error: { message: 'Model not loaded' } }), { status: 400 })
+        )
+      );
+
+      await expect(provider.stream('Prompt', () => {})).rejects.toThrow('Model not loaded');
+    });
+  });
+
+  describe('listModels', () => {
+    it('returns the sorted model IDs', async () => {
+      mockRequestUrl.mockResolvedValueOnce({
+        status: 200,
+        json: { data: [{ id: 'qwen2.5' }, { id: 'llama3.1' }] },
+      } as any);
+
+      const models = await provider.listModels();
+
+      expect(models).toEqual(['llama3.1', 'qwen2.5']);
+      const request = mockRequestUrl.mock.calls[0][0] as any;
+      expect(request.url).toBe('http://localhost:11434/v1/models');
+      expect(request.method).toBe('GET');
+    });
+
+    it('throws when the server refuses', async () => {
+      mockRequestUrl.mockResolvedValueOnce({ status: 401, json: {} } as any);
+
+      await expect(provider.listModels()).rejects.toThrow('rejected the API key');
+    });
+  });
+});
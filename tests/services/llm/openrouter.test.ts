@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   OpenRouterProvider,
   OPENROUTER_MODELS,
@@ -12,6 +12,17 @@ vi.mock('obsidian', () => ({
 
 import { requestUrl } from 'obsidian';
 
+const streamResponse = (chunks: string[], status = 200): Response => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { status });
+};
+
 describe('OpenRouterProvider', () => {
   let provider: OpenRouterProvider;
   const mockRequestUrl = vi.mocked(requestUrl);
@@ -77,6 +88,7 @@ describe('OpenRouterProvider', () => {
           'X-Title': 'Daily Kastenator',
         },
         body: expect.stringContaining('Test prompt'),
+        throw: false,
       });
     });
 
@@ -158,6 +170,86 @@ describe('OpenRouterProvider', () => {
         { role: 'user', content: 'Hello world' },
       ]);
     });
+
+    it('asks for usage accounting and reports the cost', async () => {
+      mockRequestUrl.mockResolvedValueOnce({
+        status: 200,
+        json: {
+          choices: [{ message: { content: 'OK' } }],
+          usage: { prompt_tokens: 200, completion_tokens: 50, cost: 0.0021 },
+        },
+      } as any);
+      const onUsage = vi.fn();
+
+      await provider.complete('Hello', onUsage);
+
+      const body = JSON.parse(mockRequestUrl.mock.calls[0][0].body);
+      expect(body.usage).toEqual({ include: true });
+      expect(onUsage).toHaveBeenCalledWith({
+        model: 'anthropic/claude-sonnet-4',
+        inputTokens: 200,
+        outputTokens: 50,
+        cost: 0.0021,
+      });
+    });
+  });
+
+  describe('stream', () => {
+    const chunk = (content: string) =>
+      `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`;
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('streams content deltas until [DONE]', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        streamResponse([': OPENROUTER PROCESSING\n\n', chunk('Hel'), chunk('lo'), 'data: [DONE]\n\n'])
+      );
+      vi.stubGlobal('fetch', fetchMock);
+      const tokens: string[] = [];
+
+      const text = await provider.stream('Prompt', (token) => tokens.push(token));
+
+      expect(text).toBe('Hello');
+      expect(tokens).toEqual(['Hel', 'lo']);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+    });
+
+    it('throws API errors from a failed response', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(
+          new Response(JSON.stringify({ error: { message: 'No credits' } }), { status: 402 })
+        )
+      );
+
+      await expect(provider.stream('Prompt', () => {})).rejects.toThrow('No credits');
+    });
+
+    it('throws when the stream carries no content', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(streamResponse(['data: [DONE]\n\n'])));
+
+      await expect(provider.stream('Prompt', () => {})).rejects.toThrow('No content');
+    });
+
+    it('reports usage from the final chunk', async () => {
+      const usage = `data: ${JSON.stringify({
+        choices: [],
+        usage: { prompt_tokens: 10, completion_tokens: 2, cost: 0.0001 },
+      })}\n\n`;
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(streamResponse([chunk('Hi'), usage, 'data: [DONE]\n\n']))
+      );
+      const onUsage = vi.fn();
+
+      await provider.stream('Prompt', () => {}, undefined, onUsage);
+
+      expect(onUsage).toHaveBeenCalledWith(
+        expect.objectContaining({ inputTokens: 10, outputTokens: 2, cost: 0.0001 })
+      );
+    });
   });
 
   describe('setModel', () => {
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { estimateCost, MODEL_PRICES } from '../../../src/services/llm/pricing';
+import { CLAUDE_MODELS } from '../../../src/services/llm/claude';
+import { OPENROUTER_MODELS } from '../../../src/services/llm/openrouter';
+
+describe('estimateCost', () => {
+  it('prices input and output tokens per million', () => {
+    expect(estimateCost('claude-sonnet-4-20250514', 1_000_000, 1_000_000)).toBe(18);
+    expect(estimateCost('openai/gpt-4o-mini', 2000, 1000)).toBeCloseTo(0.0009);
+  });
+
+  it('returns null for an unknown model', () => {
+    expect(estimateCost('llama3.1', 100, 100)).toBeNull();
+  });
+
+  it('has a price for every model offered in settings', () => {
+    for (const model of [...CLAUDE_MODELS, ...OPENROUTER_MODELS]) {
+      expect(MODEL_PRICES[model.id]).toBeDefined();
+    }
+  });
+});
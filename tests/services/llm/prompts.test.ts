@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateTokens,
+  formatRelatedAtoms,
+  renderPromptTemplate,
+  stripTemplateFrontmatter,
+  truncateSource,
+  toMessages,
+  toTranscript,
+} from '../../../src/services/llm/prompts';
+
+const variables = {
+  concept: 'Concept',
+  explanation: 'Explanation',
+  evidence: 'Evidence',
+  source: 'Source',
+  related_atoms: 'None',
+};
+
+describe('renderPromptTemplate', () => {
+  it('substitutes every variable', () => {
+    const template = '{{concept}}|{{explanation}}|{{evidence}}|{{source}}|{{related_atoms}}';
+
+    expect(renderPromptTemplate(template, variables)).toBe(
+      'Concept|Explanation|Evidence|Source|None'
+    );
+  });
+
+  it('allows spaces inside the braces and repeats', () => {
+    expect(renderPromptTemplate('{{ concept }} and {{concept}}', variables)).toBe(
+      'Concept and Concept'
+    );
+  });
+
+  it('leaves unknown variables alone', () => {
+    expect(renderPromptTemplate('{{title}}', variables)).toBe('{{title}}');
+  });
+
+  it('does not expand variables inside substituted values', () => {
+    const result = renderPromptTemplate('{{source}}', { ...variables, source: '{{concept}}' });
+
+    expect(result).toBe('{{concept}}');
+  });
+});
+
+describe('stripTemplateFrontmatter', () => {
+  it('removes frontmatter and surrounding whitespace', () => {
+    expect(stripTemplateFrontmatter('---\nlang: de\n---\n\nPrompt\n')).toBe('Prompt');
+  });
+
+  it('keeps a template without frontmatter', () => {
+    expect(stripTemplateFrontmatter('Prompt')).toBe('Prompt');
+  });
+});
+
+describe('formatRelatedAtoms', () => {
+  it('links each atom', () => {
+    expect(formatRelatedAtoms(['A', 'B'])).toBe('[[A]], [[B]]');
+  });
+
+  it('says none when there are none', () => {
+    expect(formatRelatedAtoms([])).toBe('None');
+  });
+});
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('a'.repeat(400))).toBe(100);
+  });
+});
+
+describe('truncateSource', () => {
+  const paragraph = (label: string) => `${label} ${'filler '.repeat(40)}`.trim();
+
+  it('returns short sources whole', () => {
+    expect(truncateSource('Short note\n\nSecond paragraph', {}, 100)).toBe(
+      'Short note\n\nSecond paragraph'
+    );
+  });
+
+  it('keeps the note from the top without a query', () => {
+    const source = ['First', 'Second', 'Third', 'Fourth'].map(paragraph).join('\n\n');
+
+    const result = truncateSource(source, {}, 150);
+
+    expect(result.startsWith('First')).toBe(true);
+    expect(result).not.toContain('Fourth');
+    expect(result.endsWith('[…]')).toBe(true);
+  });
+
+  it('keeps the paragraphs sharing words with the query, in order', () => {
+    const source = [
+      paragraph('Opening'),
+      paragraph('Middle'),
+      'Photosynthesis converts light into chemical energy.',
+      paragraph('Closing'),
+      'Chlorophyll absorbs light for photosynthesis.',
+    ].join('\n\n');
+
+    const result = truncateSource(source, { text: 'photosynthesis light energy' }, 60);
+
+    expect(result).toBe(
+      '[…]\n\nPhotosynthesis converts light into chemical energy.\n\n[…]\n\nChlorophyll absorbs light for photosynthesis.'
+    );
+  });
+
+  it('puts the paragraph holding the evidence first', () => {
+    const source = [
+      'Memory memory memory retention.',
+      paragraph('Elsewhere'),
+      'The quoted passage is here.',
+    ].join('\n\n');
+
+    const result = truncateSource(source, { text: 'memory retention', evidence: 'quoted passage' }, 10);
+
+    expect(result).toBe('[…]\n\nThe quoted passage is here.');
+  });
+
+  it('matches words in any script', () => {
+    const source = [paragraph('Anfang'), 'Gedächtnis und Wiederholung gehören zusammen.'].join(
+      '\n\n'
+    );
+
+    const result = truncateSource(source, { text: 'Wiederholung stärkt das Gedächtnis' }, 20);
+
+    expect(result).toContain('Gedächtnis und Wiederholung');
+  });
+
+  it('cuts a single paragraph longer than the budget', () => {
+    const result = truncateSource('A'.repeat(1000), {}, 50);
+
+    expect(estimateTokens(result)).toBeLessThanOrEqual(50);
+    expect(result.endsWith('[…]')).toBe(true);
+  });
+});
+
+describe('toMessages', () => {
+  it('wraps a single prompt as a user message', () => {
+    expect(toMessages('Hello')).toEqual([{ role: 'user', content: 'Hello' }]);
+  });
+
+  it('passes a conversation through', () => {
+    const messages = [{ role: 'user' as const, content: 'Hello' }];
+    expect(toMessages(messages)).toBe(messages);
+  });
+});
+
+describe('toTranscript', () => {
+  it('keeps a single prompt as it is', () => {
+    expect(toTranscript('Hello')).toBe('Hello');
+    expect(toTranscript([{ role: 'user', content: 'Hello' }])).toBe('Hello');
+  });
+
+  it('labels each turn and ends awaiting the answer', () => {
+    expect(
+      toTranscript([
+        { role: 'user', content: 'Question' },
+        { role: 'assistant', content: 'Answer' },
+        { role: 'user', content: 'Follow-up' },
+      ])
+    ).toBe('User: Question\n\nAssistant: Answer\n\nUser: Follow-up\n\nAssistant:');
+  });
+});
@@ -80,6 +80,21 @@ describe('SmartConnectionsProvider', () => {
       expect(result).toBe('AI response');
     });
 
+    it('flattens a conversation into one transcript', async () => {
+      const mockComplete = vi.fn().mockResolvedValue('AI response');
+      (window as any).smart_env = { complete: mockComplete };
+
+      await provider.complete([
+        { role: 'user', content: 'Critique this' },
+        { role: 'assistant', content: 'Too broad' },
+        { role: 'user', content: 'It is one idea' },
+      ]);
+
+      expect(mockComplete).toHaveBeenCalledWith(
+        'User: Critique this\n\nAssistant: Too broad\n\nUser: It is one idea\n\nAssistant:'
+      );
+    });
+
     it('throws error when SC not available', async () => {
       await expect(provider.complete('Test')).rejects.toThrow(
         'Smart Connections plugin not available'
@@ -111,6 +126,28 @@ describe('SmartConnectionsProvider', () => {
     });
   });
 
+  describe('findSimilar', () => {
+    it('returns nothing when Smart Connections search is unavailable', async () => {
+      (app as any).plugins.plugins['smart-connections'] = { settings: {} };
+
+      expect(await provider.findSimilar('query')).toEqual([]);
+    });
+
+    it('returns note paths with their scores', async () => {
+      const search = vi.fn().mockResolvedValue([
+        { link: 'Atoms/Spacing.md#Heading', score: 0.9 },
+        { link: 'Atoms/Chunking.md' },
+      ]);
+      (app as any).plugins.plugins['smart-connections'] = { api: { search } };
+
+      expect(await provider.findSimilar('query')).toEqual([
+        { path: 'Atoms/Spacing.md', score: 0.9 },
+        { path: 'Atoms/Chunking.md', score: null },
+      ]);
+      expect(search).toHaveBeenCalledWith('query');
+    });
+  });
+
   describe('getModelInfo', () => {
     it('returns "Unknown" when SC not available', () => {
       expect(provider.getModelInfo()).toBe('Unknown');
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ServerSentEventParser,
+  readServerSentEvents,
+  readErrorMessage,
+  ServerSentEvent,
+} from '../../../src/services/llm/sse';
+
+const streamResponse = (chunks: string[], status = 200): Response => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { status });
+};
+
+describe('ServerSentEventParser', () => {
+  it('emits events once their blank line arrives', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push('event: delta\ndata: {"a"')).toEqual([]);
+    expect(parser.push(':1}\n\n')).toEqual([{ event: 'delta', data: '{"a":1}' }]);
+  });
+
+  it('defaults the event name and joins multi-line data', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push('data: one\ndata: two\n\n')).toEqual([
+      { event: 'message', data: 'one\ntwo' },
+    ]);
+  });
+
+  it('ignores comments and handles CRLF line endings', () => {
+    const parser = new ServerSentEventParser();
+
+    expect(parser.push(': keep-alive\r\n\r\ndata: x\r\n\r\n')).toEqual([
+      { event: 'message', data: 'x' },
+    ]);
+  });
+});
+
+describe('readServerSentEvents', () => {
+  it('reads events across chunk boundaries', async () => {
+    const events: ServerSentEvent[] = [];
+
+    await readServerSentEvents(
+      streamResponse(['data: he', 'llo\n\ndata: wor', 'ld\n\ndata: tail']),
+      (event) => events.push(event)
+    );
+
+    expect(events.map((e) => e.data)).toEqual(['hello', 'world', 'tail']);
+  });
+
+  it('stops when the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      readServerSentEvents(streamResponse(['data: x\n\n']), () => {}, controller.signal)
+    ).rejects.toThrow('Aborted');
+  });
+});
+
+describe('readErrorMessage', () => {
+  it('reads the API error message', async () => {
+    const response = new Response(JSON.stringify({ error: { message: 'Invalid key' } }), {
+      status: 401,
+    });
+
+    expect(await readErrorMessage(response, 'fallback')).toBe('Invalid key');
+  });
+
+  it('falls back when the body is not JSON', async () => {
+    expect(await readErrorMessage(new Response('oops', { status: 500 }), 'fallback')).toBe(
+      'fallback'
+    );
+  });
+});
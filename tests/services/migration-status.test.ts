@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  escapeRegExp,
+  setFrontmatterValue,
+  mergeLinks,
+  replaceInlineValue,
+  upsertInlineField,
+} from '../../src/services/migration-status';
+
+describe('escapeRegExp', () => {
+  it('escapes regex metacharacters', () => {
+    expect(new RegExp(escapeRegExp('a.b*(c)')).test('a.b*(c)')).toBe(true);
+    expect(new RegExp(escapeRegExp('a.b')).test('axb')).toBe(false);
+  });
+});
+
+describe('setFrontmatterValue', () => {
+  it('replaces a scalar value under a case-insensitive key', () => {
+    const frontmatter: Record<string, unknown> = { migration: 'Quarry', tags: ['a'] };
+
+    expect(setFrontmatterValue(frontmatter, 'Migration', 'quarry', 'in-progress')).toBe(true);
+    expect(frontmatter).toEqual({ migration: 'in-progress', tags: ['a'] });
+  });
+
+  it('replaces the matching item of a list value', () => {
+    const frontmatter: Record<string, unknown> = { Migration: ['seed', 'quarry'] };
+
+    setFrontmatterValue(frontmatter, 'Migration', 'quarry', 'atomised');
+
+    expect(frontmatter.Migration).toEqual(['seed', 'atomised']);
+  });
+
+  it('leaves other values alone', () => {
+    const frontmatter: Record<string, unknown> = { Migration: 'draft' };
+
+    expect(setFrontmatterValue(frontmatter, 'Migration', 'quarry', 'atomised')).toBe(false);
+    expect(setFrontmatterValue({}, 'Migration', 'quarry', 'atomised')).toBe(false);
+    expect(frontmatter.Migration).toBe('draft');
+  });
+});
+
+describe('mergeLinks', () => {
+  it('appends new links without duplicates', () => {
+    expect(mergeLinks(['[[A]]', '[[B]]'], ['[[B]]', '[[C]]'])).toEqual([
+      '[[A]]',
+      '[[B]]',
+      '[[C]]',
+    ]);
+  });
+
+  it('accepts a comma-separated string or nothing', () => {
+    expect(mergeLinks('[[A]], [[B]]', ['[[C]]'])).toEqual(['[[A]]', '[[B]]', '[[C]]']);
+    expect(mergeLinks(undefined, ['[[C]]'])).toEqual(['[[C]]']);
+  });
+});
+
+describe('replaceInlineValue', () => {
+  it('replaces line, bracketed and parenthesised fields', () => {
+    const content = 'Migration:: quarry\nText [Migration:: quarry] and (migration:: quarry).';
+
+    expect(replaceInlineValue(content, 'Migration', 'quarry', 'atomised')).toBe(
+      'Migration:: atomised\nText [Migration:: atomised] and (migration:: atomised).'
+    );
+  });
+
+  it('does not replace values that only start with the old value', () => {
+    const content = 'Migration:: quarry-old';
+
+    expect(replaceInlineValue(content, 'Migration', 'quarry', 'atomised')).toBe(content);
+  });
+
+  it('leaves fields whose names end with the field name alone', () => {
+    const content = 'XMigration:: quarry\nold-Migration:: quarry\nMigration:: quarry';
+
+    expect(replaceInlineValue(content, 'Migration', 'quarry', 'atomised')).toBe(
+      'XMigration:: quarry\nold-Migration:: quarry\nMigration:: atomised'
+    );
+  });
+
+  it('treats special characters in field and value literally', () => {
+    const content = 'Status (v2):: to.do\nStatus (v2):: toxdo';
+
+    expect(replaceInlineValue(content, 'Status (v2)', 'to.do', 'done')).toBe(
+      'Status (v2):: done\nStatus (v2):: toxdo'
+    );
+  });
+
+  it('handles bold keys', () => {
+    expect(replaceInlineValue('**Migration**:: quarry', 'Migration', 'quarry', 'atomised')).toBe(
+      '**Migration**:: atomised'
+    );
+  });
+});
+
+describe('upsertInlineField', () => {
+  it('inserts after the anchor field', () => {
+    const content = '# Note\nMigration:: atomised\nBody';
+
+    expect(upsertInlineField(content, 'atomised-on', '2024-01-15', 'Migration')).toBe(
+      '# Note\nMigration:: atomised\natomised-on:: 2024-01-15\nBody'
+    );
+  });
+
+  it('replaces an existing field', () => {
+    const content = 'Migration:: atomised\natomised-on:: 2023-12-01\nBody';
+
+    expect(upsertInlineField(content, 'atomised-on', '2024-01-15', 'Migration')).toBe(
+      'Migration:: atomised\natomised-on:: 2024-01-15\nBody'
+    );
+  });
+
+  it('does not take a field whose name ends with the anchor for the anchor', () => {
+    const content = 'old-Migration:: quarry\nBody\nMigration:: atomised';
+
+    expect(upsertInlineField(content, 'atomised-on', '2024-01-15', 'Migration')).toBe(
+      'old-Migration:: quarry\nBody\nMigration:: atomised\natomised-on:: 2024-01-15'
+    );
+  });
+
+  it('appends when the anchor is missing', () => {
+    expect(upsertInlineField('Body', 'atoms', '[[A]]', 'Migration')).toBe('Body\natoms:: [[A]]');
+    expect(upsertInlineField('Body\n', 'atoms', '[[A]]', 'Migration')).toBe('Body\natoms:: [[A]]\n');
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeProgress,
+  countAtomsByDay,
+  countAtomsByWeek,
+  formatDuration,
+  getAveragePhaseTimes,
+  getQuarrySizes,
+  getStreaks,
+} from '../../src/services/progress';
+import { LedgerSession } from '../../src/services/session-ledger';
+import { toDateKey } from '../../src/services/dates';
+
+// Friday 16 October 2026
+const TODAY = new Date(2026, 9, 16, 12);
+
+let nextId = 0;
+
+/** A session completed at midday on a local day, `daysAgo` before TODAY */
+const createSession = (daysAgo: number, overrides: Partial<LedgerSession> = {}): LedgerSession => {
+  const startedAt = new Date(2026, 9, 16 - daysAgo, 11, 30);
+  return {
+    id: `session-${nextId++}`,
+    deviceId: 'device-1',
+    deviceName: 'Laptop',
+    source: `Fleeting notes/Note ${nextId}.md`,
+    status: 'completed',
+    startedAt,
+    endedAt: new Date(2026, 9, 16 - daysAgo, 12),
+    date: toDateKey(startedAt),
+    atoms: ['Atoms/A.md', 'Atoms/B.md'],
+    ...overrides,
+  };
+};
+
+describe('getStreaks', () => {
+  it('counts consecutive days ending today', () => {
+    const sessions = [createSession(0), createSession(1), createSession(2), createSession(5)];
+
+    expect(getStreaks(sessions, TODAY)).toEqual({ current: 3, longest: 3 });
+  });
+
+  it('keeps the streak alive until today is over', () => {
+    const sessions = [createSession(1), createSession(2)];
+
+    expect(getStreaks(sessions, TODAY).current).toBe(2);
+  });
+
+  it('breaks the streak after a day without a session', () => {
+    const sessions = [createSession(2), createSession(3)];
+
+    expect(getStreaks(sessions, TODAY)).toEqual({ current: 0, longest: 2 });
+  });
+
+  it('counts several sessions on a day once', () => {
+    const sessions = [createSession(0), createSession(0), createSession(1)];
+
+    expect(getStreaks(sessions, TODAY).current).toBe(2);
+  });
+
+  it('ignores sessions that were not completed', () => {
+    const sessions = [
+      createSession(0, { status: 'abandoned' }),
+      createSession(1, { status: 'in-progress', endedAt: undefined }),
+    ];
+
+    expect(getStreaks(sessions, TODAY)).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('follows the calendar across month ends', () => {
+    const sessions = [30, 31, 32].map((daysAgo) => createSession(daysAgo));
+
+    expect(getStreaks(sessions, TODAY).longest).toBe(3);
+  });
+});
+
+describe('countAtomsByDay', () => {
+  it('counts atoms on each of the last days, oldest first', () => {
+    const sessions = [createSession(0), createSession(0), createSession(2)];
+
+    const counts = countAtomsByDay(sessions, TODAY, 3);
+
+    expect(counts).toEqual([
+      { date: '2026-10-14', count: 2 },
+      { date: '2026-10-15', count: 0 },
+      { date: '2026-10-16', count: 4 },
+    ]);
+  });
+
+  it('counts atoms on the day they were created', () => {
+    const sessions = [
+      createSession(1, { endedAt: new Date(2026, 9, 16, 0, 15) }),
+    ];
+
+    expect(countAtomsByDay(sessions, TODAY, 2)).toEqual([
+      { date: '2026-10-15', count: 0 },
+      { date: '2026-10-16', count: 2 },
+    ]);
+  });
+
+  it('leaves out older days and unfinished sessions', () => {
+    const sessions = [createSession(5), createSession(0, { status: 'abandoned' })];
+
+    expect(countAtomsByDay(sessions, TODAY, 2).every((day) => day.count === 0)).toBe(true);
+  });
+});
+
+describe('countAtomsByWeek', () => {
+  it('counts atoms in weeks starting on Monday', () => {
+    // Monday 12 October, Sunday 11 October
+    const sessions = [createSession(4), createSession(5)];
+
+    expect(countAtomsByWeek(sessions, TODAY, 2)).toEqual([
+      { date: '2026-10-05', count: 2 },
+      { date: '2026-10-12', count: 2 },
+    ]);
+  });
+});
+
+describe('getQuarrySizes', () => {
+  it('takes the last size recorded on each day, oldest first', () => {
+    const sessions = [
+      createSession(3, { quarrySize: 50 }),
+      createSession(1, { quarrySize: 48 }),
+      createSession(1, { quarrySize: 47 }),
+      createSession(0),
+    ];
+
+    expect(getQuarrySizes(sessions, undefined, TODAY)).toEqual([
+      { date: '2026-10-13', count: 50 },
+      { date: '2026-10-15', count: 47 },
+    ]);
+  });
+
+  it("ends with today's size when given", () => {
+    const sessions = [createSession(1, { quarrySize: 48 })];
+
+    expect(getQuarrySizes(sessions, 45, TODAY)).toEqual([
+      { date: '2026-10-15', count: 48 },
+      { date: '2026-10-16', count: 45 },
+    ]);
+  });
+});
+
+describe('getAveragePhaseTimes', () => {
+  it('averages the time per phase over timed sessions', () => {
+    const sessions = [
+      createSession(0, { phaseTimes: { introduction: 60000, explanation: 300000 } }),
+      createSession(1, { phaseTimes: { introduction: 120000 } }),
+      createSession(2),
+    ];
+
+    expect(getAveragePhaseTimes(sessions)).toEqual({
+      introduction: 90000,
+      explanation: 150000,
+    });
+  });
+
+  it('is empty without timed sessions', () => {
+    expect(getAveragePhaseTimes([createSession(0)])).toEqual({});
+  });
+});
+
+describe('computeProgress', () => {
+  it('totals sessions and atoms', () => {
+    const shared = 'Fleeting notes/Shared.md';
+    const sessions = [
+      createSession(0, { source: shared }),
+      createSession(1, { source: shared, atoms: ['Atoms/C.md'] }),
+      createSession(2, { atoms: ['Atoms/D.md'] }),
+      createSession(3, { status: 'abandoned', atoms: [] }),
+      createSession(0, { status: 'in-progress', endedAt: undefined, atoms: [] }),
+    ];
+
+    const stats = computeProgress(sessions, 30, TODAY);
+
+    expect(stats.completedSessions).toBe(3);
+    expect(stats.abandonedSessions).toBe(1);
+    expect(stats.totalAtoms).toBe(4);
+    expect(stats.averageAtomsPerSource).toBe(2);
+    expect(stats.completionRate).toBe(0.75);
+    expect(stats.streaks.current).toBe(3);
+    expect(stats.quarrySizes).toEqual([{ date: '2026-10-16', count: 30 }]);
+  });
+
+  it('has no completion rate before any session has finished', () => {
+    const stats = computeProgress([], undefined, TODAY);
+
+    expect(stats.completionRate).toBeNull();
+    expect(stats.averageAtomsPerSource).toBe(0);
+    expect(stats.atomsPerDay).toHaveLength(14);
+    expect(stats.atomsPerWeek).toHaveLength(8);
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats seconds, minutes and hours', () => {
+    expect(formatDuration(40 * 1000)).toBe('40s');
+    expect(formatDuration(12 * 60 * 1000)).toBe('12m');
+    expect(formatDuration(65 * 60 * 1000)).toBe('1h 5m');
+  });
+});
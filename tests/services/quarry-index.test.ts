@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { QuarryIndex } from '../../src/services/quarry-index';
+import { App, TFile } from '../mocks/obsidian';
+import { KastenatorSettings } from '../../src/types';
+
+const createDefaultSettings = (): KastenatorSettings => ({
+  notificationHour: 9,
+  notificationMinute: 0,
+  quarryFolders: ['Fleeting notes'],
+  migrationField: 'Migration',
+  quarryValue: 'quarry',
+  selectionWeights: { age: 0, staleness: 0, length: 0, backlinks: 0, skips: 0 },
+  skipCounts: {},
+  atomFolder: 'Atoms',
+  atomTemplatePath: '',
+  lastNotificationDate: '',
+  notificationEnabled: true,
+  savedSession: null,
+  reviewCards: [],
+  llmProvider: 'none',
+  useLLMCritique: false,
+});
+
+const addQuarryNote = (app: App, path: string, content = 'Migration:: quarry'): void => {
+  app.vault._setFile(path, content);
+  app.metadataCache._setCache(path, {});
+};
+
+describe('QuarryIndex', () => {
+  let app: App;
+  let settings: KastenatorSettings;
+  let index: QuarryIndex;
+
+  beforeEach(() => {
+    app = new App();
+    settings = createDefaultSettings();
+    index = new QuarryIndex(app as any, settings);
+  });
+
+  it('builds lazily on first query', async () => {
+    addQuarryNote(app, 'Fleeting notes/a.md');
+
+    expect((await index.getFiles()).map((f) => f.path)).toEqual(['Fleeting notes/a.md']);
+  });
+
+  it('reads each file once across repeated queries', async () => {
+    addQuarryNote(app, 'Fleeting notes/a.md');
+    const readSpy = vi.spyOn(app.vault, 'cachedRead');
+
+    await index.getFiles();
+    await index.getFiles();
+    await index.has('Fleeting notes/a.md');
+
+    expect(readSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('only re-reads dirty files', async () => {
+    addQuarryNote(app, 'Fleeting notes/a.md');
+    addQuarryNote(app, 'Fleeting notes/b.md');
+    await index.getFiles();
+    const readSpy = vi.spyOn(app.vault, 'cachedRead');
+
+    index.markDirty('Fleeting notes/a.md');
+    await index.getFiles();
+
+    expect(readSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('adds and removes dirty files based on their new status', async () => {
+    addQuarryNote(app, 'Fleeting notes/a.md');
+    await index.getFiles();
+
+    addQuarryNote(app, 'Fleeting notes/a.md', 'Migration:: atomised');
+    addQuarryNote(app, 'Fleeting notes/b.md');
+    index.markDirty('Fleeting notes/a.md');
+    index.markDirty('Fleeting notes/b.md');
+
+    expect((await index.getFiles()).map((f) => f.path)).toEqual(['Fleeting notes/b.md']);
+  });
+
+  it('drops files that no longer exist when re-evaluated', async () => {
+    addQuarryNote(app, 'Fleeting notes/a.md');
+    await index.getFiles();
+
+    app.vault._clear();
+    index.markDirty('Fleeting notes/a.md');
+
+    expect(await index.getFiles()).toEqual([]);
+  });
+
+  it('handles renames into the quarry', async () => {
+    await index.getFiles();
+    addQuarryNote(app, 'Fleeting notes/moved.md');
+
+    index.handleRename(new TFile('Fleeting notes/moved.md') as any, 'Inbox/moved.md');
+
+    expect(await index.has('Fleeting notes/moved.md')).toBe(true);
+  });
+
+  it('handles deletes', async () => {
+    addQuarryNote(app, 'Fleeting notes/a.md');
+    await index.getFiles();
+
+    index.handleDelete('Fleeting notes/a.md');
+
+    expect(await index.has('Fleeting notes/a.md')).toBe(false);
+  });
+
+  it('uses Dataview when it has indexed the page', async () => {
+    app.vault._setFile('Fleeting notes/a.md', 'No inline field');
+    app.metadataCache._setCache('Fleeting notes/a.md', {});
+    app.plugins.plugins.dataview = {
+      api: { page: (path: string) => ({ file: { path }, migration: 'quarry' }) },
+    };
+
+    expect(await index.has('Fleeting notes/a.md')).toBe(true);
+  });
+
+  it('rebuilds when quarry criteria change', async () => {
+    addQuarryNote(app, 'Fleeting notes/a.md', 'Status:: pending');
+    expect(await index.getFiles()).toHaveLength(0);
+
+    index.updateSettings({ ...settings, migrationField: 'Status', quarryValue: 'pending' });
+
+    expect(await index.getFiles()).toHaveLength(1);
+  });
+
+  it('restarts a build when the criteria change mid-scan', async () => {
+    addQuarryNote(app, 'Fleeting notes/a.md', 'Status:: pending');
+    addQuarryNote(app, 'Fleeting notes/b.md', 'Status:: pending');
+    const read = app.vault.cachedRead.bind(app.vault);
+    let changed = false;
+    vi.spyOn(app.vault, 'cachedRead').mockImplementation(async (file) => {
+      if (!changed) {
+        changed = true;
+        index.updateSettings({ ...settings, migrationField: 'Status', quarryValue: 'pending' });
+      }
+      return read(file);
+    });
+
+    const files = await index.getFiles();
+
+    expect(files.map((f) => f.path).sort()).toEqual([
+      'Fleeting notes/a.md',
+      'Fleeting notes/b.md',
+    ]);
+  });
+
+  it('does not rebuild for unrelated settings changes', async () => {
+    addQuarryNote(app, 'Fleeting notes/a.md');
+    await index.getFiles();
+    const readSpy = vi.spyOn(app.vault, 'cachedRead');
+
+    index.updateSettings({ ...settings, atomFolder: 'Elsewhere' });
+    await index.getFiles();
+
+    expect(readSpy).not.toHaveBeenCalled();
+  });
+
+  it('shares a single build between concurrent queries', async () => {
+    addQuarryNote(app, 'Fleeting notes/a.md');
+    const readSpy = vi.spyOn(app.vault, 'cachedRead');
+
+    await Promise.all([index.getFiles(), index.getFiles()]);
+
+    expect(readSpy).toHaveBeenCalledTimes(1);
+  });
+});
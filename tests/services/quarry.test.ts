@@ -1,7 +1,9 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { QuarryService } from '../../src/services/quarry';
-import { App, TFile, Vault, MetadataCache } from '../mocks/obsidian';
+import { App, Plugin, TFile, Vault, MetadataCache } from '../mocks/obsidian';
 import { KastenatorSettings } from '../../src/types';
+import { DEFAULT_SELECTION_WEIGHTS } from '../../src/services/selection';
+import { DEFAULT_MIGRATION_LIFECYCLE } from '../../src/services/lifecycle';
 
 const createDefaultSettings = (): KastenatorSettings => ({
   notificationHour: 9,
@@ -9,6 +11,14 @@ const createDefaultSettings = (): KastenatorSettings => ({
   quarryFolders: ['Fleeting notes', 'Source notes'],
   migrationField: 'Migration',
   quarryValue: 'quarry',
+  migrationLifecycle: {
+    transitions: { ...DEFAULT_MIGRATION_LIFECYCLE.transitions },
+    events: { ...DEFAULT_MIGRATION_LIFECYCLE.events },
+  },
+  sourceAtomLinks: 'properties',
+  linkEvidenceBlocks: false,
+  selectionWeights: { ...DEFAULT_SELECTION_WEIGHTS },
+  skipCounts: {},
   atomFolder: 'Atoms',
   atomTemplatePath: '',
   lastNotificationDate: '',
@@ -116,6 +126,49 @@ describe('QuarryService', () => {
       expect(notes).toHaveLength(1);
     });
 
+    it('finds notes with an inline quarry field', async () => {
+      app.vault._setFile('Fleeting notes/note1.md', '# Note\n\nMigration:: quarry\n\nContent');
+      app.metadataCache._setCache('Fleeting notes/note1.md', {});
+
+      const notes = await service.getAllQuarryNotes();
+
+      expect(notes).toHaveLength(1);
+      expect(notes[0].title).toBe('note1');
+    });
+
+    it('finds notes with bracketed and parenthesised inline fields', async () => {
+      app.vault._setFile('Fleeting notes/bracketed.md', 'Text [migration:: quarry] text');
+      app.vault._setFile('Fleeting notes/parens.md', 'Text (Migration:: quarry) text');
+      app.metadataCache._setCache('Fleeting notes/bracketed.md', {});
+      app.metadataCache._setCache('Fleeting notes/parens.md', {});
+
+      const notes = await service.getAllQuarryNotes();
+
+      expect(notes.map((n) => n.title).sort()).toEqual(['bracketed', 'parens']);
+    });
+
+    it('finds notes whose inline field holds a list including quarry', async () => {
+      app.vault._setFile('Fleeting notes/note1.md', 'Migration:: draft, quarry');
+      app.metadataCache._setCache('Fleeting notes/note1.md', {});
+
+      const notes = await service.getAllQuarryNotes();
+
+      expect(notes).toHaveLength(1);
+    });
+
+    it('keeps results until a change is reported for the file', async () => {
+      app.vault._setFile('Fleeting notes/note1.md', 'Migration:: quarry');
+      app.metadataCache._setCache('Fleeting notes/note1.md', {});
+      await service.getAllQuarryNotes();
+
+      // No event yet: the index still holds the note
+      app.vault._setFile('Fleeting notes/note1.md', 'Migration:: atomised');
+      expect(await service.getAllQuarryNotes()).toHaveLength(1);
+
+      service.invalidate('Fleeting notes/note1.md');
+      expect(await service.getAllQuarryNotes()).toHaveLength(0);
+    });
+
     it('handles files with no metadata cache gracefully', async () => {
       app.vault._setFile('Fleeting notes/note1.md', '# Note');
       // No cache set
@@ -143,6 +196,21 @@ describe('QuarryService', () => {
       expect(note?.title).toBe('note1');
     });
 
+    it('leaves out excluded notes', async () => {
+      for (const path of ['Fleeting notes/offered.md', 'Fleeting notes/other.md']) {
+        app.vault._setFile(path, '# Note');
+        app.metadataCache._setCache(path, { frontmatter: { Migration: 'quarry' } });
+      }
+
+      for (let i = 0; i < 10; i++) {
+        const note = await service.getRandomQuarryNote(['Fleeting notes/offered.md']);
+        expect(note?.title).toBe('other');
+      }
+      expect(
+        await service.getRandomQuarryNote(['Fleeting notes/offered.md', 'Fleeting notes/other.md'])
+      ).toBeNull();
+    });
+
     it('returns different notes over multiple calls (randomness)', async () => {
       // Set up multiple notes
       for (let i = 1; i <= 10; i++) {
@@ -163,6 +231,26 @@ describe('QuarryService', () => {
       // (statistically unlikely to get the same note every time)
       expect(results.size).toBeGreaterThan(1);
     });
+
+    it('favours long notes when only the length strategy is weighted', async () => {
+      settings.selectionWeights = { age: 0, staleness: 0, length: 10, backlinks: 0, skips: 0 };
+      service.updateSettings(settings);
+
+      app.vault._setFile('Fleeting notes/stub.md', 'x');
+      app.vault._setFile('Fleeting notes/source.md', 'x'.repeat(5000));
+      for (const path of ['Fleeting notes/stub.md', 'Fleeting notes/source.md']) {
+        app.metadataCache._setCache(path, { frontmatter: { Migration: 'quarry' } });
+      }
+
+      let sourceCount = 0;
+      for (let i = 0; i < 100; i++) {
+        const note = await service.getRandomQuarryNote();
+        if (note?.title === 'source') sourceCount++;
+      }
+
+      // Expected share is 11/12 for the long note
+      expect(sourceCount).toBeGreaterThan(70);
+    });
   });
 
   describe('isQuarryNote', () => {
@@ -239,6 +327,241 @@ describe('QuarryService', () => {
       const modifiedContent = await app.vault.read(file as any);
       expect(modifiedContent).toBe('# Note\n\nStatus:: atomised');
     });
+
+    it('updates frontmatter status so the note leaves the quarry', async () => {
+      const path = 'Fleeting notes/note1.md';
+      app.vault._setFile(path, '---\nmigration: quarry\n---\nContent');
+      app.metadataCache._setCache(path, { frontmatter: { migration: 'quarry' } });
+      expect(await service.getQuarryFiles()).toHaveLength(1);
+
+      const updated = await service.markAsAtomised(new TFile(path) as any);
+
+      expect(updated).toBe(true);
+      expect(app.metadataCache.getFileCache(new TFile(path) as any)?.frontmatter).toEqual({
+        migration: 'atomised',
+      });
+      expect(await service.getQuarryFiles()).toHaveLength(0);
+    });
+
+    it('escapes regex characters in the configured field and value', async () => {
+      settings.migrationField = 'Status.v2';
+      settings.quarryValue = 'to.do';
+      service.updateSettings(settings);
+
+      const originalContent = 'Status.v2:: to.do\nStatus.v2:: toxdo';
+      app.vault._setFile('Fleeting notes/note1.md', originalContent);
+
+      const file = new TFile('Fleeting notes/note1.md');
+      await service.markAsAtomised(file as any);
+
+      expect(await app.vault.read(file as any)).toBe(
+        'Status.v2:: atomised\nStatus.v2:: toxdo'
+      );
+    });
+
+    it('stamps date and atom links in frontmatter', async () => {
+      const path = 'Fleeting notes/note1.md';
+      app.vault._setFile(path, '---\nMigration: quarry\n---\nContent');
+      app.metadataCache._setCache(path, {
+        frontmatter: { Migration: 'quarry', atoms: ['[[Earlier]]'] },
+      });
+
+      await service.markAsAtomised(new TFile(path) as any, [
+        new TFile('Atoms/First.md') as any,
+        new TFile('Atoms/Earlier.md') as any,
+      ]);
+
+      const frontmatter = app.metadataCache.getFileCache(new TFile(path) as any)?.frontmatter;
+      expect(frontmatter?.['atomised-on']).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect(frontmatter?.atoms).toEqual(['[[Earlier]]', '[[First]]']);
+    });
+
+    it('stamps date and atom links as inline fields', async () => {
+      const path = 'Fleeting notes/note1.md';
+      app.vault._setFile(path, '# Note\n\nMigration:: quarry\n\nContent');
+
+      await service.recordAtoms(
+        new TFile(path) as any,
+        [new TFile('Atoms/First.md') as any, new TFile('Atoms/Second.md') as any],
+        {},
+        new Date(2024, 0, 15, 12)
+      );
+
+      expect(await app.vault.read(new TFile(path) as any)).toBe(
+        '# Note\n\nMigration:: quarry\natomised-on:: 2024-01-15\natoms:: [[First]], [[Second]]\n\nContent'
+      );
+    });
+
+    it('does not stamp when no atoms were created', async () => {
+      const path = 'Fleeting notes/note1.md';
+      app.vault._setFile(path, 'Migration:: quarry');
+
+      await service.markAsAtomised(new TFile(path) as any);
+
+      expect(await app.vault.read(new TFile(path) as any)).toBe('Migration:: atomised');
+      expect(app.fileManager.processFrontMatter).not.toHaveBeenCalled();
+    });
+
+    it('lists atoms in an Atoms section when configured', async () => {
+      settings.sourceAtomLinks = 'section';
+      const path = 'Fleeting notes/note1.md';
+      app.vault._setFile(path, 'Migration:: quarry\n\nContent');
+
+      await service.recordAtoms(
+        new TFile(path) as any,
+        [new TFile('Atoms/First.md') as any],
+        {},
+        new Date(2024, 0, 15, 12)
+      );
+
+      expect(await app.vault.read(new TFile(path) as any)).toBe(
+        'Migration:: quarry\natomised-on:: 2024-01-15\n\nContent\n\n## Atoms\n\n- [[First]]\n'
+      );
+    });
+
+    it('links Atoms entries to their evidence passages', async () => {
+      settings.sourceAtomLinks = 'section';
+      settings.linkEvidenceBlocks = true;
+      const path = 'Fleeting notes/note1.md';
+      app.vault._setFile(path, 'Migration:: quarry\n\nA claim worth keeping.\n\nOther text.');
+
+      await service.recordAtoms(
+        new TFile(path) as any,
+        [new TFile('Atoms/First.md') as any, new TFile('Atoms/Second.md') as any],
+        { 'Atoms/First.md': 'claim worth keeping', 'Atoms/Second.md': 'missing passage' }
+      );
+
+      const content = await app.vault.read(new TFile(path) as any);
+      const blockId = content.match(/keeping\. \^([a-z0-9]{6})\n/)?.[1];
+      expect(blockId).toBeDefined();
+      expect(content).toContain(`- [[First]] ([[#^${blockId}|evidence]])\n- [[Second]]\n`);
+    });
+  });
+
+  describe('migration lifecycle', () => {
+    const path = 'Fleeting notes/note1.md';
+
+    it('reads inline status', async () => {
+      app.vault._setFile(path, 'Migration:: quarry');
+
+      const status = await service.getMigrationStatus(new TFile(path) as any);
+
+      expect(status).toEqual({ value: 'quarry', location: 'inline' });
+    });
+
+    it('reads frontmatter status in preference to inline', async () => {
+      app.vault._setFile(path, '---\nMigration: quarry\n---\nMigration:: draft');
+      app.metadataCache._setCache(path, { frontmatter: { Migration: 'quarry' } });
+
+      const status = await service.getMigrationStatus(new TFile(path) as any);
+
+      expect(status).toEqual({ value: 'quarry', location: 'frontmatter' });
+    });
+
+    it('returns null when the note has no migration field', async () => {
+      app.vault._setFile(path, '# Note');
+
+      expect(await service.getMigrationStatus(new TFile(path) as any)).toBeNull();
+    });
+
+    it('sets in-progress on session start', async () => {
+      app.vault._setFile(path, 'Migration:: quarry');
+
+      const updated = await service.applyLifecycleEvent(new TFile(path) as any, 'start');
+
+      expect(updated).toBe(true);
+      expect(await app.vault.read(new TFile(path) as any)).toBe('Migration:: in-progress');
+    });
+
+    it('writes frontmatter statuses through processFrontMatter', async () => {
+      app.vault._setFile(path, '---\nMigration: in-progress\n---\nBody');
+      app.metadataCache._setCache(path, { frontmatter: { Migration: 'in-progress' } });
+
+      await service.applyLifecycleEvent(new TFile(path) as any, 'partial');
+
+      expect(app.fileManager.processFrontMatter).toHaveBeenCalled();
+      expect(app.metadataCache.getFileCache(new TFile(path) as any)?.frontmatter).toEqual({
+        Migration: 'partially-atomised',
+      });
+      expect(await app.vault.read(new TFile(path) as any)).toBe(
+        '---\nMigration: in-progress\n---\nBody'
+      );
+    });
+
+    it('refuses transitions the lifecycle does not allow', async () => {
+      app.vault._setFile(path, 'Migration:: atomised');
+
+      const updated = await service.setMigrationStatus(new TFile(path) as any, 'quarry');
+
+      expect(updated).toBe(false);
+      expect(await app.vault.read(new TFile(path) as any)).toBe('Migration:: atomised');
+    });
+
+    it('skips events configured to leave the note unchanged', async () => {
+      settings.migrationLifecycle.events.start = '';
+      app.vault._setFile(path, 'Migration:: quarry');
+
+      expect(await service.applyLifecycleEvent(new TFile(path) as any, 'start')).toBe(false);
+    });
+
+    it('removes the note from the quarry after it starts', async () => {
+      app.vault._setFile(path, 'Migration:: quarry');
+      app.metadataCache._setCache(path, {});
+      expect(await service.getQuarryFiles()).toHaveLength(1);
+
+      await service.applyLifecycleEvent(new TFile(path) as any, 'start');
+
+      expect(await service.getQuarryFiles()).toHaveLength(0);
+    });
+  });
+
+  describe('registerEvents', () => {
+    let plugin: Plugin;
+
+    beforeEach(() => {
+      plugin = new Plugin();
+      plugin.app = app;
+      app.vault._setFile('Fleeting notes/note1.md', 'Migration:: quarry');
+      app.metadataCache._setCache('Fleeting notes/note1.md', {});
+      service.registerEvents(plugin as any);
+    });
+
+    it('builds the index when the layout is ready', () => {
+      expect(app.workspace.onLayoutReady).toHaveBeenCalled();
+      expect(plugin.registerEvent).toHaveBeenCalled();
+    });
+
+    it('adds notes on create', async () => {
+      app.vault._setFile('Fleeting notes/note2.md', 'Migration:: quarry');
+      app.metadataCache._setCache('Fleeting notes/note2.md', {});
+      app.vault.trigger('create', new TFile('Fleeting notes/note2.md'));
+
+      expect(await service.getQuarryFiles()).toHaveLength(2);
+    });
+
+    it('drops notes when metadata changes to another status', async () => {
+      await service.getQuarryFiles();
+      app.vault._setFile('Fleeting notes/note1.md', 'Migration:: atomised');
+      app.metadataCache.trigger('changed', new TFile('Fleeting notes/note1.md'));
+
+      expect(await service.getQuarryFiles()).toHaveLength(0);
+    });
+
+    it('drops notes on delete', async () => {
+      await service.getQuarryFiles();
+      app.vault.trigger('delete', new TFile('Fleeting notes/note1.md'));
+
+      expect(await service.getQuarryFiles()).toHaveLength(0);
+    });
+
+    it('follows renames out of the quarry folders', async () => {
+      await service.getQuarryFiles();
+      app.vault._setFile('Archive/note1.md', 'Migration:: quarry');
+      app.metadataCache._setCache('Archive/note1.md', {});
+      app.vault.trigger('rename', new TFile('Archive/note1.md'), 'Fleeting notes/note1.md');
+
+      expect(await service.getQuarryFiles()).toHaveLength(0);
+    });
   });
 
   describe('updateSettings', () => {
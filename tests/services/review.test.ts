@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ReviewService, scheduleReview } from '../../src/services/review';
+import { TFile } from '../mocks/obsidian';
+import { KastenatorSettings, AtomCandidate, ReviewCard } from '../../src/types';
+
+const createDefaultSettings = (): KastenatorSettings => ({
+  notificationHour: 9,
+  notificationMinute: 0,
+  quarryFolders: ['Fleeting notes'],
+  migrationField: 'Migration',
+  quarryValue: 'quarry',
+  selectionWeights: { age: 0, staleness: 0, length: 0, backlinks: 0, skips: 0 },
+  skipCounts: {},
+  atomFolder: 'Atoms',
+  atomTemplatePath: '',
+  lastNotificationDate: '',
+  notificationEnabled: true,
+  savedSession: null,
+  reviewCards: [],
+  llmProvider: 'none',
+  useLLMCritique: false,
+});
+
+const createCandidate = (overrides: Partial<AtomCandidate> = {}): AtomCandidate => ({
+  id: 'atom-1',
+  concept: 'Spacing effect',
+  explanation: 'Reviews spread over time improve retention.',
+  evidence: '',
+  suggestedTitle: 'Spacing effect',
+  tags: [],
+  relatedAtoms: [],
+  critique: '',
+  approved: true,
+  ...overrides,
+});
+
+const createCard = (overrides: Partial<ReviewCard> = {}): ReviewCard => ({
+  atomPath: 'Atoms/Spacing effect.md',
+  title: 'Spacing effect',
+  explanation: 'Reviews spread over time improve retention.',
+  ease: 2.5,
+  interval: 0,
+  repetitions: 0,
+  due: '2024-03-02',
+  ...overrides,
+});
+
+// Local noon avoids any ambiguity around midnight
+const day = (dateKey: string): Date => new Date(`${dateKey}T12:00:00`);
+
+describe('scheduleReview', () => {
+  it('schedules the first successful review one day out', () => {
+    const card = scheduleReview(createCard(), 'good', day('2024-03-02'));
+
+    expect(card.interval).toBe(1);
+    expect(card.repetitions).toBe(1);
+    expect(card.due).toBe('2024-03-03');
+    expect(card.lastReviewed).toBe('2024-03-02');
+  });
+
+  it('schedules the second successful review six days out', () => {
+    const card = scheduleReview(
+      createCard({ repetitions: 1, interval: 1 }),
+      'good',
+      day('2024-03-03')
+    );
+
+    expect(card.interval).toBe(6);
+    expect(card.due).toBe('2024-03-09');
+  });
+
+  it('multiplies the interval by ease after two successes', () => {
+    const card = scheduleReview(
+      createCard({ repetitions: 2, interval: 6, ease: 2.5 }),
+      'good',
+      day('2024-03-09')
+    );
+
+    expect(card.interval).toBe(15);
+    expect(card.due).toBe('2024-03-24');
+  });
+
+  it('resets repetitions and lowers ease on "again"', () => {
+    const card = scheduleReview(
+      createCard({ repetitions: 4, interval: 30, ease: 2.5 }),
+      'again',
+      day('2024-03-09')
+    );
+
+    expect(card.repetitions).toBe(0);
+    expect(card.interval).toBe(1);
+    expect(card.ease).toBeCloseTo(1.96);
+  });
+
+  it('raises ease on "easy"', () => {
+    const card = scheduleReview(createCard(), 'easy', day('2024-03-02'));
+
+    expect(card.ease).toBeCloseTo(2.6);
+  });
+
+  it('never drops ease below 1.3', () => {
+    const card = scheduleReview(createCard({ ease: 1.3 }), 'again', day('2024-03-02'));
+
+    expect(card.ease).toBe(1.3);
+  });
+});
+
+describe('ReviewService', () => {
+  let settings: KastenatorSettings;
+  let persist: ReturnType<typeof vi.fn>;
+  let service: ReviewService;
+
+  beforeEach(() => {
+    settings = createDefaultSettings();
+    persist = vi.fn().mockResolvedValue(undefined);
+    service = new ReviewService(settings, persist);
+  });
+
+  it('adds a card due the day after creation', async () => {
+    const file = new TFile('Atoms/Spacing effect.md');
+
+    const card = await service.addAtom(file as any, createCandidate(), day('2024-03-01'));
+
+    expect(card.due).toBe('2024-03-02');
+    expect(card.explanation).toBe('Reviews spread over time improve retention.');
+    expect(settings.reviewCards).toHaveLength(1);
+    expect(persist).toHaveBeenCalled();
+  });
+
+  it('replaces the card when an atom path is added twice', async () => {
+    const file = new TFile('Atoms/Spacing effect.md');
+
+    await service.addAtom(file as any, createCandidate(), day('2024-03-01'));
+    await service.addAtom(file as any, createCandidate({ explanation: 'New' }), day('2024-03-01'));
+
+    expect(settings.reviewCards).toHaveLength(1);
+    expect(settings.reviewCards[0].explanation).toBe('New');
+  });
+
+  it('returns only due cards, oldest first', () => {
+    settings.reviewCards = [
+      createCard({ atomPath: 'a.md', due: '2024-03-05' }),
+      createCard({ atomPath: 'b.md', due: '2024-03-01' }),
+      createCard({ atomPath: 'c.md', due: '2024-03-10' }),
+    ];
+
+    const due = service.getDueCards(day('2024-03-05'));
+
+    expect(due.map((c) => c.atomPath)).toEqual(['b.md', 'a.md']);
+    expect(service.getDueCount(day('2024-03-05'))).toBe(2);
+  });
+
+  it('grades a card and reschedules it', async () => {
+    settings.reviewCards = [createCard()];
+
+    const updated = await service.grade('Atoms/Spacing effect.md', 'good', day('2024-03-02'));
+
+    expect(updated?.due).toBe('2024-03-03');
+    expect(service.getDueCount(day('2024-03-02'))).toBe(0);
+  });
+
+  it('returns null when grading an unknown atom', async () => {
+    expect(await service.grade('missing.md', 'good')).toBeNull();
+  });
+
+  it('follows renamed atoms', async () => {
+    settings.reviewCards = [createCard()];
+
+    await service.renameAtom('Atoms/Spacing effect.md', 'Atoms/Spacing.md', 'Spacing');
+
+    expect(settings.reviewCards[0].atomPath).toBe('Atoms/Spacing.md');
+    expect(settings.reviewCards[0].title).toBe('Spacing');
+  });
+
+  it('removes deleted atoms', async () => {
+    settings.reviewCards = [createCard()];
+
+    await service.removeAtom('Atoms/Spacing effect.md');
+
+    expect(settings.reviewCards).toEqual([]);
+  });
+
+  it('ignores renames and deletes of untracked files', async () => {
+    await service.renameAtom('Other.md', 'Moved.md', 'Moved');
+    await service.removeAtom('Other.md');
+
+    expect(persist).not.toHaveBeenCalled();
+  });
+});
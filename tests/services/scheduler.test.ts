@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { NotificationScheduler } from '../../src/services/scheduler';
+import {
+  NotificationScheduler,
+  getNotificationSlots,
+  isQuietTime,
+} from '../../src/services/scheduler';
+import { toDateKey } from '../../src/services/dates';
 import { Plugin } from '../mocks/obsidian';
 import { KastenatorSettings } from '../../src/types';
 
@@ -15,6 +20,10 @@ const createDefaultSettings = (): KastenatorSettings => ({
   notificationEnabled: true,
 });
 
+/** A ledger stand-in reporting completed sessions per day */
+const createLedger = (completed: Record<string, number>) =>
+  ({ countCompleted: (date: string) => completed[date] ?? 0 }) as any;
+
 describe('NotificationScheduler', () => {
   let plugin: Plugin;
   let settings: KastenatorSettings;
@@ -110,6 +119,19 @@ describe('NotificationScheduler', () => {
       expect(onNotification).toHaveBeenCalled();
     });
 
+    it('passes the slot being notified for', () => {
+      const now = new Date();
+      now.setHours(8, 55, 0, 0);
+      vi.setSystemTime(now);
+      scheduler.start();
+
+      vi.advanceTimersByTime(5 * 60 * 1000);
+
+      const slot = new Date(now);
+      slot.setHours(9, 0, 0, 0);
+      expect(onNotification).toHaveBeenCalledWith(slot);
+    });
+
     it('does not fire before scheduled time', () => {
       const now = new Date();
       now.setHours(8, 0, 0, 0);
@@ -149,7 +171,7 @@ describe('NotificationScheduler', () => {
       now.setHours(8, 55, 0, 0);
       vi.setSystemTime(now);
 
-      settings.lastNotificationDate = now.toISOString().split('T')[0];
+      settings.lastNotificationDate = toDateKey(now);
       scheduler.start();
 
       vi.advanceTimersByTime(10 * 60 * 1000);
@@ -190,6 +212,412 @@ describe('NotificationScheduler', () => {
     });
   });
 
+  describe('slots', () => {
+    it('fires at each slot of the day', () => {
+      const now = new Date();
+      now.setHours(8, 0, 0, 0);
+      vi.setSystemTime(now);
+      settings.notificationSlots = [
+        { hour: 18, minute: 30 },
+        { hour: 9, minute: 0 },
+      ];
+      scheduler.start();
+
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(9.5 * 60 * 60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports the earliest upcoming slot', () => {
+      const now = new Date();
+      now.setHours(10, 0, 0, 0);
+      vi.setSystemTime(now);
+      settings.notificationSlots = [
+        { hour: 9, minute: 0 },
+        { hour: 18, minute: 30 },
+      ];
+
+      expect(scheduler.getNextSlot()?.getHours()).toBe(18);
+      expect(scheduler.getTimeUntilNext()).toBe('8h 30m');
+    });
+
+    it('does not fire a slot already notified', () => {
+      const now = new Date();
+      now.setHours(9, 0, 0, 0);
+      vi.setSystemTime(now);
+      settings.notificationSlots = [
+        { hour: 9, minute: 0 },
+        { hour: 18, minute: 0 },
+      ];
+      settings.lastNotificationAt = now.getTime() + 60 * 1000;
+
+      expect(scheduler.getMissedSlot(new Date(now.getTime() + 5 * 60 * 1000))).toBeNull();
+      expect(scheduler.getMissedSlot(new Date(now.getTime() + 9 * 60 * 60 * 1000))?.getHours()).toBe(
+        18
+      );
+    });
+
+    it('skips days that are switched off', () => {
+      // Saturday 10:00, with Sundays off
+      const now = new Date(2026, 9, 17, 10, 0, 0, 0);
+      vi.setSystemTime(now);
+      settings.notificationDays = [1, 2, 3, 4, 5, 6];
+
+      const next = scheduler.getNextSlot();
+
+      expect(next?.getDay()).toBe(1);
+      expect(next?.getDate()).toBe(19);
+      expect(next?.getHours()).toBe(9);
+    });
+
+    it('reports no slot when every day is switched off', () => {
+      settings.notificationDays = [];
+
+      expect(scheduler.getNextSlot()).toBeNull();
+      expect(scheduler.getTimeUntilNext()).toBe('Not scheduled');
+    });
+
+    it('skips slots in quiet hours', () => {
+      const now = new Date();
+      now.setHours(12, 0, 0, 0);
+      vi.setSystemTime(now);
+      settings.notificationSlots = [
+        { hour: 7, minute: 0 },
+        { hour: 22, minute: 30 },
+      ];
+      settings.quietHours = { start: { hour: 22, minute: 0 }, end: { hour: 7, minute: 30 } };
+
+      expect(scheduler.getNextSlot()).toBeNull();
+
+      settings.notificationSlots.push({ hour: 19, minute: 0 });
+      expect(scheduler.getNextSlot()?.getHours()).toBe(19);
+    });
+
+    it("skips the rest of today's slots once the session target is met", () => {
+      const now = new Date();
+      now.setHours(12, 0, 0, 0);
+      vi.setSystemTime(now);
+      settings.notificationSlots = [
+        { hour: 9, minute: 0 },
+        { hour: 18, minute: 0 },
+      ];
+      settings.sessionsPerDay = 1;
+      scheduler = new NotificationScheduler(
+        plugin as any,
+        settings,
+        onNotification,
+        createLedger({ [toDateKey(now)]: 1 })
+      );
+
+      const next = scheduler.getNextSlot();
+
+      expect(next?.getDate()).not.toBe(now.getDate());
+      expect(next?.getHours()).toBe(9);
+      expect(scheduler.getMissedSlot()).toBeNull();
+    });
+
+    it('ignores session counts from other days', () => {
+      const now = new Date();
+      now.setHours(12, 0, 0, 0);
+      vi.setSystemTime(now);
+      settings.notificationSlots = [{ hour: 18, minute: 0 }];
+      settings.sessionsPerDay = 1;
+      scheduler = new NotificationScheduler(
+        plugin as any,
+        settings,
+        onNotification,
+        createLedger({ '2000-01-01': 3 })
+      );
+
+      expect(scheduler.getNextSlot()?.getDate()).toBe(now.getDate());
+    });
+
+    it('waits out quiet hours before firing a snooze', () => {
+      const now = new Date();
+      now.setHours(21, 50, 0, 0);
+      vi.setSystemTime(now);
+      settings.lastNotificationDate = toDateKey(now);
+      settings.quietHours = { start: { hour: 22, minute: 0 }, end: { hour: 7, minute: 0 } };
+      scheduler.start();
+
+      scheduler.snooze(30);
+      vi.advanceTimersByTime(30 * 60 * 1000);
+      expect(onNotification).not.toHaveBeenCalled();
+
+      const end = new Date(now);
+      end.setDate(end.getDate() + 1);
+      end.setHours(7, 0, 0, 0);
+      expect(scheduler.getSnoozedUntil()).toBe(end.getTime());
+    });
+  });
+
+  describe('time zones and clock changes', () => {
+    const originalTimeZone = process.env.TZ;
+
+    afterEach(() => {
+      if (originalTimeZone === undefined) {
+        delete process.env.TZ;
+      } else {
+        process.env.TZ = originalTimeZone;
+      }
+    });
+
+    it('does not take the UTC date as today west of UTC', () => {
+      process.env.TZ = 'America/Los_Angeles';
+      // 18:00 local is already tomorrow in UTC
+      vi.setSystemTime(new Date(2026, 5, 10, 18, 0));
+      settings.lastNotificationDate = '2026-06-10';
+
+      expect(scheduler.getMissedSlot()).toBeNull();
+
+      scheduler.start();
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      expect(onNotification).not.toHaveBeenCalled();
+    });
+
+    it('counts sessions on the local day east of UTC', () => {
+      process.env.TZ = 'Pacific/Auckland';
+      // 08:00 local is still yesterday in UTC
+      vi.setSystemTime(new Date(2026, 5, 11, 8, 0));
+      settings.notificationSlots = [{ hour: 18, minute: 0 }];
+      settings.sessionsPerDay = 1;
+      scheduler = new NotificationScheduler(
+        plugin as any,
+        settings,
+        onNotification,
+        createLedger({ '2026-06-11': 1 })
+      );
+
+      expect(scheduler.getNextSlot()?.getDate()).toBe(12);
+    });
+
+    it('keeps the slot time when clocks go forward overnight', () => {
+      process.env.TZ = 'Europe/London';
+      vi.setSystemTime(new Date(2026, 2, 28, 21, 0));
+      scheduler.start();
+
+      expect(scheduler.getTimeUntilNext()).toBe('11h 0m');
+
+      vi.advanceTimersByTime(11 * 60 * 60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(1);
+      expect(new Date().getHours()).toBe(9);
+    });
+
+    it('keeps the slot time when clocks go back overnight', () => {
+      process.env.TZ = 'Europe/London';
+      vi.setSystemTime(new Date(2026, 9, 24, 21, 0));
+      scheduler.start();
+
+      expect(scheduler.getTimeUntilNext()).toBe('13h 0m');
+
+      vi.advanceTimersByTime(12 * 60 * 60 * 1000);
+      expect(onNotification).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(1);
+      expect(new Date().getHours()).toBe(9);
+    });
+
+    it('fires a slot in the hour skipped by clocks going forward once', () => {
+      process.env.TZ = 'Europe/London';
+      vi.setSystemTime(new Date(2026, 2, 28, 23, 0));
+      settings.notificationSlots = [{ hour: 1, minute: 30 }];
+      scheduler.start();
+
+      expect(scheduler.getNextSlot()?.getHours()).toBe(2);
+
+      vi.advanceTimersByTime(4 * 60 * 60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('fires a slot in the hour repeated by clocks going back once', () => {
+      process.env.TZ = 'Europe/London';
+      vi.setSystemTime(new Date(2026, 9, 25, 0, 0));
+      settings.notificationSlots = [{ hour: 1, minute: 30 }];
+      scheduler.start();
+
+      vi.advanceTimersByTime(4 * 60 * 60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('sleep and wake', () => {
+    it('catches up on a slot slept through when waking soon after', () => {
+      const now = new Date();
+      now.setHours(8, 50, 0, 0);
+      vi.setSystemTime(now);
+      scheduler.start();
+
+      // Asleep from 08:50 to 09:10: the clock moves on but timers do not
+      vi.setSystemTime(now.getTime() + 20 * 60 * 1000);
+      vi.advanceTimersByTime(5 * 60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(1);
+
+      // The late timeout for 09:00 does not fire it again
+      vi.advanceTimersByTime(60 * 60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not fire a slot long past on waking, then fires the next one', () => {
+      const now = new Date();
+      now.setHours(8, 0, 0, 0);
+      vi.setSystemTime(now);
+      scheduler.start();
+
+      // Asleep from 08:00 to 11:00, across the 09:00 slot
+      vi.setSystemTime(now.getTime() + 3 * 60 * 60 * 1000);
+      vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+      expect(onNotification).not.toHaveBeenCalled();
+
+      // 13:00 now; the next slot is 09:00 tomorrow
+      vi.advanceTimersByTime(20 * 60 * 60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('re-arms a snooze on waking', () => {
+      const now = new Date();
+      now.setHours(12, 0, 0, 0);
+      vi.setSystemTime(now);
+      settings.lastNotificationDate = toDateKey(now);
+      scheduler.start();
+      scheduler.snooze(60);
+
+      // Asleep for two hours, then the next check runs
+      vi.setSystemTime(now.getTime() + 2 * 60 * 60 * 1000);
+      vi.advanceTimersByTime(5 * 60 * 1000);
+
+      expect(onNotification).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getNotificationSlots', () => {
+    it('falls back to the notification hour and minute', () => {
+      settings.notificationHour = 7;
+      settings.notificationMinute = 45;
+
+      expect(getNotificationSlots(settings)).toEqual([{ hour: 7, minute: 45 }]);
+    });
+
+    it('sorts slots by time of day', () => {
+      settings.notificationSlots = [
+        { hour: 20, minute: 0 },
+        { hour: 6, minute: 30 },
+        { hour: 6, minute: 15 },
+      ];
+
+      expect(getNotificationSlots(settings)).toEqual([
+        { hour: 6, minute: 15 },
+        { hour: 6, minute: 30 },
+        { hour: 20, minute: 0 },
+      ]);
+    });
+  });
+
+  describe('isQuietTime', () => {
+    const at = (hour: number, minute = 0) => new Date(2026, 0, 1, hour, minute);
+
+    it('is never quiet without quiet hours', () => {
+      expect(isQuietTime(at(3), null)).toBe(false);
+    });
+
+    it('handles quiet hours within a day', () => {
+      const quiet = { start: { hour: 12, minute: 0 }, end: { hour: 13, minute: 30 } };
+
+      expect(isQuietTime(at(11, 59), quiet)).toBe(false);
+      expect(isQuietTime(at(12), quiet)).toBe(true);
+      expect(isQuietTime(at(13, 29), quiet)).toBe(true);
+      expect(isQuietTime(at(13, 30), quiet)).toBe(false);
+    });
+
+    it('handles quiet hours spanning midnight', () => {
+      const quiet = { start: { hour: 22, minute: 0 }, end: { hour: 7, minute: 0 } };
+
+      expect(isQuietTime(at(21, 59), quiet)).toBe(false);
+      expect(isQuietTime(at(23), quiet)).toBe(true);
+      expect(isQuietTime(at(3), quiet)).toBe(true);
+      expect(isQuietTime(at(7), quiet)).toBe(false);
+    });
+  });
+
+  describe('snooze', () => {
+    beforeEach(() => {
+      // Well away from the daily notification, which has already fired
+      const now = new Date();
+      now.setHours(12, 0, 0, 0);
+      vi.setSystemTime(now);
+      settings.lastNotificationDate = toDateKey(now);
+    });
+
+    it('notifies again after the snooze, even if notified today', () => {
+      scheduler.start();
+
+      scheduler.snooze(30);
+      vi.advanceTimersByTime(29 * 60 * 1000);
+      expect(onNotification).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(1);
+      expect(onNotification).toHaveBeenCalledWith(null);
+      expect(scheduler.getSnoozedUntil()).toBeNull();
+    });
+
+    it('keeps the snooze when settings change', () => {
+      scheduler.start();
+      scheduler.snooze(10);
+
+      scheduler.updateSettings({ ...settings, notificationHour: 14 });
+      vi.advanceTimersByTime(10 * 60 * 1000);
+
+      expect(onNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('fires with notifications disabled', () => {
+      settings.notificationEnabled = false;
+      scheduler.start();
+
+      scheduler.snooze(10);
+      vi.advanceTimersByTime(10 * 60 * 1000);
+
+      expect(onNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not fire once stopped', () => {
+      scheduler.start();
+      scheduler.snooze(10);
+
+      scheduler.stop();
+      vi.advanceTimersByTime(10 * 60 * 1000);
+
+      expect(onNotification).not.toHaveBeenCalled();
+    });
+
+    it('fires from the interval check when the timeout is late', () => {
+      scheduler.start();
+      scheduler.snooze(10);
+
+      // Clock jumps forward as after sleep, without the timeout running
+      vi.setSystemTime(Date.now() + 20 * 60 * 1000);
+      (scheduler as any).checkAndNotify();
+
+      expect(onNotification).toHaveBeenCalledTimes(1);
+      expect(scheduler.getSnoozedUntil()).toBeNull();
+    });
+
+    it('replaces an earlier snooze', () => {
+      scheduler.start();
+      scheduler.snooze(10);
+      scheduler.snooze(30);
+
+      vi.advanceTimersByTime(10 * 60 * 1000);
+      expect(onNotification).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(20 * 60 * 1000);
+      expect(onNotification).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('getTimeUntilNext', () => {
     it('returns time in hours and minutes when more than an hour away', () => {
       const now = new Date();
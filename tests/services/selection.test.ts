@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  WeightedSelector,
+  ageStrategy,
+  stalenessStrategy,
+  lengthStrategy,
+  backlinksStrategy,
+  skipsStrategy,
+  DEFAULT_SELECTION_WEIGHTS,
+  SelectionContext,
+} from '../../src/services/selection';
+import { App, TFile } from '../mocks/obsidian';
+import { KastenatorSettings, SelectionWeights } from '../../src/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+const createDefaultSettings = (): KastenatorSettings => ({
+  notificationHour: 9,
+  notificationMinute: 0,
+  quarryFolders: ['Fleeting notes'],
+  migrationField: 'Migration',
+  quarryValue: 'quarry',
+  selectionWeights: { ...DEFAULT_SELECTION_WEIGHTS },
+  skipCounts: {},
+  atomFolder: 'Atoms',
+  atomTemplatePath: '',
+  lastNotificationDate: '',
+  notificationEnabled: true,
+  llmProvider: 'none',
+  useLLMCritique: false,
+});
+
+const onlyWeight = (id: keyof SelectionWeights): SelectionWeights => ({
+  age: 0,
+  staleness: 0,
+  length: 0,
+  backlinks: 0,
+  skips: 0,
+  [id]: 1,
+});
+
+describe('selection strategies', () => {
+  let app: App;
+  let settings: KastenatorSettings;
+  let context: SelectionContext;
+
+  beforeEach(() => {
+    app = new App();
+    settings = createDefaultSettings();
+    context = { app: app as any, settings, now: NOW };
+  });
+
+  it('age scores older notes higher', () => {
+    const files = [
+      new TFile('a.md', { ctime: NOW - 10 * DAY }),
+      new TFile('b.md', { ctime: NOW - 100 * DAY }),
+    ];
+
+    expect(ageStrategy.score(files as any, context)).toEqual([0.1, 1]);
+  });
+
+  it('staleness scores long-untouched notes higher', () => {
+    const files = [
+      new TFile('a.md', { mtime: NOW - 30 * DAY }),
+      new TFile('b.md', { mtime: NOW - 60 * DAY }),
+    ];
+
+    expect(stalenessStrategy.score(files as any, context)).toEqual([0.5, 1]);
+  });
+
+  it('length scores larger notes higher', () => {
+    const files = [new TFile('a.md', { size: 250 }), new TFile('b.md', { size: 1000 })];
+
+    expect(lengthStrategy.score(files as any, context)).toEqual([0.25, 1]);
+  });
+
+  it('length returns zeros when all notes are empty', () => {
+    const files = [new TFile('a.md'), new TFile('b.md')];
+
+    expect(lengthStrategy.score(files as any, context)).toEqual([0, 0]);
+  });
+
+  it('backlinks counts incoming resolved links', () => {
+    app.metadataCache.resolvedLinks = {
+      'x.md': { 'a.md': 1, 'b.md': 2 },
+      'y.md': { 'b.md': 2 },
+    };
+    const files = [new TFile('a.md'), new TFile('b.md'), new TFile('c.md')];
+
+    expect(backlinksStrategy.score(files as any, context)).toEqual([0.25, 1, 0]);
+  });
+
+  it('skips scores frequently skipped notes lower', () => {
+    settings.skipCounts = { 'a.md': 3 };
+    const files = [new TFile('a.md'), new TFile('b.md')];
+
+    expect(skipsStrategy.score(files as any, context)).toEqual([0.25, 1]);
+  });
+});
+
+describe('WeightedSelector', () => {
+  let app: App;
+  let settings: KastenatorSettings;
+
+  beforeEach(() => {
+    app = new App();
+    settings = createDefaultSettings();
+  });
+
+  it('returns null for an empty list', () => {
+    const selector = new WeightedSelector(app as any, settings);
+    expect(selector.pick([])).toBeNull();
+  });
+
+  it('gives every note equal weight when all strategies are disabled', () => {
+    settings.selectionWeights = { age: 0, staleness: 0, length: 0, backlinks: 0, skips: 0 };
+    const selector = new WeightedSelector(app as any, settings);
+    const files = [new TFile('a.md', { size: 10 }), new TFile('b.md', { size: 1000 })];
+
+    expect(selector.getWeights(files as any)).toEqual([1, 1]);
+  });
+
+  it('adds weighted strategy scores to the base weight', () => {
+    settings.selectionWeights = { ...onlyWeight('length'), length: 3 };
+    const selector = new WeightedSelector(app as any, settings);
+    const files = [new TFile('a.md', { size: 500 }), new TFile('b.md', { size: 1000 })];
+
+    expect(selector.getWeights(files as any)).toEqual([2.5, 4]);
+  });
+
+  it('draws proportionally to weight', () => {
+    settings.selectionWeights = { ...onlyWeight('length'), length: 3 };
+    const files = [new TFile('a.md', { size: 0 }), new TFile('b.md', { size: 1000 })];
+
+    // Weights are [1, 4]; total 5
+    const low = new WeightedSelector(app as any, settings, undefined, () => 0.19);
+    const high = new WeightedSelector(app as any, settings, undefined, () => 0.21);
+
+    expect(low.pick(files as any)?.path).toBe('a.md');
+    expect(high.pick(files as any)?.path).toBe('b.md');
+  });
+
+  it('accepts custom strategies', () => {
+    settings.selectionWeights = { ...onlyWeight('age'), age: 1 };
+    const favourFirst = {
+      id: 'age' as const,
+      name: 'First',
+      description: 'Always favour the first file',
+      score: (files: unknown[]) => files.map((_, i) => (i === 0 ? 1 : 0)),
+    };
+    const selector = new WeightedSelector(app as any, settings, [favourFirst]);
+    const files = [new TFile('a.md'), new TFile('b.md')];
+
+    expect(selector.getWeights(files as any)).toEqual([2, 1]);
+  });
+
+  it('uses updated settings', () => {
+    const selector = new WeightedSelector(app as any, settings);
+    const files = [new TFile('a.md', { size: 0 }), new TFile('b.md', { size: 100 })];
+
+    selector.updateSettings({ ...settings, selectionWeights: onlyWeight('length') });
+
+    expect(selector.getWeights(files as any)).toEqual([1, 2]);
+  });
+});
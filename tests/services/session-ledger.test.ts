@@ -0,0 +1,290 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  SessionLedger,
+  parseLedger,
+  summariseSessions,
+  describeLedgerSession,
+} from '../../src/services/session-ledger';
+import { App } from '../mocks/obsidian';
+import { KastenatorSettings, SessionLedgerEntry } from '../../src/types';
+
+const LEDGER_PATH = 'Kastenator/Session ledger.md';
+
+const createDefaultSettings = (): KastenatorSettings => ({
+  notificationHour: 9,
+  notificationMinute: 0,
+  quarryFolders: ['Fleeting notes', 'Source notes'],
+  migrationField: 'Migration',
+  quarryValue: 'quarry',
+  atomFolder: 'Atoms',
+  atomTemplatePath: '',
+  lastNotificationDate: '',
+  notificationEnabled: true,
+  sessionLedgerPath: LEDGER_PATH,
+});
+
+const createEntry = (overrides: Partial<SessionLedgerEntry> = {}): SessionLedgerEntry => ({
+  id: `entry-${Math.random().toString(36).slice(2)}`,
+  session: 'session-1',
+  event: 'started',
+  device: 'device-laptop',
+  deviceName: 'Laptop',
+  time: new Date(2026, 9, 19, 9, 5).toISOString(),
+  date: '2026-10-19',
+  source: 'Fleeting notes/Idea.md',
+  ...overrides,
+});
+
+const toLedger = (entries: SessionLedgerEntry[]): string =>
+  ['Header', '', ...entries.map((entry) => JSON.stringify(entry))].join('\n') + '\n';
+
+describe('parseLedger', () => {
+  it('reads one entry per line', () => {
+    const entries = [createEntry(), createEntry({ event: 'completed' })];
+
+    expect(parseLedger(toLedger(entries))).toEqual(entries);
+  });
+
+  it('counts an entry duplicated by a merge once', () => {
+    const entry = createEntry();
+
+    expect(parseLedger(toLedger([entry, entry]))).toHaveLength(1);
+  });
+
+  it('skips malformed and unrelated lines', () => {
+    const entry = createEntry();
+    const content = [
+      'Header',
+      '{"id": "cut short',
+      JSON.stringify({ id: 'x', event: 'exploded' }),
+      JSON.stringify(entry),
+      '- a note someone added',
+    ].join('\n');
+
+    expect(parseLedger(content)).toEqual([entry]);
+  });
+});
+
+describe('summariseSessions', () => {
+  it('combines the events of each session', () => {
+    const sessions = summariseSessions([
+      createEntry({ event: 'completed', atoms: ['Atoms/A.md'], time: '2026-10-19T09:30:00.000Z' }),
+      createEntry({ time: '2026-10-19T09:00:00.000Z' }),
+    ]);
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({
+      id: 'session-1',
+      deviceName: 'Laptop',
+      status: 'completed',
+      atoms: ['Atoms/A.md'],
+    });
+    expect(sessions[0].startedAt.toISOString()).toBe('2026-10-19T09:00:00.000Z');
+    expect(sessions[0].endedAt?.toISOString()).toBe('2026-10-19T09:30:00.000Z');
+  });
+
+  it('keeps the quarry size at the start and the phase times at the end', () => {
+    const [session] = summariseSessions([
+      createEntry({ quarrySize: 40, time: '2026-10-19T09:00:00.000Z' }),
+      createEntry({
+        event: 'completed',
+        phaseTimes: { introduction: 60000 },
+        time: '2026-10-19T09:30:00.000Z',
+      }),
+    ]);
+
+    expect(session.quarrySize).toBe(40);
+    expect(session.phaseTimes).toEqual({ introduction: 60000 });
+  });
+
+  it('leaves a session without an end in progress', () => {
+    expect(summariseSessions([createEntry()])[0].status).toBe('in-progress');
+  });
+
+  it('keeps a completed session completed if it is later abandoned', () => {
+    const sessions = summariseSessions([
+      createEntry({ time: '2026-10-19T09:00:00.000Z' }),
+      createEntry({ event: 'completed', time: '2026-10-19T09:30:00.000Z' }),
+      createEntry({ event: 'abandoned', time: '2026-10-19T09:31:00.000Z' }),
+    ]);
+
+    expect(sessions[0].status).toBe('completed');
+  });
+
+  it('orders sessions by when they started', () => {
+    const sessions = summariseSessions([
+      createEntry({ session: 'later', time: '2026-10-19T18:00:00.000Z' }),
+      createEntry({ session: 'earlier', time: '2026-10-19T09:00:00.000Z' }),
+    ]);
+
+    expect(sessions.map((session) => session.id)).toEqual(['earlier', 'later']);
+  });
+});
+
+describe('describeLedgerSession', () => {
+  const [session] = summariseSessions([createEntry()]);
+
+  it('describes a session in progress', () => {
+    expect(describeLedgerSession(session)).toMatch(/^"Idea" is in progress on Laptop/);
+  });
+
+  it('describes a completed session with its atoms', () => {
+    const completed = { ...session, status: 'completed' as const, atoms: ['Atoms/A.md'] };
+
+    expect(describeLedgerSession(completed)).toMatch(/"Idea" was atomised on Laptop at .*, creating 1 atom\./);
+  });
+
+  it('describes an abandoned session', () => {
+    const abandoned = { ...session, status: 'abandoned' as const };
+
+    expect(describeLedgerSession(abandoned)).toBe('"Idea" was started and cancelled on Laptop.');
+  });
+});
+
+describe('SessionLedger', () => {
+  let app: App;
+  let settings: KastenatorSettings;
+  let device: { id: string; get: () => { name: string } };
+  let ledger: SessionLedger;
+
+  beforeEach(() => {
+    app = new App();
+    settings = createDefaultSettings();
+    device = { id: 'device-phone', get: () => ({ name: 'Phone' }) };
+    ledger = new SessionLedger(app as any, settings, device as any);
+  });
+
+  describe('record', () => {
+    it('creates the ledger note and its folder', async () => {
+      const now = new Date(2026, 9, 19, 9, 0);
+
+      await ledger.record('started', 'session-1', 'Fleeting notes/Idea.md', { quarrySize: 40 }, now);
+
+      expect(app.vault.getAbstractFileByPath('Kastenator')).not.toBeNull();
+      const file = app.vault.getAbstractFileByPath(LEDGER_PATH) as any;
+      const [entry] = parseLedger(await app.vault.read(file));
+      expect(entry).toMatchObject({
+        session: 'session-1',
+        event: 'started',
+        device: 'device-phone',
+        deviceName: 'Phone',
+        time: now.toISOString(),
+        date: '2026-10-19',
+        source: 'Fleeting notes/Idea.md',
+        quarrySize: 40,
+      });
+      expect(entry.atoms).toBeUndefined();
+    });
+
+    it('appends to an existing note on a new line', async () => {
+      app.vault._setFile(LEDGER_PATH, `Header\n\n${JSON.stringify(createEntry())}`);
+      await ledger.load();
+
+      await ledger.record('completed', 'session-2', 'Fleeting notes/Other.md', {
+        atoms: ['Atoms/A.md'],
+      });
+
+      const file = app.vault.getAbstractFileByPath(LEDGER_PATH) as any;
+      const content = await app.vault.read(file);
+      expect(content.endsWith('\n')).toBe(true);
+      expect(parseLedger(content)).toHaveLength(2);
+      expect(ledger.getSessions()).toHaveLength(2);
+    });
+  });
+
+  describe('load', () => {
+    it('has no sessions when the note does not exist', async () => {
+      await ledger.load();
+
+      expect(ledger.getSessions()).toEqual([]);
+    });
+
+    it('reads sessions from the note', async () => {
+      app.vault._setFile(LEDGER_PATH, toLedger([createEntry()]));
+
+      await ledger.load();
+
+      expect(ledger.getSessions()[0].deviceName).toBe('Laptop');
+    });
+
+    it('reloads when another device changes the ledger', async () => {
+      ledger.registerEvents({ registerEvent: () => {} } as any);
+      app.vault._setFile(LEDGER_PATH, toLedger([createEntry()]));
+
+      app.vault.trigger('modify', { path: LEDGER_PATH });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(ledger.getSessions()).toHaveLength(1);
+    });
+  });
+
+  describe('countCompleted', () => {
+    it('counts sessions completed on a day across devices', async () => {
+      app.vault._setFile(
+        LEDGER_PATH,
+        toLedger([
+          createEntry({ event: 'completed' }),
+          createEntry({ event: 'completed' }),
+          createEntry({ session: 'session-2', device: 'device-phone', event: 'completed' }),
+          createEntry({ session: 'session-3', event: 'completed', date: '2026-10-18' }),
+          createEntry({ session: 'session-4' }),
+        ])
+      );
+      await ledger.load();
+
+      expect(ledger.countCompleted('2026-10-19')).toBe(2);
+    });
+  });
+
+  describe('getSessionTakenElsewhere', () => {
+    const slot = new Date(2026, 9, 19, 9, 0);
+
+    it('finds a session another device started since the slot', async () => {
+      app.vault._setFile(LEDGER_PATH, toLedger([createEntry()]));
+      await ledger.load();
+
+      expect(ledger.getSessionTakenElsewhere(slot)?.deviceName).toBe('Laptop');
+    });
+
+    it('ignores sessions started on this device', async () => {
+      app.vault._setFile(LEDGER_PATH, toLedger([createEntry({ device: 'device-phone' })]));
+      await ledger.load();
+
+      expect(ledger.getSessionTakenElsewhere(slot)).toBeNull();
+    });
+
+    it('ignores sessions cancelled on another device', async () => {
+      app.vault._setFile(
+        LEDGER_PATH,
+        toLedger([createEntry(), createEntry({ event: 'abandoned' })])
+      );
+      await ledger.load();
+
+      expect(ledger.getSessionTakenElsewhere(slot)).toBeNull();
+    });
+
+    it('ignores sessions finished before the slot', async () => {
+      const earlier = new Date(2026, 9, 19, 8, 0).toISOString();
+      app.vault._setFile(
+        LEDGER_PATH,
+        toLedger([
+          createEntry({ time: earlier }),
+          createEntry({ event: 'completed', time: earlier }),
+        ])
+      );
+      await ledger.load();
+
+      expect(ledger.getSessionTakenElsewhere(slot)).toBeNull();
+    });
+
+    it("counts a session still in progress from earlier in the slot's day", async () => {
+      app.vault._setFile(
+        LEDGER_PATH,
+        toLedger([createEntry({ time: new Date(2026, 9, 19, 8, 0).toISOString() })])
+      );
+      await ledger.load();
+
+      expect(ledger.getSessionTakenElsewhere(slot)?.status).toBe('in-progress');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SessionStore, serialiseSession, getPhaseTimes } from '../../src/services/session-store';
+import { TFile } from '../mocks/obsidian';
+import { KastenatorSettings, AtomisationSession } from '../../src/types';
+
+const createDefaultSettings = (): KastenatorSettings => ({
+  notificationHour: 9,
+  notificationMinute: 0,
+  quarryFolders: ['Fleeting notes'],
+  migrationField: 'Migration',
+  quarryValue: 'quarry',
+  selectionWeights: { age: 0, staleness: 0, length: 0, backlinks: 0, skips: 0 },
+  skipCounts: {},
+  atomFolder: 'Atoms',
+  atomTemplatePath: '',
+  lastNotificationDate: '',
+  notificationEnabled: true,
+  savedSession: null,
+  reviewCards: [],
+  llmProvider: 'none',
+  useLLMCritique: false,
+});
+
+const createSession = (overrides: Partial<AtomisationSession> = {}): AtomisationSession => ({
+  id: 'session-1',
+  sourceNote: {
+    file: new TFile('Fleeting notes/source.md') as any,
+    title: 'source',
+    content: '# Source',
+    frontmatter: {},
+    migrationStatus: 'quarry',
+  },
+  candidates: [],
+  phase: 'explanation',
+  startedAt: new Date('2024-03-01T10:00:00.000Z'),
+  phaseTimes: { introduction: 60000 },
+  phaseStartedAt: new Date('2024-03-01T10:01:00.000Z'),
+  completed: false,
+  ...overrides,
+});
+
+describe('serialiseSession', () => {
+  it('stores the source path, phase, ISO start time and phase times', () => {
+    const serialised = serialiseSession(createSession(), new Date('2024-03-01T10:03:00.000Z'));
+
+    expect(serialised).toEqual({
+      id: 'session-1',
+      sourcePath: 'Fleeting notes/source.md',
+      candidates: [],
+      phase: 'explanation',
+      startedAt: '2024-03-01T10:00:00.000Z',
+      phaseTimes: { introduction: 60000, explanation: 120000 },
+    });
+  });
+
+  it('round-trips through JSON', () => {
+    const serialised = serialiseSession(createSession());
+
+    expect(JSON.parse(JSON.stringify(serialised))).toEqual(serialised);
+  });
+});
+
+describe('getPhaseTimes', () => {
+  it('adds the time so far to the current phase', () => {
+    const session = createSession({ phaseTimes: { introduction: 60000, explanation: 30000 } });
+
+    expect(getPhaseTimes(session, new Date('2024-03-01T10:02:00.000Z'))).toEqual({
+      introduction: 60000,
+      explanation: 90000,
+    });
+  });
+
+  it('does not change the session', () => {
+    const session = createSession();
+
+    getPhaseTimes(session, new Date('2024-03-01T10:02:00.000Z'));
+
+    expect(session.phaseTimes).toEqual({ introduction: 60000 });
+  });
+});
+
+describe('SessionStore', () => {
+  let settings: KastenatorSettings;
+  let persist: ReturnType<typeof vi.fn>;
+  let store: SessionStore;
+
+  beforeEach(() => {
+    settings = createDefaultSettings();
+    persist = vi.fn().mockResolvedValue(undefined);
+    store = new SessionStore(settings, persist);
+  });
+
+  it('starts with nothing to resume', () => {
+    expect(store.load()).toBeNull();
+    expect(store.hasUnfinishedSession()).toBe(false);
+  });
+
+  it('saves an unfinished session into settings and persists', async () => {
+    await store.save(createSession());
+
+    expect(settings.savedSession?.sourcePath).toBe('Fleeting notes/source.md');
+    expect(store.hasUnfinishedSession()).toBe(true);
+    expect(persist).toHaveBeenCalledTimes(1);
+  });
+
+  it('clears storage when saving a completed session', async () => {
+    await store.save(createSession());
+    await store.save(createSession({ completed: true }));
+
+    expect(store.load()).toBeNull();
+  });
+
+  it('does not persist when clearing an empty store', async () => {
+    await store.clear();
+
+    expect(persist).not.toHaveBeenCalled();
+  });
+
+  it('reads from updated settings', () => {
+    const saved = serialiseSession(createSession());
+    store.updateSettings({ ...settings, savedSession: saved });
+
+    expect(store.load()).toBe(saved);
+  });
+});
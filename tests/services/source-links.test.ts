@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateBlockId,
+  findPassageEnd,
+  ensureBlockId,
+  formatAtomEntry,
+  upsertAtomsSection,
+} from '../../src/services/source-links';
+
+const sequence = (...values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length];
+};
+
+describe('generateBlockId', () => {
+  it('produces six lowercase alphanumerics', () => {
+    expect(generateBlockId('')).toMatch(/^[a-z0-9]{6}$/);
+  });
+
+  it('avoids IDs already in the content', () => {
+    const random = sequence(0, 0, 0, 0, 0, 0, 0.03, 0.03, 0.03, 0.03, 0.03, 0.03);
+
+    expect(generateBlockId('Text ^aaaaaa', random)).toBe('bbbbbb');
+  });
+});
+
+describe('findPassageEnd', () => {
+  const content = 'Intro line.\n\nThe quick brown\nfox jumps over the lazy dog.\n\nOutro.';
+
+  it('finds a passage across line breaks', () => {
+    const end = findPassageEnd(content, 'quick brown fox jumps');
+
+    expect(content.slice(0, end!)).toBe('Intro line.\n\nThe quick brown\nfox jumps');
+  });
+
+  it('ignores blockquote markers in the evidence', () => {
+    const end = findPassageEnd(content, '> the lazy dog.');
+
+    expect(content.slice(0, end!).endsWith('lazy dog.')).toBe(true);
+  });
+
+  it('returns null when the passage is missing or empty', () => {
+    expect(findPassageEnd(content, 'not in the note')).toBeNull();
+    expect(findPassageEnd(content, '  ')).toBeNull();
+  });
+});
+
+describe('ensureBlockId', () => {
+  const random = sequence(0.5);
+
+  it('adds an ID at the end of the paragraph', () => {
+    const content = 'The quick brown\nfox jumps.\n\nNext paragraph.';
+
+    const result = ensureBlockId(content, 5, random);
+
+    expect(result.blockId).toBe('ssssss');
+    expect(result.content).toBe('The quick brown\nfox jumps. ^ssssss\n\nNext paragraph.');
+  });
+
+  it('stops at the list item containing the offset', () => {
+    const content = '- first item\n- second item\n- third item';
+
+    const result = ensureBlockId(content, content.indexOf('second') + 3, random);
+
+    expect(result.content).toBe('- first item\n- second item ^ssssss\n- third item');
+  });
+
+  it('reuses an existing block ID', () => {
+    const content = 'A paragraph. ^abc123\n\nMore.';
+
+    const result = ensureBlockId(content, 3, random);
+
+    expect(result).toEqual({ content, blockId: 'abc123' });
+  });
+});
+
+describe('formatAtomEntry', () => {
+  it('links the atom and optionally its evidence block', () => {
+    expect(formatAtomEntry({ linktext: 'Atom' })).toBe('- [[Atom]]');
+    expect(formatAtomEntry({ linktext: 'Atom', blockId: 'abc123' })).toBe(
+      '- [[Atom]] ([[#^abc123|evidence]])'
+    );
+  });
+});
+
+describe('upsertAtomsSection', () => {
+  it('appends a new section at the end of the note', () => {
+    expect(upsertAtomsSection('# Note\n\nBody\n', [{ linktext: 'A' }, { linktext: 'B' }])).toBe(
+      '# Note\n\nBody\n\n## Atoms\n\n- [[A]]\n- [[B]]\n'
+    );
+  });
+
+  it('adds entries to an existing section before the next heading', () => {
+    const content = '# Note\n\n## Atoms\n\n- [[A]]\n\n## Later\n\nText';
+
+    expect(upsertAtomsSection(content, [{ linktext: 'A' }, { linktext: 'B' }])).toBe(
+      '# Note\n\n## Atoms\n\n- [[A]]\n- [[B]]\n\n## Later\n\nText'
+    );
+  });
+
+  it('leaves the note unchanged when every atom is already listed', () => {
+    const content = 'Body\n\n## Atoms\n\n- [[A]]\n';
+
+    expect(upsertAtomsSection(content, [{ linktext: 'A' }])).toBe(content);
+  });
+});
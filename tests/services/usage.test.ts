@@ -0,0 +1,175 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UsageLedger, sumUsage, formatCost } from '../../src/services/usage';
+import { KastenatorSettings, UsageRecord } from '../../src/types';
+
+const createDefaultSettings = (): KastenatorSettings => ({
+  notificationHour: 9,
+  notificationMinute: 0,
+  quarryFolders: ['Fleeting notes'],
+  migrationField: 'Migration',
+  quarryValue: 'quarry',
+  atomFolder: 'Atoms',
+  atomTemplatePath: '',
+  lastNotificationDate: '',
+  notificationEnabled: true,
+  llmProvider: 'claude',
+  useLLMCritique: true,
+  usageLedger: [],
+  monthlyBudget: 0,
+});
+
+const createRecord = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  timestamp: new Date(2024, 4, 15, 10).toISOString(),
+  provider: 'claude',
+  model: 'claude-sonnet-4-20250514',
+  inputTokens: 1000,
+  outputTokens: 200,
+  cost: 0.006,
+  ...overrides,
+});
+
+describe('sumUsage', () => {
+  it('adds up calls, tokens and cost', () => {
+    const totals = sumUsage([createRecord(), createRecord({ inputTokens: 500, cost: 0.004 })]);
+
+    expect(totals.calls).toBe(2);
+    expect(totals.inputTokens).toBe(1500);
+    expect(totals.outputTokens).toBe(400);
+    expect(totals.cost).toBeCloseTo(0.01);
+    expect(totals.unpricedCalls).toBe(0);
+  });
+
+  it('counts calls without a price separately', () => {
+    const totals = sumUsage([createRecord({ cost: null })]);
+
+    expect(totals.cost).toBe(0);
+    expect(totals.unpricedCalls).toBe(1);
+  });
+});
+
+describe('formatCost', () => {
+  it('shows cents for ordinary amounts', () => {
+    expect(formatCost(0)).toBe('$0.00');
+    expect(formatCost(1.5)).toBe('$1.50');
+  });
+
+  it('shows more precision below a cent', () => {
+    expect(formatCost(0.0042)).toBe('$0.0042');
+  });
+});
+
+describe('UsageLedger', () => {
+  let settings: KastenatorSettings;
+  let persist: ReturnType<typeof vi.fn>;
+  let ledger: UsageLedger;
+  const now = new Date(2024, 4, 15, 18);
+
+  beforeEach(() => {
+    settings = createDefaultSettings();
+    persist = vi.fn().mockResolvedValue(undefined);
+    ledger = new UsageLedger(settings, persist);
+  });
+
+  describe('record', () => {
+    it('appends the record and persists', async () => {
+      await ledger.record(createRecord(), now);
+
+      expect(settings.usageLedger).toHaveLength(1);
+      expect(persist).toHaveBeenCalledTimes(1);
+    });
+
+    it('drops records older than the retention period', async () => {
+      settings.usageLedger = [createRecord({ timestamp: new Date(2023, 0, 1).toISOString() })];
+
+      await ledger.record(createRecord(), now);
+
+      expect(settings.usageLedger).toHaveLength(1);
+      expect(settings.usageLedger[0].timestamp).toBe(createRecord().timestamp);
+    });
+
+    it('starts a ledger when settings have none', async () => {
+      delete (settings as any).usageLedger;
+
+      await ledger.record(createRecord(), now);
+
+      expect(settings.usageLedger).toHaveLength(1);
+    });
+  });
+
+  describe('getTotals', () => {
+    beforeEach(() => {
+      settings.usageLedger = [
+        createRecord({ sessionId: 'a', sourcePath: 'one.md' }),
+        createRecord({ sessionId: 'a', sourcePath: 'one.md', cost: 0.004 }),
+        createRecord({ sessionId: 'b', sourcePath: 'two.md' }),
+      ];
+    });
+
+    it('totals a session', () => {
+      expect(ledger.getTotals({ sessionId: 'a' }).cost).toBeCloseTo(0.01);
+    });
+
+    it('totals a source note', () => {
+      expect(ledger.getTotals({ sourcePath: 'two.md' }).calls).toBe(1);
+    });
+
+    it('totals everything without a filter', () => {
+      expect(ledger.getTotals().calls).toBe(3);
+    });
+  });
+
+  describe('daily and monthly totals', () => {
+    beforeEach(() => {
+      settings.usageLedger = [
+        createRecord({ timestamp: new Date(2024, 3, 30, 23).toISOString(), cost: 1 }),
+        createRecord({ timestamp: new Date(2024, 4, 14, 23, 59).toISOString(), cost: 2 }),
+        createRecord({ timestamp: new Date(2024, 4, 15, 0, 1).toISOString(), cost: 4 }),
+      ];
+    });
+
+    it('counts today from local midnight', () => {
+      expect(ledger.getDailyTotals(now).cost).toBe(4);
+    });
+
+    it('counts the month from the first, local time', () => {
+      expect(ledger.getMonthlyTotals(now).cost).toBe(6);
+    });
+  });
+
+  describe('isOverBudget', () => {
+    beforeEach(() => {
+      settings.usageLedger = [createRecord({ cost: 5 })];
+    });
+
+    it('is never over without a budget', () => {
+      expect(ledger.isOverBudget(now)).toBe(false);
+    });
+
+    it('is over once the month reaches the budget', () => {
+      settings.monthlyBudget = 5;
+      expect(ledger.isOverBudget(now)).toBe(true);
+    });
+
+    it('is under while spend is below the budget', () => {
+      settings.monthlyBudget = 10;
+      expect(ledger.isOverBudget(now)).toBe(false);
+    });
+
+    it('follows updated settings', () => {
+      const updated = { ...createDefaultSettings(), monthlyBudget: 1, usageLedger: [createRecord()] };
+      ledger.updateSettings(updated);
+      expect(ledger.isOverBudget(now)).toBe(false);
+    });
+  });
+
+  describe('clear', () => {
+    it('forgets all records', async () => {
+      settings.usageLedger = [createRecord()];
+
+      await ledger.clear();
+
+      expect(ledger.getTotals().calls).toBe(0);
+      expect(persist).toHaveBeenCalled();
+    });
+  });
+});